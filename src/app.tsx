@@ -3,6 +3,10 @@ import { Sidebar }           from "./components/Sidebar";
 import { WorldStage }        from "./components/WorldStage";
 import { PropertiesPanel }   from "./components/PropertiesPanel";
 import { AnalysisPanel } from "./components/AnalysisPanel";
+import { ProjectPanel }      from "./components/ProjectPanel";
+import { LoadCasePanel }     from "./components/LoadCasePanel";
+import { TimeHistoryPanel }  from "./components/TimeHistoryPanel";
+import { LoadPathPanel }     from "./components/LoadPathPanel";
 
 export default function App() {
   return (
@@ -12,6 +16,10 @@ export default function App() {
         <WorldStage />
         <PropertiesPanel />
         <AnalysisPanel /> 
+        <ProjectPanel />
+        <LoadCasePanel />
+        <TimeHistoryPanel />
+        <LoadPathPanel />
       </div>
     </AppProvider>
   );
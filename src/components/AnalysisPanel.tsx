@@ -4,9 +4,58 @@
 
 import React from "react";
 import { useAppContext } from "../contexts/AppContext";
+import type {
+  ResultViewKey, FemProgress, FemStage, ElementResult, DisplacementResult,
+} from "../utils/femTypes";
 
 const PANEL_W = 210;
 const DEFORMED_COLOR = "#b48eff";
+const MODE_COLOR     = "#ff9f43";
+const SECOND_COLOR   = "#f06292";
+/** これを超えるつり合い残差（外力に対する比）は数値誤差が大きいとして強調する */
+const RESIDUAL_WARN = 1e-6;
+
+/** 解析の段階の表示名と、全体の進み具合に占める割合（おおよその所要時間の比） */
+const STAGES: { stage: FemStage; label: string; weight: number }[] = [
+  { stage: "validate", label: "検証",     weight: 0.02 },
+  { stage: "assemble", label: "組立",     weight: 0.2 },
+  { stage: "order",    label: "並べ替え", weight: 0.05 },
+  { stage: "factor",   label: "分解",     weight: 0.45 },
+  { stage: "solve",    label: "求解",     weight: 0.08 },
+  { stage: "recover",  label: "断面力",   weight: 0.2 },
+  { stage: "eigen",    label: "固有値",   weight: 0.2 },   // 座屈解析・固有振動解析のときだけ
+  { stage: "nonlinear", label: "2次解析", weight: 0.2 },   // P-Δ 解析のときだけ
+  { stage: "dynamic",  label: "時刻歴",   weight: 0.2 },   // 時刻歴応答解析のときだけ
+  { stage: "influence", label: "影響線",  weight: 0.1 },   // 影響線のときだけ
+  { stage: "moving",   label: "移動荷重", weight: 0.2 },   // 移動荷重のときだけ
+];
+
+/** 全体の進み具合（0〜1）と段階の表示名 */
+function overallProgress(p: FemProgress | null): { fraction: number; label: string } {
+  if (!p) return { fraction: 0, label: "" };
+  let done = 0;
+  for (const s of STAGES) {
+    if (s.stage === p.stage) return { fraction: done + s.weight * p.fraction, label: s.label };
+    done += s.weight;
+  }
+  return { fraction: done, label: "" };
+}
+
+/** 断面の曲げモーメントの絶対値の最大 */
+function peakMoment(elements: ElementResult[]): number {
+  return Math.max(0, ...elements.flatMap(el => el.points.map(p => Math.abs(p.M))));
+}
+
+/** 節点の並進変位の大きさの最大 */
+function peakDisplacement(displacements: DisplacementResult[]): number {
+  return Math.max(0, ...displacements.map(d => Math.hypot(d.ux, d.uy)));
+}
+
+const SELECT_STYLE: React.CSSProperties = {
+  width: "100%", padding: "3px 4px", borderRadius: 4,
+  background: "#111", border: "1px solid #444",
+  color: "#ddd", fontSize: 12,
+};
 
 function ToggleBtn({ label, color, active, onClick }: {
   label: string; color: string; active: boolean; onClick: () => void;
@@ -44,13 +93,37 @@ function ScaleRow({ label, value, min, max, step, color, onChange }: {
   );
 }
 
+/** モード形状の振幅とアニメーションの切り替え（座屈・固有振動で共通） */
+function ModeControls({ scale, onScale, animate, onAnimate }: {
+  scale: number; onScale: (v: number) => void;
+  animate: boolean; onAnimate: (v: boolean) => void;
+}) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, marginTop: 6 }}>
+      <ScaleRow label="振幅" value={scale}
+        min={0.1} max={5} step={0.1}
+        color={MODE_COLOR} onChange={onScale} />
+      <div style={{ display: "flex", gap: 4 }}>
+        <ToggleBtn label={animate ? "■ 停止" : "▶ アニメーション"} color={MODE_COLOR}
+          active={animate}
+          onClick={() => onAnimate(!animate)} />
+      </div>
+    </div>
+  );
+}
+
 export function AnalysisPanel() {
   const {
     femResult, validation, isStale,
+    activeResult, envelope, movingEnvelope, setResultKey,
     displayFlags, setDisplayFlag,
     diagramScale, setDiagramScale,
     deformedScale, setDeformedScale,
-    handleRunAnalysis, clearResult,
+    handleRunAnalysis, cancelAnalysis, clearResult,
+    isRunning, progress,
+    liveMode, setLiveMode, liveFailure,
+    analysisOptions, setAnalysisOption,
+    modeView, setModeView, modeScale, setModeScale, animateMode, setAnimateMode,
   } = useAppContext();
 
   const hasResult = femResult !== null;
@@ -60,10 +133,19 @@ export function AnalysisPanel() {
   // 断面力・反力のどれかが表示ONかどうか（スケールスライダーの表示判定）
   const showingDiagram = displayFlags.N || displayFlags.Q || displayFlags.M;
 
-  // ボタンの状態: 優先順位は isStale > isDone > 通常
+  const buckling    = activeResult?.buckling;
+  const secondOrder = activeResult?.secondOrder;
+  const modal       = femResult?.ok ? femResult.modal : undefined;
+
+  // ボタンの状態: 優先順位は isRunning > isStale > isDone > 通常（実行中のクリックは中止）
   const isDone = !!(hasResult && femResult?.ok && !isStale);
-  const btnLabel = isStale ? "再解析" : isDone ? "✓ 解析完了" : "解析実行";
-  const btnStyle: React.CSSProperties = isStale
+  const running  = overallProgress(progress);
+  const btnLabel = isRunning
+    ? `解析中… ${running.label} ${Math.round(running.fraction * 100)}%`
+    : isStale ? "再解析" : isDone ? "✓ 解析完了" : "解析実行";
+  const btnStyle: React.CSSProperties = isRunning
+    ? { background: "#2c3e50", color: "#ddd", border: "1.5px solid #2980b9" }
+    : isStale
     ? { background: "#e67e22", color: "#fff", border: "none" }
     : isDone
     ? { background: "transparent", color: "#27ae60", border: "1.5px solid #27ae60" }
@@ -88,16 +170,26 @@ export function AnalysisPanel() {
       </div>
 
       {/* 解析実行ボタン */}
-      <button onClick={handleRunAnalysis} style={{
-        padding: "8px 0", borderRadius: 5,
-        fontWeight: "bold", fontSize: 13,
-        cursor: "pointer",
-        transition: "background 0.2s, color 0.2s",
-        position: "relative",
-        ...btnStyle,
-      }}>
-        {btnLabel}
-        {isStale && (
+      <button onClick={isRunning ? cancelAnalysis : handleRunAnalysis}
+        title={isRunning ? "クリックで中止" : undefined}
+        style={{
+          padding: "8px 0", borderRadius: 5,
+          fontWeight: "bold", fontSize: 13,
+          cursor: "pointer",
+          transition: "background 0.2s, color 0.2s",
+          position: "relative", overflow: isRunning ? "hidden" : "visible",
+          ...btnStyle,
+        }}>
+        {isRunning && (
+          <span style={{
+            position: "absolute", left: 0, top: 0, bottom: 0,
+            width: `${running.fraction * 100}%`,
+            background: "rgba(41, 128, 185, 0.35)",
+            transition: "width 0.1s",
+          }} />
+        )}
+        <span style={{ position: "relative" }}>{btnLabel}</span>
+        {!isRunning && isStale && (
           <span style={{
             position: "absolute", top: -6, right: -6,
             width: 10, height: 10, borderRadius: "50%",
@@ -106,6 +198,80 @@ export function AnalysisPanel() {
         )}
       </button>
 
+      {/* ライブ解析（モデルの変更ごとに自動で解き直す） */}
+      <div style={{ display: "flex", gap: 4 }}>
+        <ToggleBtn label={liveMode ? "● ライブ解析" : "ライブ解析"} color="#27ae60"
+          active={liveMode}
+          onClick={() => setLiveMode(!liveMode)} />
+      </div>
+      <div style={{ display: "flex", gap: 4 }}>
+        <span style={{ flex: 1, display: "flex" }} title="解析時に線形座屈の荷重係数とモードも求める">
+          <ToggleBtn label="座屈解析" color={MODE_COLOR}
+            active={!!analysisOptions.buckling}
+            onClick={() => setAnalysisOption("buckling", !analysisOptions.buckling)} />
+        </span>
+        <span style={{ flex: 1, display: "flex" }} title="軸力による幾何剛性を考慮した2次解析（P-Δ）">
+          <ToggleBtn label="P-Δ 解析" color={SECOND_COLOR}
+            active={!!analysisOptions.pDelta}
+            onClick={() => setAnalysisOption("pDelta", !analysisOptions.pDelta)} />
+        </span>
+      </div>
+      <div style={{ display: "flex", gap: 4 }}>
+        <span style={{ flex: 1, display: "flex" }} title="断面の単位長さ質量と節点質量から固有振動数とモードを求める">
+          <ToggleBtn label="固有振動" color={MODE_COLOR}
+            active={!!analysisOptions.modal}
+            onClick={() => setAnalysisOption("modal", !analysisOptions.modal)} />
+        </span>
+        <span style={{ flex: 1, display: "flex" }} title="Newmark-β 法による時刻歴応答解析（条件は左のパネル）">
+          <ToggleBtn label="時刻歴応答" color={MODE_COLOR}
+            active={!!analysisOptions.timeHistory}
+            onClick={() => setAnalysisOption("timeHistory", !analysisOptions.timeHistory)} />
+        </span>
+      </div>
+      <div style={{ display: "flex", gap: 4 }}>
+        <span style={{ flex: 1, display: "flex" }} title="載荷経路に沿って単位荷重を動かした影響線（経路と対象は上のパネル）">
+          <ToggleBtn label="影響線" color={MODE_COLOR}
+            active={!!analysisOptions.influence}
+            onClick={() => setAnalysisOption("influence", !analysisOptions.influence)} />
+        </span>
+        <span style={{ flex: 1, display: "flex" }} title="載荷経路に沿って列車（軸荷重の列）を動かした断面力・反力の包絡（条件は上のパネル）">
+          <ToggleBtn label="移動荷重" color={MODE_COLOR}
+            active={!!analysisOptions.movingLoad}
+            onClick={() => setAnalysisOption("movingLoad", !analysisOptions.movingLoad)} />
+        </span>
+      </div>
+      {analysisOptions.modal && (
+        <div style={{ display: "flex", gap: 4 }}>
+          <select
+            value={analysisOptions.modalModes ?? 6}
+            onChange={e => setAnalysisOption("modalModes", Number(e.target.value))}
+            style={{ ...SELECT_STYLE, flex: 1 }}
+            title="求めるモードの数"
+          >
+            {[1, 2, 3, 4, 6, 8, 10, 12].map(n => <option key={n} value={n}>{n} 次まで</option>)}
+          </select>
+          <select
+            value={analysisOptions.lumpedMass ? "lumped" : "consistent"}
+            onChange={e => setAnalysisOption("lumpedMass", e.target.value === "lumped")}
+            style={{ ...SELECT_STYLE, flex: 1 }}
+            title="部材の質量行列"
+          >
+            <option value="consistent">整合質量</option>
+            <option value="lumped">集中質量</option>
+          </select>
+        </div>
+      )}
+      {liveFailure && (
+        <div style={{
+          background: "#2d2a10", border: "1px solid #f39c12",
+          borderRadius: 4, padding: "6px 8px", fontSize: 11,
+          color: "#f39c12", whiteSpace: "pre-wrap", lineHeight: 1.5,
+        }}>
+          ⚠ {liveFailure}
+          <div style={{ color: "#888", marginTop: 2 }}>前回の結果を薄く表示しています</div>
+        </div>
+      )}
+
       {/* エラー */}
       {hasError && (
         <div style={{
@@ -131,6 +297,82 @@ export function AnalysisPanel() {
       {/* 解析成功時の表示コントロール */}
       {femResult?.ok && (
         <>
+          {/* 連立方程式の規模と所要時間 */}
+          <div
+            title={[
+              `組立 ${femResult.solver.timing.assembly.toFixed(1)} ms`,
+              `並べ替え ${femResult.solver.timing.ordering.toFixed(1)} ms`,
+              `分解 ${femResult.solver.timing.factorization.toFixed(1)} ms`,
+              `求解 ${femResult.solver.timing.solve.toFixed(1)} ms`,
+              `断面力 ${femResult.solver.timing.recovery.toFixed(1)} ms`,
+              ...(femResult.solver.timing.eigen > 0 ? [`固有値 ${femResult.solver.timing.eigen.toFixed(1)} ms`] : []),
+              ...(femResult.solver.timing.nonlinear > 0 ? [`2次解析 ${femResult.solver.timing.nonlinear.toFixed(1)} ms`] : []),
+              ...(femResult.solver.timing.dynamic > 0 ? [`時刻歴 ${femResult.solver.timing.dynamic.toFixed(1)} ms`] : []),
+              ...(femResult.solver.timing.influence > 0 ? [`影響線 ${femResult.solver.timing.influence.toFixed(1)} ms`] : []),
+              ...(femResult.solver.timing.moving > 0 ? [`移動荷重 ${femResult.solver.timing.moving.toFixed(1)} ms`] : []),
+              `非ゼロ ${femResult.solver.nonZeros} / 帯幅 ${femResult.solver.bandwidth}`,
+            ].join("\n")}
+            style={{ fontSize: 10, color: "#666" }}
+          >
+            {femResult.solver.dof} 自由度 · {femResult.solver.timing.total.toFixed(0)} ms
+          </div>
+
+          {/* ── 荷重ケース／組合せ ── */}
+          <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6 }}>
+            <div style={{ fontSize: 10, color: "#888", marginBottom: 4 }}>表示する荷重</div>
+            <select
+              value={envelope ? "envelope" : movingEnvelope ? "moving" : activeResult?.key ?? ""}
+              onChange={e => setResultKey(e.target.value as ResultViewKey)}
+              style={SELECT_STYLE}
+            >
+              <optgroup label="荷重ケース">
+                {femResult.results.filter(r => r.kind === "case").map(r => (
+                  <option key={r.key} value={r.key}>{r.name}</option>
+                ))}
+              </optgroup>
+              {femResult.results.some(r => r.kind === "combination") && (
+                <optgroup label="組合せ">
+                  {femResult.results.filter(r => r.kind === "combination").map(r => (
+                    <option key={r.key} value={r.key}>{r.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {femResult.results.length > 1 && (
+                <optgroup label="包絡">
+                  <option value="envelope">
+                    {femResult.results.some(r => r.kind === "combination") ? "全組合せの包絡" : "全ケースの包絡"}
+                  </option>
+                </optgroup>
+              )}
+              {femResult.movingLoad?.ok && (
+                <optgroup label="移動荷重">
+                  <option value="moving">移動荷重の包絡</option>
+                </optgroup>
+              )}
+            </select>
+            {envelope && (
+              <div style={{ fontSize: 10, color: "#666", marginTop: 4 }}>
+                部材にカーソルを重ねると支配組合せを表示
+              </div>
+            )}
+            {movingEnvelope && (
+              <div style={{ fontSize: 10, color: "#666", marginTop: 4 }}>
+                極値を与える列車の位置は上のパネルから表示
+              </div>
+            )}
+            {!envelope && activeResult && (
+              <div
+                title={`ΣFx = ${activeResult.equilibrium.fx.toExponential(2)}\nΣFy = ${activeResult.equilibrium.fy.toExponential(2)}\nΣM = ${activeResult.equilibrium.m.toExponential(2)}`}
+                style={{
+                  fontSize: 10, marginTop: 4,
+                  color: activeResult.equilibrium.relative > RESIDUAL_WARN ? "#f39c12" : "#666",
+                }}
+              >
+                つり合い残差: {activeResult.equilibrium.relative.toExponential(1)}
+              </div>
+            )}
+          </div>
+
           {/* ── 変形図 ── */}
           <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6 }}>
             <div style={{ fontSize: 10, color: "#888", marginBottom: 4 }}>変形図</div>
@@ -148,6 +390,109 @@ export function AnalysisPanel() {
             )}
           </div>
 
+          {/* ── 2次解析（1次との比較） ── */}
+          {activeResult && secondOrder && (
+            <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6 }}>
+              <div style={{ fontSize: 10, color: "#888", marginBottom: 4 }}>2次解析（P-Δ）</div>
+              {secondOrder.ok === false ? (
+                <div style={{ fontSize: 11, color: "#f39c12", lineHeight: 1.5 }}>⚠ {secondOrder.message}</div>
+              ) : (
+                <>
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr auto auto", columnGap: 8, fontSize: 10, color: "#aaa" }}>
+                    <span />
+                    <span style={{ color: "#666" }}>1次</span>
+                    <span style={{ color: SECOND_COLOR }}>2次</span>
+                    <span>最大 |M|</span>
+                    <span>{peakMoment(secondOrder.firstOrder.elements).toPrecision(4)}</span>
+                    <span>{peakMoment(activeResult.elements).toPrecision(4)}</span>
+                    <span>最大変位</span>
+                    <span>{peakDisplacement(secondOrder.firstOrder.displacements).toPrecision(4)}</span>
+                    <span>{peakDisplacement(activeResult.displacements).toPrecision(4)}</span>
+                  </div>
+                  <div style={{ fontSize: 10, color: "#666", marginTop: 4 }}>
+                    {secondOrder.iterations} 回で収束
+                    {secondOrder.amplification.length > 0 &&
+                      ` · 最大増幅率 ×${Math.max(...secondOrder.amplification.map(a => a.factor)).toFixed(3)}`}
+                  </div>
+                  <div style={{ display: "flex", gap: 4, marginTop: 6 }}>
+                    <ToggleBtn label="1次の M を重ねる" color={SECOND_COLOR}
+                      active={displayFlags.firstOrderM}
+                      onClick={() => setDisplayFlag("firstOrderM", !displayFlags.firstOrderM)} />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* ── 座屈モード ── */}
+          {buckling && (
+            <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6 }}>
+              <div style={{ fontSize: 10, color: "#888", marginBottom: 4 }}>座屈モード（荷重係数 λ）</div>
+              {buckling.ok === false ? (
+                <div style={{ fontSize: 10, color: "#666" }}>{buckling.message}</div>
+              ) : (
+                <>
+                  <select
+                    value={modeView?.kind === "buckling" ? String(modeView.index) : ""}
+                    onChange={e => setModeView(e.target.value === "" ? null : { kind: "buckling", index: Number(e.target.value) })}
+                    style={SELECT_STYLE}
+                  >
+                    <option value="">表示しない</option>
+                    {buckling.modes.map((m, i) => (
+                      <option key={i} value={i}>モード {i + 1}: λ = {m.factor.toPrecision(4)}</option>
+                    ))}
+                  </select>
+                  {modeView?.kind === "buckling" && (
+                    <ModeControls scale={modeScale} onScale={setModeScale}
+                      animate={animateMode} onAnimate={setAnimateMode} />
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* ── 固有振動モード ── */}
+          {modal && (
+            <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6 }}>
+              <div style={{ fontSize: 10, color: "#888", marginBottom: 4 }}>固有振動（振動数・周期）</div>
+              {modal.ok === false ? (
+                <div style={{ fontSize: 10, color: "#666" }}>{modal.message}</div>
+              ) : (
+                <>
+                  <div style={{
+                    display: "grid", gridTemplateColumns: "auto 1fr 1fr",
+                    columnGap: 6, rowGap: 1, fontSize: 10,
+                  }}>
+                    <span style={{ color: "#666" }}>次数</span>
+                    <span style={{ color: "#666", textAlign: "right" }}>f [Hz]</span>
+                    <span style={{ color: "#666", textAlign: "right" }}>T [s]</span>
+                    {modal.modes.map((m, i) => {
+                      const selected = modeView?.kind === "modal" && modeView.index === i;
+                      const cell: React.CSSProperties = {
+                        cursor: "pointer", textAlign: "right",
+                        color: selected ? MODE_COLOR : "#ccc",
+                        fontWeight: selected ? "bold" : "normal",
+                      };
+                      const toggle = () => setModeView(selected ? null : { kind: "modal", index: i });
+                      return (
+                        <React.Fragment key={i}>
+                          <span style={{ ...cell, textAlign: "left" }} onClick={toggle}>{i + 1}</span>
+                          <span style={cell} onClick={toggle}>{m.frequency.toPrecision(4)}</span>
+                          <span style={cell} onClick={toggle}>{m.period.toPrecision(4)}</span>
+                        </React.Fragment>
+                      );
+                    })}
+                  </div>
+                  <div style={{ fontSize: 9, color: "#555", marginTop: 2 }}>行をクリックでモード形状を表示</div>
+                  {modeView?.kind === "modal" && (
+                    <ModeControls scale={modeScale} onScale={setModeScale}
+                      animate={animateMode} onAnimate={setAnimateMode} />
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {/* ── 断面力・反力 ── */}
           <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6 }}>
             <div style={{ fontSize: 10, color: "#888", marginBottom: 4 }}>断面力・反力</div>
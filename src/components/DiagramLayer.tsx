@@ -10,21 +10,46 @@
  *   サブ部材の断面力点列を結合して1本のポリラインとして描画する。
  *   これにより扇形の重なりが消え、滑らかな帯状ダイアグラムになる。
  *
+ * ■ 包絡表示
+ *   全組合せの最大側・最小側をそれぞれ断面力図と同じ方法で描き、2本の帯にする。
+ *   ホバー中の部材には最大・最小を与える支配組合せをラベル表示する。
+ *
  * ■ 変形図の描画方法
  *   各部材を DEFORMED_SAMPLES 点でサンプリング。各点の変位を線形補間（軸変位）+
  *   梁たわみ理論（横変位）で求め、amplify倍して描画する。
+ *
+ * ■ 2次解析との比較
+ *   2次解析の結果には、1次の M 図を同じスケールで重ね、部材ごとの増幅率を部材の中央に表示できる。
+ *
+ * ■ 移動荷重の包絡
+ *   組合せの包絡と同じく最大側・最小側の2本の帯で描き、選んだ極値を与える列車の位置を
+ *   集中荷重のアイコンで示す。
+ *
+ * ■ 影響線
+ *   載荷経路に沿って、経路の左側（左から右へ進む経路なら上側）を正として描く。
+ *   節点と最大・最小の点に値をラベル表示する。
+ *
+ * ■ モード形状
+ *   座屈モードは最大の並進成分を 1 に正規化してあるので、MODE_AMPLITUDE × 振幅倍率で
+ *   変形図と同じ方法で描く。アニメーション中は振幅に cos(2πt/T) を掛ける。
  */
 
 import React from "react";
 import { buildSmoothedFillPoints } from "./diagramSpline";
-import { Layer, Line, Text, Circle } from "react-konva";
+import { Layer, Line, Text, Circle, Label, Tag } from "react-konva";
 import { useAppContext } from "../contexts/AppContext";
+import { useOscillation } from "../hooks/useOscillation";
 import { GRID } from "../types";
-import type { ElementResult, ReactionResult, DisplacementResult } from "../utils/femTypes";
+import type {
+  ElementResult, ReactionResult, DisplacementResult, MomentAmplification, InfluenceResult, TrainPosition,
+} from "../utils/femTypes";
+import { envelopeSide, memberExtremes, type Envelope, type Extreme } from "../utils/envelope";
 import { SvgIconShape } from "../SvgIconShape";
+import { distLoadIconCenter } from "../hooks/useDistLoads";
 
 import oneDistLoadSvgText from "../assets/icons/onedistload.svg?raw";
 import reactmomSvgText      from "../assets/icons/reactmom.svg?raw";
+import loadSvgText          from "../assets/icons/load.svg?raw";
 
 // ===== 定数 =====
 const BASE_HEIGHT      = GRID * 4;
@@ -33,16 +58,28 @@ const Q_COLOR          = "#81c784";
 const M_COLOR          = "#e57373";
 const REACTION_COLOR   = "#ffe066";
 const DEFORMED_COLOR   = "#b48eff";
+const MODE_COLOR       = "#ff9f43";
+const FIRST_ORDER_COLOR = "#9e9e9e";   // 2次解析に重ねる1次の M 図
+const AMPLIFY_COLOR    = "#f06292";
+const INFLUENCE_COLOR  = "#26c6da";
+const TRAIN_COLOR      = "#ffb74d";
 const ORIGINAL_COLOR   = "#333";
 const LABEL_SIZE       = 11;
 const OPACITY          = 0.9;
+const FADED_OPACITY    = 0.3;   // ライブ解析の失敗中に残す前回の結果
 const ARROW_LEN        = -15;
 const DEFORMED_SAMPLES = 21;
+const MODE_AMPLITUDE   = GRID * 2;   // 振幅倍率 1 のときのモード形状の最大変位 [px]
+const INFLUENCE_HEIGHT = GRID * 3;   // 断面力スケール 1 のときの影響線の最大縦距 [px]
 
 // 反力アイコンのサイズ（WorldLayer の distLoad と揃える）
 const REACTION_ICON_SIZE     = 45;
 const REACTION_MOMENT_SIZE   = 45;
 
+// 移動荷重の列車（軸）のアイコン（WorldLayer の部材途中の集中荷重と揃える）
+const TRAIN_ICON_SIZE   = 45;
+const TRAIN_ICON_OFFSET = 20;
+
 // ===== ユーティリティ =====
 
 function round2(v: number) { return Math.round(v * 100) / 100; }
@@ -186,6 +223,9 @@ function makeDiagramKonva(
   ];
 }
 
+/** ダイアグラム描画で参照する展開済み部材（トラス材は N 図のみ描く） */
+type DiagramMember = { a: string; b: string; kind?: "frame" | "truss" };
+
 /**
  * 断面力ダイアグラムを描画する。
  * arcGroupMap でまとめられた円弧グループは1本の滑らかなポリラインに結合する。
@@ -193,9 +233,10 @@ function makeDiagramKonva(
 function buildDiagramElements(
   elements: ElementResult[],
   nodeById: Map<string, { x: number; y: number }>,
-  memberMap: Map<string, { a: string; b: string }>,
+  memberMap: Map<string, DiagramMember>,
   arcGroupMap: Map<string, string>,
   arcMemberGeom: Map<string, { cx: number; cy: number; r: number; startAngle: number; angleSpan: number }>,
+  arcJumpNodeIds: Set<string>,
   mode: "N"|"Q"|"M",
   color: string,
   scale: number,
@@ -207,6 +248,7 @@ function buildDiagramElements(
   const straightElements: ElementResult[] = [];
 
   for (const el of elements) {
+    if (mode !== "N" && memberMap.get(el.memberId)?.kind === "truss") continue;
     const origId = arcGroupMap.get(el.memberId);
     if (origId !== undefined) {
       if (!arcGroups.has(origId)) arcGroups.set(origId, []);
@@ -255,7 +297,9 @@ function buildDiagramElements(
       return { baseX, baseY, nx, ny, value };
     };
 
-    const boundaryPts: DiagramPoint[] = [];
+    // 集中荷重の載荷点（arcJumpNodeIds）で断面力が跳ぶため、そこで区切った区間ごとに描く
+    const runs: DiagramPoint[][] = [];
+    let boundaryPts: DiagramPoint[] = [];
 
     for (let gi = 0; gi < groupEls.length; gi++) {
       const el = groupEls[gi];
@@ -276,15 +320,23 @@ function buildDiagramElements(
       if (!nodePointCache.has(m.a)) nodePointCache.set(m.a, makeArcPoint(geom, angleA, valA));
       if (!nodePointCache.has(m.b)) nodePointCache.set(m.b, makeArcPoint(geom, angleB, valB));
 
-      // 先頭サブ部材のみ a端を追加、以降は b端のみ追加（境界重複を防ぐ）
-      if (gi === 0) boundaryPts.push(nodePointCache.get(m.a)!);
+      // 区間の先頭サブ部材のみ a端を追加、以降は b端のみ追加（境界重複を防ぐ）
+      if (boundaryPts.length === 0) boundaryPts.push(nodePointCache.get(m.a)!);
       boundaryPts.push(nodePointCache.get(m.b)!);
-    }
 
-    if (boundaryPts.length < 2) continue;
+      if (arcJumpNodeIds.has(m.b)) {
+        runs.push(boundaryPts);
+        boundaryPts = [];
+        nodePointCache.delete(m.b);  // 次の区間は載荷後の値で始める
+      }
+    }
+    runs.push(boundaryPts);
 
     // スプライン補間で滑らかなアウトラインを生成して描画
-    elems.push(...makeDiagramKonva(origId, boundaryPts, scale, color, true));
+    runs.forEach((run, k) => {
+      if (run.length < 2) return;
+      elems.push(...makeDiagramKonva(k === 0 ? origId : `${origId}-${k}`, run, scale, color, true));
+    });
   }
 
   return elems;
@@ -324,6 +376,7 @@ function buildDeformedElements(
   nodeById: Map<string, { x: number; y: number }>,
   dispMap: Map<string, DisplacementResult>,
   amplify: number,
+  color = DEFORMED_COLOR,
 ): React.ReactNode[] {
   const elems: React.ReactNode[] = [];
 
@@ -358,7 +411,7 @@ function buildDeformedElements(
         stroke={ORIGINAL_COLOR} strokeWidth={1}
         dash={[6, 4]} opacity={0.6} listening={false} />,
       <Line key={`${m.id}-def`}
-        points={pts} stroke={DEFORMED_COLOR}
+        points={pts} stroke={color}
         strokeWidth={2} opacity={OPACITY} listening={false} />,
     );
   }
@@ -375,7 +428,7 @@ function buildDeformedElements(
         <Circle key={`node-${nid}`}
           x={n.x + d.ux * amplify}
           y={n.y + d.uy * amplify}
-          radius={3} fill={DEFORMED_COLOR}
+          radius={3} fill={color}
           opacity={OPACITY} listening={false} />,
       );
     }
@@ -384,6 +437,91 @@ function buildDeformedElements(
   return elems;
 }
 
+// ===== 2次解析の増幅率 =====
+
+/** 部材（円弧は元の部材）の中央のサブ部材の中点に ×増幅率 を表示する */
+function buildAmplificationLabels(
+  amplification: MomentAmplification[],
+  members: { id: string; a: string; b: string }[],
+  nodeById: Map<string, { x: number; y: number }>,
+  arcGroupMap: Map<string, string>,
+): React.ReactNode[] {
+  const groups = new Map<string, { a: string; b: string }[]>();
+  for (const m of members) {
+    const id = arcGroupMap.get(m.id) ?? m.id;
+    groups.set(id, [...(groups.get(id) ?? []), m]);
+  }
+  const elems: React.ReactNode[] = [];
+  for (const { memberId, factor } of amplification) {
+    const subs = groups.get(memberId);
+    if (!subs) continue;
+    const mid = subs[Math.floor(subs.length / 2)];
+    const nA = nodeById.get(mid.a);
+    const nB = nodeById.get(mid.b);
+    if (!nA || !nB) continue;
+    elems.push(
+      <Text key={`amp-${memberId}`}
+        x={(nA.x + nB.x) / 2 + 4} y={(nA.y + nB.y) / 2 + 4}
+        text={`×${factor.toFixed(2)}`}
+        fontSize={LABEL_SIZE} fill={AMPLIFY_COLOR} opacity={OPACITY} listening={false} />,
+    );
+  }
+  return elems;
+}
+
+// ===== 影響線 =====
+
+function buildInfluenceElements(
+  points: Extract<InfluenceResult, { ok: true }>["points"],
+  userScale: number,
+): React.ReactNode[] {
+  const maxAbs = Math.max(0, ...points.map(p => Math.abs(p.value)));
+  const scale  = maxAbs > 1e-12 ? INFLUENCE_HEIGHT / maxAbs * userScale : 0;
+
+  // 経路の接線（前後の点から）の左手方向に縦距をとる
+  const tips = points.map((p, i) => {
+    const prev = points[Math.max(i - 1, 0)];
+    const next = points[Math.min(i + 1, points.length - 1)];
+    const tx = next.x - prev.x, ty = next.y - prev.y;
+    const len = Math.hypot(tx, ty) || 1;
+    return { x: p.x + ty / len * p.value * scale, y: p.y - tx / len * p.value * scale };
+  });
+
+  const elems: React.ReactNode[] = [
+    <Line key="il-base" points={points.flatMap(p => [p.x, p.y])}
+      stroke={INFLUENCE_COLOR} strokeWidth={1} opacity={0.4} dash={[4, 3]} listening={false} />,
+    <Line key="il-line" points={tips.flatMap(t => [t.x, t.y])}
+      stroke={INFLUENCE_COLOR} strokeWidth={2} opacity={OPACITY} listening={false} />,
+  ];
+
+  // ラベル: 節点（同じ節点の重複は最初の1つ）と最大・最小の点
+  const labelled = new Set<number>();
+  const seenNodes = new Set<string>();
+  points.forEach((p, i) => {
+    if (!p.nodeId || seenNodes.has(p.nodeId)) return;
+    seenNodes.add(p.nodeId);
+    labelled.add(i);
+  });
+  const iMax = points.reduce((best, p, i) => p.value > points[best].value ? i : best, 0);
+  const iMin = points.reduce((best, p, i) => p.value < points[best].value ? i : best, 0);
+  if (Math.abs(points[iMax].value) > 1e-9 * maxAbs) labelled.add(iMax);
+  if (Math.abs(points[iMin].value) > 1e-9 * maxAbs) labelled.add(iMin);
+
+  for (const i of labelled) {
+    const p = points[i], t = tips[i];
+    const extreme = i === iMax || i === iMin;
+    elems.push(
+      <Line key={`il-ord-${i}`} points={[p.x, p.y, t.x, t.y]}
+        stroke={INFLUENCE_COLOR} strokeWidth={1} opacity={0.6} listening={false} />,
+      <Text key={`il-lbl-${i}`} x={t.x + 3} y={t.y - LABEL_SIZE - 2}
+        text={String(Number(p.value.toPrecision(3)))}
+        fontSize={LABEL_SIZE} fontStyle={extreme ? "bold" : "normal"}
+        fill={INFLUENCE_COLOR} opacity={OPACITY} listening={false} />,
+    );
+  }
+  return elems;
+}
+
 // ===== 反力表示（SvgIconShape 版） =====
 //
 // 【fx / fy — onedistload.svg】
@@ -497,6 +635,126 @@ function buildReactionElements(
   return elems;
 }
 
+// ===== 包絡表示 =====
+
+/** 最大側・最小側（envelopeSide で ElementResult にしたもの）の2本の帯を描く */
+function buildEnvelopeBands(
+  maxEls: ElementResult[],
+  minEls: ElementResult[],
+  nodeById: Map<string, { x: number; y: number }>,
+  memberMap: Map<string, DiagramMember>,
+  arcGroupMap: Map<string, string>,
+  arcMemberGeom: Map<string, { cx: number; cy: number; r: number; startAngle: number; angleSpan: number }>,
+  arcJumpNodeIds: Set<string>,
+  mode: "N"|"Q"|"M",
+  color: string,
+  userScale: number,
+): React.ReactNode[] {
+  const scale  = calcScale([...maxEls, ...minEls], mode, BASE_HEIGHT, userScale);
+  return [
+    <React.Fragment key={`${mode}-max`}>
+      {buildDiagramElements(maxEls, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, mode, color, scale)}
+    </React.Fragment>,
+    <React.Fragment key={`${mode}-min`}>
+      {buildDiagramElements(minEls, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, mode, color, scale)}
+    </React.Fragment>,
+  ];
+}
+
+/** 極値に添える支配組合せの名前 */
+const governingTag = (e: Extreme) => ` [${e.name}]`;
+
+/** 最大・最小の文字列。tag は極値に添える情報（支配組合せなど） */
+function rangeText<E extends { value: number }>(label: string, r: { max: E; min: E }, tag: (e: E) => string = () => ""): string {
+  return `${label} ${round2(r.max.value)}${tag(r.max)} / ${round2(r.min.value)}${tag(r.min)}`;
+}
+
+type ReactionRanges<E> = {
+  supportId: string; nodeId: string;
+  fx: { max: E; min: E }; fy: { max: E; min: E }; m: { max: E; min: E };
+};
+
+/** 支点ごとに反力の最大・最小（と tag の情報）を文字で表示する */
+function buildReactionEnvelopeElements<E extends { value: number }>(
+  reactions: ReactionRanges<E>[],
+  nodeById: Map<string, { x: number; y: number }>,
+  tag?: (e: E) => string,
+): React.ReactNode[] {
+  return reactions.flatMap(r => {
+    const nd = nodeById.get(r.nodeId);
+    if (!nd) return [];
+    const lines = [rangeText("Fx", r.fx, tag), rangeText("Fy", r.fy, tag)];
+    if (Math.abs(r.m.max.value) > 1e-4 || Math.abs(r.m.min.value) > 1e-4) lines.push(rangeText("M", r.m, tag));
+    return [
+      <Text key={`${r.supportId}-env`}
+        x={nd.x + 12} y={nd.y + 24}
+        text={lines.join("\n")} lineHeight={1.3}
+        fontSize={LABEL_SIZE} fill={REACTION_COLOR} opacity={OPACITY} listening={false} />,
+    ];
+  });
+}
+
+/** ホバー中の部材について、各断面力の最大・最小と支配組合せを示すラベル */
+function buildGoverningLabel(
+  envelope: Envelope,
+  memberId: string,
+  nodeById: Map<string, { x: number; y: number }>,
+  memberMap: Map<string, DiagramMember>,
+  arcGroupMap: Map<string, string>,
+  modes: ("N"|"Q"|"M")[],
+): React.ReactNode {
+  // 円弧はサブ部材をまとめて元部材として扱う
+  const els = envelope.elements.filter(el => (arcGroupMap.get(el.memberId) ?? el.memberId) === memberId);
+  if (els.length === 0) return null;
+
+  // ラベル位置: 中央のサブ部材の中点
+  const mid = memberMap.get(els[Math.floor(els.length / 2)].memberId);
+  const nA  = mid && nodeById.get(mid.a), nB = mid && nodeById.get(mid.b);
+  if (!nA || !nB) return null;
+
+  const isTruss = memberMap.get(memberId)?.kind === "truss";
+  const lines = modes.filter(q => !isTruss || q === "N").flatMap(q => {
+    const r = memberExtremes(els, q);
+    return r ? [rangeText(q, r, governingTag)] : [];
+  });
+  if (lines.length === 0) return null;
+
+  return (
+    <Label key="governing" x={(nA.x + nB.x) / 2 + 10} y={(nA.y + nB.y) / 2 + 10} listening={false}>
+      <Tag fill="#1a1a2e" stroke="#555" strokeWidth={1} cornerRadius={3} opacity={0.95} />
+      <Text text={lines.join("\n")} padding={6} lineHeight={1.3}
+        fontSize={LABEL_SIZE} fill="#ddd" />
+    </Label>
+  );
+}
+
+/** 移動荷重の列車: 経路に載っている軸を集中荷重のアイコンと荷重値で示す */
+function buildTrainElements(position: TrainPosition): React.ReactNode[] {
+  const half = TRAIN_ICON_SIZE / 2;
+  return position.axles.flatMap((ax, i) => {
+    const rotation = ax.magnitude < 0 ? 180 : 0;
+    const { cx, cy } = distLoadIconCenter(ax.x, ax.y, rotation, TRAIN_ICON_OFFSET);
+    return [
+      <SvgIconShape
+        key={`train-${i}`}
+        svgText={loadSvgText}
+        x={cx} y={cy}
+        w={TRAIN_ICON_SIZE} h={TRAIN_ICON_SIZE}
+        stroke={TRAIN_COLOR}
+        rotation={rotation}
+        offsetX={half} offsetY={half}
+        opacity={OPACITY}
+        listening={false}
+      />,
+      <Circle key={`train-pt-${i}`} x={ax.x} y={ax.y} radius={4}
+        fill={TRAIN_COLOR} opacity={OPACITY} listening={false} />,
+      <Text key={`train-lbl-${i}`} x={ax.x + 6} y={ax.y - TRAIN_ICON_OFFSET * 2 - LABEL_SIZE}
+        text={String(round2(Math.abs(ax.magnitude)))}
+        fontSize={LABEL_SIZE} fill={TRAIN_COLOR} opacity={OPACITY} listening={false} />,
+    ];
+  });
+}
+
 // ===== デバッグ: 展開済みポリライン表示 =====
 
 const DEBUG_EXPANDED = true;  // ← false にすればオフ
@@ -542,35 +800,108 @@ function buildDebugExpandedElements(
 // ===== メインコンポーネント =====
 
 export function DiagramLayer() {
-  const { femResult, displayFlags, diagramScale, deformedScale } = useAppContext();
+  const {
+    femResult, activeResult, envelope, movingEnvelope, trainView, hoveredMemberId,
+    displayFlags, diagramScale, deformedScale, liveFailure,
+    modeView, modeScale, animateMode, timeFrame,
+  } = useAppContext();
+  const phase = useOscillation(animateMode && modeView !== null);
 
   if (!femResult?.ok) return null;
 
-  const { elements, reactions, displacements, expandedNodes, expandedMembers, arcGroupMap, arcMemberGeom } = femResult;
+  // 形状は全ケース共通、断面力・反力・変位は選択中の荷重ケース／組合せのもの
+  const { expandedNodes, expandedMembers, arcGroupMap, arcMemberGeom, arcJumpNodeIds } = femResult;
 
   const nodeById  = new Map(expandedNodes.map(n => [n.id, n]));
   const memberMap = new Map(expandedMembers.map(m => [m.id, m]));
+
+  // ---- 包絡表示 ----
+  if (envelope) {
+    const modes = (["N", "Q", "M"] as const).filter(q => displayFlags[q]);
+    const maxEls = envelopeSide(envelope.elements, "max");
+    const minEls = envelopeSide(envelope.elements, "min");
+    return (
+      <Layer listening={false} opacity={liveFailure ? FADED_OPACITY : 1}>
+        {buildDebugExpandedElements(expandedNodes, expandedMembers)}
+        {displayFlags.reaction && buildReactionEnvelopeElements(envelope.reactions, nodeById, governingTag)}
+        {displayFlags.N && buildEnvelopeBands(maxEls, minEls, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "N", N_COLOR, diagramScale)}
+        {displayFlags.Q && buildEnvelopeBands(maxEls, minEls, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "Q", Q_COLOR, diagramScale)}
+        {displayFlags.M && buildEnvelopeBands(maxEls, minEls, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "M", M_COLOR, diagramScale)}
+        {hoveredMemberId && modes.length > 0 &&
+          buildGoverningLabel(envelope, hoveredMemberId, nodeById, memberMap, arcGroupMap, modes)}
+      </Layer>
+    );
+  }
+
+  // ---- 移動荷重の包絡（選んだ極値を与える列車の位置も示す） ----
+  if (movingEnvelope) {
+    const maxEls = envelopeSide(movingEnvelope.elements, "max");
+    const minEls = envelopeSide(movingEnvelope.elements, "min");
+    const train  = trainView !== null ? movingEnvelope.positions[trainView] : undefined;
+    return (
+      <Layer listening={false} opacity={liveFailure ? FADED_OPACITY : 1}>
+        {buildDebugExpandedElements(expandedNodes, expandedMembers)}
+        {displayFlags.reaction && buildReactionEnvelopeElements(movingEnvelope.reactions, nodeById)}
+        {displayFlags.N && buildEnvelopeBands(maxEls, minEls, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "N", N_COLOR, diagramScale)}
+        {displayFlags.Q && buildEnvelopeBands(maxEls, minEls, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "Q", Q_COLOR, diagramScale)}
+        {displayFlags.M && buildEnvelopeBands(maxEls, minEls, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "M", M_COLOR, diagramScale)}
+        {train && buildTrainElements(train)}
+      </Layer>
+    );
+  }
+
+  if (!activeResult) return null;
+
+  // 時刻歴応答のコマを表示中ならその結果。断面力図のスケールは全コマ共通にする
+  const history = timeFrame !== null && femResult.timeHistory?.ok ? femResult.timeHistory : undefined;
+  const frame   = history?.frames[Math.min(timeFrame!, history.frames.length - 1)];
+  const { elements, reactions, displacements } = frame ?? activeResult;
+  const scaleElements = history ? history.frames.flatMap(f => f.elements) : elements;
   const dispMap   = new Map(displacements.map(d => [d.nodeId, d]));
 
-  const scaleN = calcScale(elements, "N", BASE_HEIGHT, diagramScale);
-  const scaleQ = calcScale(elements, "Q", BASE_HEIGHT, diagramScale);
-  const scaleM = calcScale(elements, "M", BASE_HEIGHT, diagramScale);
+  // 選択中の座屈モード・固有振動モード（結果にそのモードがなければ描かない）
+  const mode = modeView?.kind === "buckling" && activeResult.buckling?.ok
+    ? activeResult.buckling.modes[modeView.index]
+    : modeView?.kind === "modal" && femResult.modal?.ok
+    ? femResult.modal.modes[modeView.index]
+    : undefined;
+
+  // 1次の M 図を重ねる2次解析の結果
+  const secondOrder = !frame && displayFlags.firstOrderM && activeResult.secondOrder?.ok ? activeResult.secondOrder : undefined;
+
+  const scaleN = calcScale(scaleElements, "N", BASE_HEIGHT, diagramScale);
+  const scaleQ = calcScale(scaleElements, "Q", BASE_HEIGHT, diagramScale);
+  const scaleM = calcScale(scaleElements, "M", BASE_HEIGHT, diagramScale);
 
   return (
-    <Layer listening={false}>
+    <Layer listening={false} opacity={liveFailure ? FADED_OPACITY : 1}>
       {/* デバッグ: 展開済みポリライン（オレンジ線＋赤ノード） */}
       {buildDebugExpandedElements(expandedNodes, expandedMembers)}
 
       {/* 変形図（断面力より先に描いて背面に） */}
       {displayFlags.deformed && buildDeformedElements(expandedMembers, nodeById, dispMap, deformedScale)}
 
+      {/* モード形状 */}
+      {mode && buildDeformedElements(
+        expandedMembers, nodeById, new Map(mode.displacements.map(d => [d.nodeId, d])),
+        MODE_AMPLITUDE * modeScale * phase, MODE_COLOR)}
+
       {/* 反力 */}
       {displayFlags.reaction && buildReactionElements(reactions, nodeById)}
 
       {/* N / Q / M 図 */}
-      {displayFlags.N && buildDiagramElements(elements, nodeById, memberMap, arcGroupMap, arcMemberGeom, "N", N_COLOR, scaleN)}
-      {displayFlags.Q && buildDiagramElements(elements, nodeById, memberMap, arcGroupMap, arcMemberGeom, "Q", Q_COLOR, scaleQ)}
-      {displayFlags.M && buildDiagramElements(elements, nodeById, memberMap, arcGroupMap, arcMemberGeom, "M", M_COLOR, scaleM)}
+      {displayFlags.N && buildDiagramElements(elements, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "N", N_COLOR, scaleN)}
+      {displayFlags.Q && buildDiagramElements(elements, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "Q", Q_COLOR, scaleQ)}
+      {displayFlags.M && buildDiagramElements(elements, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "M", M_COLOR, scaleM)}
+
+      {/* 影響線 */}
+      {femResult.influence?.ok && buildInfluenceElements(femResult.influence.points, diagramScale)}
+
+      {/* 2次解析: 1次の M 図（同じスケール）と増幅率 */}
+      {secondOrder && [
+        ...buildDiagramElements(secondOrder.firstOrder.elements, nodeById, memberMap, arcGroupMap, arcMemberGeom, arcJumpNodeIds, "M", FIRST_ORDER_COLOR, scaleM),
+        ...buildAmplificationLabels(secondOrder.amplification, expandedMembers, nodeById, arcGroupMap),
+      ]}
     </Layer>
   );
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+/**
+ * LoadCasePanel.tsx — 荷重ケースの管理と荷重組合せ（係数表）の編集
+ */
+
+import { useState, useEffect } from "react";
+import { useAppContext } from "../contexts/AppContext";
+import { NumberField } from "./NumberField";
+import { SIDEBAR_W } from "../types";
+
+const ACTIVE_COLOR = "#ffd754";
+
+const NAME_INPUT_STYLE: React.CSSProperties = {
+  width:        56,
+  background:   "#111",
+  border:       "1px solid #444",
+  borderRadius: 3,
+  color:        "#fff",
+  fontSize:     12,
+  padding:      "1px 4px",
+};
+
+const ICON_BTN_STYLE: React.CSSProperties = {
+  background: "transparent", border: "none",
+  color: "#555", cursor: "pointer", fontSize: 12, padding: "0 2px",
+};
+
+const ADD_BTN_STYLE: React.CSSProperties = {
+  background: "transparent", border: "1px dashed #444", borderRadius: 4,
+  color: "#888", cursor: "pointer", fontSize: 11, padding: "2px 0", width: "100%",
+};
+
+/** 名前入力欄。Enter またはフォーカスアウトで確定、空欄は元に戻す */
+function NameField({ value, onCommit }: { value: string; onCommit: (v: string) => void }) {
+  const [text, setText] = useState(value);
+  useEffect(() => { setText(value); }, [value]);
+
+  const commit = () => {
+    const v = text.trim();
+    if (!v) { setText(value); return; }
+    if (v !== value) onCommit(v);
+  };
+
+  return (
+    <input
+      type="text" value={text}
+      onChange={e => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === "Enter")  (e.target as HTMLInputElement).blur();
+        if (e.key === "Escape") setText(value);
+      }}
+      style={NAME_INPUT_STYLE}
+    />
+  );
+}
+
+export function LoadCasePanel() {
+  const {
+    loadCases, combinations,
+    activeCaseId, setActiveCaseId,
+    addLoadCase, renameLoadCase, deleteLoadCase,
+    addCombination, renameCombination, setCombinationFactor, removeCombination,
+    pointLoads, distLoads, momentLoads, memberPointLoads, thermalLoads, supports,
+    selfWeight, setSelfWeightEnabled,
+  } = useAppContext();
+
+  // ケースごとの荷重数（支点の強制変位を含む。削除時の目安表示）
+  const loadCount = (caseId: string) =>
+    pointLoads.filter(l => l.caseId === caseId).length +
+    distLoads.filter(l => l.caseId === caseId).length +
+    momentLoads.filter(l => l.caseId === caseId).length +
+    memberPointLoads.filter(l => l.caseId === caseId).length +
+    thermalLoads.filter(l => l.caseId === caseId).length +
+    supports.filter(s => s.settlement?.caseId === caseId).length;
+
+  return (
+    <div style={{
+      position: "absolute", bottom: 20, left: SIDEBAR_W + 16,
+      maxWidth: 420,
+      background: "#1a1a2e", border: "1px solid #333", borderRadius: 8,
+      padding: 10, display: "flex", flexDirection: "column", gap: 6,
+      boxShadow: "0 4px 20px rgba(0,0,0,0.5)", zIndex: 100, userSelect: "none",
+      color: "#ddd", fontSize: 12,
+    }}>
+      {/* ── 荷重ケース ── */}
+      <div style={{ fontSize: 10, color: "#888" }}>荷重ケース（● = 配置先）</div>
+      {loadCases.map(lc => {
+        const active = lc.id === activeCaseId;
+        return (
+          <div key={lc.id} style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            <button
+              onClick={() => setActiveCaseId(lc.id)}
+              title="新しい荷重をこのケースに配置"
+              style={{ ...ICON_BTN_STYLE, color: active ? ACTIVE_COLOR : "#555" }}
+            >{active ? "●" : "○"}</button>
+            <NameField value={lc.name} onCommit={v => renameLoadCase(lc.id, v)} />
+            <span style={{ color: "#666", fontSize: 10, flex: 1 }}>
+              {selfWeight?.caseId === lc.id && (selfWeight.enabled ? "自重 + " : "自重(off) + ")}
+              {loadCount(lc.id)} 荷重
+            </span>
+            {loadCases.length > 1 && (
+              <button style={ICON_BTN_STYLE} onClick={() => deleteLoadCase(lc.id)}
+                title="ケースと所属する荷重を削除">✕</button>
+            )}
+          </div>
+        );
+      })}
+      <button style={ADD_BTN_STYLE} onClick={() => addLoadCase()}>+ ケース</button>
+      {/* 自重は専用のケースに解析時に生成する（キャンバスには分布荷重として置かない） */}
+      <label
+        style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 11, color: "#aaa", cursor: "pointer" }}
+        title="部材ごとに 単位体積重量 γ × 断面積 A の鉛直荷重を生成（円弧は弧長あたり）"
+      >
+        <input
+          type="checkbox" checked={selfWeight?.enabled ?? false}
+          onChange={e => setSelfWeightEnabled(e.target.checked)}
+          style={{ margin: 0 }}
+        />
+        自重（γ × A）
+      </label>
+
+      {/* ── 荷重組合せ（係数表） ── */}
+      <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6, fontSize: 10, color: "#888" }}>
+        荷重組合せ（係数）
+      </div>
+      {combinations.length > 0 && (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th />
+                {loadCases.map(lc => (
+                  <th key={lc.id} style={{ color: "#888", fontWeight: "normal", fontSize: 11, padding: "0 2px" }}>
+                    {lc.name}
+                  </th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {combinations.map(cb => (
+                <tr key={cb.id}>
+                  <td style={{ paddingRight: 4 }}>
+                    <NameField value={cb.name} onCommit={v => renameCombination(cb.id, v)} />
+                  </td>
+                  {loadCases.map(lc => (
+                    <td key={lc.id} style={{ padding: "1px 2px" }}>
+                      <NumberField
+                        value={cb.factors[lc.id] ?? 0}
+                        onCommit={v => setCombinationFactor(cb.id, lc.id, v)}
+                        width={40}
+                      />
+                    </td>
+                  ))}
+                  <td>
+                    <button style={ICON_BTN_STYLE} onClick={() => removeCombination(cb.id)} title="組合せを削除">✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <button style={ADD_BTN_STYLE} onClick={() => addCombination()}>+ 組合せ</button>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * LoadPathPanel.tsx — 載荷経路の設定、影響線の対象・結果、移動荷重の列車と極値
+ *
+ * 移動荷重の極値は選択中の部材（なければ全部材）と各支点について並べ、
+ * クリックするとその値を与える列車の位置を包絡図に重ねて表示する。
+ */
+
+import React from "react";
+import { useAppContext } from "../contexts/AppContext";
+import { NumberField } from "./NumberField";
+import { orderLoadPath } from "../utils/loadPath";
+import { memberExtremes } from "../utils/envelope";
+import { GRID } from "../types";
+import type { InfluenceTarget, TrainExtreme, TrainPosition } from "../utils/femTypes";
+
+const PANEL_W = 240;
+const INFLUENCE_COLOR = "#26c6da";
+const TRAIN_COLOR     = "#ffb74d";
+
+const SELECT_STYLE: React.CSSProperties = {
+  padding: "2px 4px", borderRadius: 4,
+  background: "#111", border: "1px solid #444",
+  color: "#ddd", fontSize: 11,
+};
+
+const BTN_STYLE: React.CSSProperties = {
+  background: "transparent", border: "1px dashed #444", borderRadius: 4,
+  color: "#888", cursor: "pointer", fontSize: 11, padding: "2px 6px",
+};
+
+const REACTION_COMPONENTS: { key: "fx" | "fy" | "m"; label: string }[] = [
+  { key: "fx", label: "Rx" }, { key: "fy", label: "Ry" }, { key: "m", label: "M" },
+];
+
+/** 対象の種類を切り替えたときの既定値（選択中の部材・先頭の支点を使う） */
+function defaultTarget(kind: InfluenceTarget["kind"], memberId: string | undefined, supportId: string | undefined): InfluenceTarget | null {
+  if (kind === "reaction") return supportId ? { kind, supportId, component: "fy" } : null;
+  return memberId ? { kind, memberId, ratio: 0.5, quantity: "M" } : null;
+}
+
+/** 列車の位置の説明（走行の向きと先頭の軸の位置） */
+function positionText(p: TrainPosition): string {
+  return `${p.reversed ? "終点→始点" : "始点→終点"} · 先頭 ${Number(p.lead.toPrecision(4))}`;
+}
+
+/** 極値のボタン: クリックでその値を与える列車の位置を表示する */
+function ExtremeButton({ extreme, positions, active, onShow }: {
+  extreme: TrainExtreme; positions: TrainPosition[]; active: boolean; onShow: (position: number) => void;
+}) {
+  return (
+    <button
+      style={{ ...BTN_STYLE, borderStyle: "solid", padding: "0 4px", textAlign: "right",
+        color: active ? TRAIN_COLOR : "#ddd", borderColor: active ? TRAIN_COLOR : "#333" }}
+      title={positionText(positions[extreme.position])}
+      onClick={() => onShow(extreme.position)}
+    >{extreme.value.toPrecision(4)}</button>
+  );
+}
+
+export function LoadPathPanel() {
+  const {
+    analysisOptions, members, nodes, supports, sel, femResult,
+    loadPath, setLoadPath, influenceTarget: target, setInfluenceTarget,
+    movingLoadSettings: train, setMovingLoadSettings, trainView, setTrainView, setResultKey,
+  } = useAppContext();
+
+  if (!analysisOptions.influence && !analysisOptions.movingLoad) return null;
+
+  const selectedMembers = sel.kind === "members" ? sel.ids : [];
+  const ordered  = loadPath.length > 0 ? orderLoadPath(members, nodes, loadPath) : null;
+  const influence = femResult?.ok ? femResult.influence : undefined;
+  const moving    = femResult?.ok ? femResult.movingLoad : undefined;
+
+  // 移動荷重の極値: 選択中の部材（円弧はサブ部材をまとめる）、なければ全部材
+  const extremeMemberId = selectedMembers.length === 1 ? selectedMembers[0] : null;
+  const movingElements = femResult?.ok && moving?.ok
+    ? moving.elements.filter(el => !extremeMemberId || (femResult.arcGroupMap.get(el.memberId) ?? el.memberId) === extremeMemberId)
+    : [];
+  const showTrain = (position: number) => {
+    setResultKey("moving");
+    setTrainView(position);
+  };
+
+  // 影響線の最大・最小（値と、経路の始点からの距離）
+  const extremes = influence?.ok && influence.points.length > 0
+    ? influence.points.reduce((acc, p) => ({
+        max: p.value > acc.max.value ? p : acc.max,
+        min: p.value < acc.min.value ? p : acc.min,
+      }), { max: influence.points[0], min: influence.points[0] })
+    : null;
+
+  return (
+    <div style={{
+      position: "fixed", top: 16, right: 30 + 200 + 12, width: PANEL_W,
+      maxHeight: "60vh", overflowY: "auto",
+      background: "#1a1a2e", border: "1px solid #333", borderRadius: 8,
+      padding: 10, display: "flex", flexDirection: "column", gap: 6,
+      boxShadow: "0 4px 20px rgba(0,0,0,0.5)", zIndex: 100, userSelect: "none",
+      color: "#ddd", fontSize: 12,
+    }}>
+      <span style={{ color: "#aaa", fontSize: 11, fontWeight: "bold" }}>
+        載荷経路・{[analysisOptions.influence && "影響線", analysisOptions.movingLoad && "移動荷重"].filter(Boolean).join("・")}
+      </span>
+
+      {/* ── 載荷経路 ── */}
+      <div style={{ fontSize: 10, color: "#888" }}>
+        {loadPath.length === 0
+          ? "経路なし"
+          : ordered?.ok === false
+            ? <span style={{ color: "#e74c3c" }}>⚠ {ordered.message}</span>
+            : `経路: ${ordered?.memberIds.join(" → ")}`}
+      </div>
+      <div style={{ display: "flex", gap: 4 }}>
+        <button style={{ ...BTN_STYLE, flex: 1, opacity: selectedMembers.length > 0 ? 1 : 0.4 }}
+          disabled={selectedMembers.length === 0}
+          onClick={() => setLoadPath([...selectedMembers])}
+          title="選択中の部材（一続きにつながるもの）を載荷経路にする">選択部材を経路に</button>
+        {loadPath.length > 0 && (
+          <button style={BTN_STYLE} onClick={() => setLoadPath([])}>クリア</button>
+        )}
+      </div>
+
+      {/* ── 影響線の対象 ── */}
+      {analysisOptions.influence && <>
+        <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6, fontSize: 10, color: "#888" }}>
+          影響線の対象（鉛直下向きの単位荷重）
+        </div>
+        <select value={target?.kind ?? ""} style={SELECT_STYLE}
+          onChange={e => setInfluenceTarget(e.target.value === ""
+            ? null
+            : defaultTarget(e.target.value as InfluenceTarget["kind"], selectedMembers[0] ?? loadPath[0], supports[0]?.id))}>
+          <option value="">選択してください</option>
+          <option value="reaction">支点反力</option>
+          <option value="section">断面力</option>
+        </select>
+        {target?.kind === "reaction" && (
+          <div style={{ display: "flex", gap: 4 }}>
+            <select value={target.supportId} style={{ ...SELECT_STYLE, flex: 1 }}
+              onChange={e => setInfluenceTarget({ ...target, supportId: e.target.value })}>
+              {!supports.some(sp => sp.id === target.supportId) && <option value={target.supportId}>（削除された支点）</option>}
+              {supports.map(sp => <option key={sp.id} value={sp.id}>{sp.type} @ {sp.nodeId}</option>)}
+            </select>
+            <select value={target.component} style={SELECT_STYLE}
+              onChange={e => setInfluenceTarget({ ...target, component: e.target.value as "fx" | "fy" | "m" })}>
+              {REACTION_COMPONENTS.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+            </select>
+          </div>
+        )}
+        {target?.kind === "section" && <>
+          <div style={{ display: "flex", gap: 4 }}>
+            <select value={target.memberId} style={{ ...SELECT_STYLE, flex: 1 }}
+              onChange={e => setInfluenceTarget({ ...target, memberId: e.target.value })}>
+              {!members.some(m => m.id === target.memberId) && <option value={target.memberId}>（削除された部材）</option>}
+              {members.map(m => <option key={m.id} value={m.id}>{m.id}</option>)}
+            </select>
+            <select value={target.quantity} style={SELECT_STYLE}
+              onChange={e => setInfluenceTarget({ ...target, quantity: e.target.value as "N" | "Q" | "M" })}>
+              <option value="N">N</option>
+              <option value="Q">Q</option>
+              <option value="M">M</option>
+            </select>
+          </div>
+          <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 10, color: "#888" }}>
+            <span style={{ flex: 1 }}>位置（a端からの比）</span>
+            <NumberField value={target.ratio} width={56}
+              onCommit={v => v >= 0 && v <= 1 ? setInfluenceTarget({ ...target, ratio: v }) : false} />
+          </label>
+        </>}
+
+        {/* ── 結果 ── */}
+        {influence && (
+          <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6, fontSize: 10 }}>
+            {influence.ok === false ? (
+              <div style={{ color: "#666" }}>{influence.message}</div>
+            ) : extremes && (
+              <div style={{ display: "grid", gridTemplateColumns: "auto 1fr auto", columnGap: 6, color: "#888" }}>
+                <span>最大</span>
+                <span style={{ color: INFLUENCE_COLOR, textAlign: "right" }}>{extremes.max.value.toPrecision(4)}</span>
+                <span>s = {extremes.max.s.toPrecision(4)}</span>
+                <span>最小</span>
+                <span style={{ color: INFLUENCE_COLOR, textAlign: "right" }}>{extremes.min.value.toPrecision(4)}</span>
+                <span>s = {extremes.min.s.toPrecision(4)}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </>}
+
+      {/* ── 移動荷重の列車 ── */}
+      {analysisOptions.movingLoad && <>
+        <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6, fontSize: 10, color: "#888" }}>
+          列車（鉛直下向きの軸荷重。間隔は前の軸から）
+        </div>
+        <div style={{ display: "grid", gridTemplateColumns: "auto 1fr 1fr auto", columnGap: 4, rowGap: 2,
+          alignItems: "center", fontSize: 10, color: "#888" }}>
+          <span>軸</span><span>荷重</span><span>間隔</span><span />
+          {train.axles.map((ax, k) => (
+            <React.Fragment key={k}>
+              <span>{k + 1}</span>
+              <NumberField value={ax.magnitude} width={56}
+                onCommit={v => setMovingLoadSettings(prev => ({
+                  ...prev, axles: prev.axles.map((a, i) => i === k ? { ...a, magnitude: v } : a),
+                }))} />
+              {k === 0 ? <span>—</span> : (
+                <NumberField value={ax.spacing} width={56}
+                  onCommit={v => v >= 0 ? setMovingLoadSettings(prev => ({
+                    ...prev, axles: prev.axles.map((a, i) => i === k ? { ...a, spacing: v } : a),
+                  })) : false} />
+              )}
+              <button style={{ ...BTN_STYLE, border: "none", padding: "0 2px", opacity: train.axles.length > 1 ? 1 : 0.3 }}
+                disabled={train.axles.length <= 1}
+                onClick={() => setMovingLoadSettings(prev => ({ ...prev, axles: prev.axles.filter((_, i) => i !== k) }))}
+                title="この軸を削除">✕</button>
+            </React.Fragment>
+          ))}
+        </div>
+        <button style={BTN_STYLE}
+          onClick={() => setMovingLoadSettings(prev => {
+            const last = prev.axles[prev.axles.length - 1];
+            return { ...prev, axles: [...prev.axles, { magnitude: last?.magnitude ?? 1, spacing: last?.spacing || GRID * 2 }] };
+          })}>＋ 軸を追加</button>
+        <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 10, color: "#888" }}>
+          <span style={{ flex: 1 }}>刻み</span>
+          <NumberField value={train.step} width={56}
+            onCommit={v => v > 0 ? setMovingLoadSettings(prev => ({ ...prev, step: v })) : false} />
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 10, color: "#888" }}>
+          <input type="checkbox" checked={train.bothDirections}
+            onChange={e => setMovingLoadSettings(prev => ({ ...prev, bothDirections: e.target.checked }))} />
+          逆向きの走行も調べる
+        </label>
+
+        {/* ── 移動荷重の極値 ── */}
+        {moving && (
+          <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6, fontSize: 10 }}>
+            {moving.ok === false ? (
+              <div style={{ color: "#666" }}>{moving.message}</div>
+            ) : <>
+              <div style={{ color: "#888", marginBottom: 4 }}>
+                {extremeMemberId ? `部材 ${extremeMemberId}` : "全部材"} の最大 / 最小（クリックで列車の位置を表示）
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "auto 1fr 1fr", columnGap: 4, rowGap: 2, color: "#888" }}>
+                {(["N", "Q", "M"] as const).map(q => {
+                  const r = memberExtremes(movingElements, q);
+                  return r && (
+                    <React.Fragment key={q}>
+                      <span>{q}</span>
+                      <ExtremeButton extreme={r.max} positions={moving.positions}
+                        active={trainView === r.max.position} onShow={showTrain} />
+                      <ExtremeButton extreme={r.min} positions={moving.positions}
+                        active={trainView === r.min.position} onShow={showTrain} />
+                    </React.Fragment>
+                  );
+                })}
+                {moving.reactions.flatMap(rc => (["fx", "fy", "m"] as const)
+                  .filter(c => c !== "m" || Math.abs(rc.m.max.value) > 1e-9 || Math.abs(rc.m.min.value) > 1e-9)
+                  .map(c => (
+                    <React.Fragment key={`${rc.supportId}-${c}`}>
+                      <span>{REACTION_COMPONENTS.find(rcmp => rcmp.key === c)!.label} @ {rc.nodeId}</span>
+                      <ExtremeButton extreme={rc[c].max} positions={moving.positions}
+                        active={trainView === rc[c].max.position} onShow={showTrain} />
+                      <ExtremeButton extreme={rc[c].min} positions={moving.positions}
+                        active={trainView === rc[c].min.position} onShow={showTrain} />
+                    </React.Fragment>
+                  )))}
+              </div>
+              {trainView !== null && moving.positions[trainView] && (
+                <div style={{ display: "flex", alignItems: "center", gap: 4, marginTop: 4, color: TRAIN_COLOR }}>
+                  <span style={{ flex: 1 }}>{positionText(moving.positions[trainView])}</span>
+                  <button style={BTN_STYLE} onClick={() => setTrainView(null)}>隠す</button>
+                </div>
+              )}
+            </>}
+          </div>
+        )}
+      </>}
+    </div>
+  );
+}
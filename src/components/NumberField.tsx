@@ -0,0 +1,60 @@
+import { useState, useEffect } from "react";
+
+const INPUT_STYLE: React.CSSProperties = {
+  width:        80,
+  background:   "#111",
+  border:       "1px solid #444",
+  borderRadius: 3,
+  color:        "#fff",
+  fontSize:     12,
+  fontFamily:   "monospace",
+  padding:      "1px 4px",
+  textAlign:    "right",
+};
+
+/** 表示用の丸め（ドラッグ回転などで生じる長い小数を抑える） */
+function format(value: number | null): string {
+  return value === null ? "" : String(Math.round(value * 1e4) / 1e4);
+}
+
+/**
+ * 数値入力欄。Enter またはフォーカスアウトで確定し onCommit を呼ぶ。
+ * value=null は「複数選択で値が揃っていない」状態（空欄表示）。
+ * 数値として解釈できない入力、および onCommit が false を返した場合は元の値に戻す。
+ */
+export function NumberField({ value, onCommit, width }: {
+  value: number | null;
+  onCommit: (v: number) => boolean | void;
+  width?: number;
+}) {
+  const [text, setText] = useState(format(value));
+
+  // 外部から値が変わったら表示を追従
+  useEffect(() => { setText(format(value)); }, [value]);
+
+  const commit = () => {
+    const v = parseFloat(text);
+    if (text.trim() === "" || !isFinite(v)) {
+      setText(format(value));
+      return;
+    }
+    if (text === format(value)) return;
+    if (onCommit(v) === false) setText(format(value));
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      placeholder={value === null ? "—" : undefined}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter")  (e.target as HTMLInputElement).blur();
+        if (e.key === "Escape") { setText(format(value)); }
+      }}
+      style={{ ...INPUT_STYLE, ...(width !== undefined ? { width } : {}) }}
+    />
+  );
+}
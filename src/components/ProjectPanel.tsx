@@ -0,0 +1,59 @@
+/**
+ * ProjectPanel.tsx — プロジェクトの保存・読込、元に戻す・やり直しボタン
+ */
+
+import { useState } from "react";
+import { useAppContext } from "../contexts/AppContext";
+import { SIDEBAR_W } from "../types";
+import { createBenchmarkModel } from "../utils/benchmark";
+
+const BTN_STYLE: React.CSSProperties = {
+  padding:      "4px 10px",
+  borderRadius: 4,
+  border:       "1px solid #444",
+  background:   "#1e1e1e",
+  color:        "#ddd",
+  fontSize:     12,
+  cursor:       "pointer",
+};
+
+export function ProjectPanel() {
+  const { exportProject, importProject, loadModel, canUndo, canRedo, undo, redo } = useAppContext();
+  const [error, setError] = useState<string | null>(null);
+
+  const onImport = async () => {
+    setError(await importProject());
+  };
+
+  return (
+    <div style={{
+      position: "absolute", top: 16, left: SIDEBAR_W + 16,
+      display: "flex", flexDirection: "column", gap: 6,
+      zIndex: 100, userSelect: "none",
+    }}>
+      <div style={{ display: "flex", gap: 6 }}>
+        <button style={BTN_STYLE} onClick={exportProject} title="プロジェクトを JSON で保存">保存</button>
+        <button style={BTN_STYLE} onClick={onImport} title="プロジェクトファイルを開く">開く</button>
+        <button style={BTN_STYLE} onClick={() => loadModel(createBenchmarkModel())}
+          title="ソルバーの性能確認用モデル（8径間アーチ橋・約3000自由度）を開く">ベンチマーク</button>
+        <button style={{ ...BTN_STYLE, opacity: canUndo ? 1 : 0.4 }} disabled={!canUndo}
+          onClick={undo} title="元に戻す (Ctrl+Z)">↶</button>
+        <button style={{ ...BTN_STYLE, opacity: canRedo ? 1 : 0.4 }} disabled={!canRedo}
+          onClick={redo} title="やり直し (Ctrl+Shift+Z)">↷</button>
+      </div>
+      {error && (
+        <div
+          onClick={() => setError(null)}
+          style={{
+            maxWidth: 260,
+            background: "#3d1010", border: "1px solid #c0392b",
+            borderRadius: 4, padding: "6px 8px", fontSize: 11,
+            color: "#e74c3c", lineHeight: 1.5, cursor: "pointer",
+          }}
+        >
+          ⚠ 読込に失敗しました: {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,9 @@
 import { useAppContext } from "../contexts/AppContext";
+import { NumberField } from "./NumberField";
+import {
+  DEFAULT_MATERIAL, DEFAULT_SECTION, DEFAULT_SPRING,
+  SupportType, SupportSpring, EndRelease, MemberKind, DistLoadBasis,
+} from "../types";
 
 const PANEL_STYLE: React.CSSProperties = {
   position:        "absolute",
@@ -35,6 +40,27 @@ const ROW_STYLE: React.CSSProperties = {
 const LABEL_STYLE: React.CSSProperties = { color: "#888" };
 const VALUE_STYLE: React.CSSProperties = { color: "#fff" };
 
+const SELECT_STYLE: React.CSSProperties = {
+  width:        92,
+  background:   "#111",
+  border:       "1px solid #444",
+  borderRadius: 3,
+  color:        "#fff",
+  fontSize:     12,
+  fontFamily:   "monospace",
+};
+
+const ADD_BTN_STYLE: React.CSSProperties = {
+  marginLeft:   4,
+  background:   "transparent",
+  border:       "1px solid #444",
+  borderRadius: 3,
+  color:        "#888",
+  fontSize:     11,
+  cursor:       "pointer",
+  padding:      "0 4px",
+};
+
 function Row({ label, value }: { label: string; value: string }) {
   return (
     <div style={ROW_STYLE}>
@@ -44,6 +70,199 @@ function Row({ label, value }: { label: string; value: string }) {
   );
 }
 
+/** 入力欄付きの行（子要素に NumberField / select を置く） */
+function EditRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div style={{ ...ROW_STYLE, alignItems: "center", pointerEvents: "auto" }}>
+      <span style={LABEL_STYLE}>{label}</span>
+      <span>{children}</span>
+    </div>
+  );
+}
+
+/** 全要素で値が一致すればその値、そうでなければ null（混在） */
+function common<T>(values: T[]): T | null {
+  if (values.length === 0) return null;
+  return values.every((v) => v === values[0]) ? values[0] : null;
+}
+
+/** 角度入力: 0〜360° に正規化して確定する */
+const normDeg = (v: number) => ((v % 360) + 360) % 360;
+
+/** 部材上の位置の比を 0〜1 に丸める */
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/** 選択荷重の荷重ケース割り当て */
+function LoadCaseRow({ caseIds, onChange }: { caseIds: string[]; onChange: (caseId: string) => void }) {
+  const { loadCases } = useAppContext();
+  const caseId = common(caseIds);
+  return (
+    <EditRow label="Case">
+      <select value={caseId ?? ""} onChange={(e) => onChange(e.target.value)} style={SELECT_STYLE}>
+        {caseId === null && <option value="">—</option>}
+        {loadCases.map((lc) => <option key={lc.id} value={lc.id}>{lc.name}</option>)}
+      </select>
+    </EditRow>
+  );
+}
+
+/** ばね支点の剛性（x', y' は支点の角度だけ回した局所軸） */
+const SPRING_FIELDS: { key: keyof SupportSpring; label: string }[] = [
+  { key: "kx", label: "kx'" },
+  { key: "ky", label: "ky'" },
+  { key: "kr", label: "kθ" },
+];
+
+/** 支点の強制変位（全体座標。θ は固定・ばね支点のみ） */
+const SETTLEMENT_FIELDS: { key: "dx" | "dy" | "rot"; label: string }[] = [
+  { key: "dx",  label: "Settle dx" },
+  { key: "dy",  label: "Settle dy" },
+  { key: "rot", label: "Settle θ rad" },
+];
+
+/** 分布荷重の強度の基準 */
+const DIST_BASIS_OPTIONS: { basis: DistLoadBasis; label: string; title: string }[] = [
+  { basis: "length",     label: "Length",  title: "部材長（円弧は弧長）あたり、Angle の向き" },
+  { basis: "horizontal", label: "Proj. X", title: "水平投影長あたり、Angle の向き" },
+  { basis: "vertical",   label: "Proj. Y", title: "鉛直投影長あたり、Angle の向き" },
+  { basis: "normal",     label: "Normal",  title: "部材長あたり、部材に直交（a→b の右手側が正）" },
+  { basis: "tangent",    label: "Tangent", title: "部材長あたり、部材軸方向（a→b が正）" },
+];
+
+const RELEASE_KINDS: { kind: keyof EndRelease; label: string; title: string }[] = [
+  { kind: "moment", label: "M", title: "モーメント解放（材端ピン）" },
+  { kind: "axial",  label: "N", title: "軸方向の解放" },
+  { kind: "shear",  label: "Q", title: "せん断の解放" },
+];
+
+/** 選択部材の端部の解放（a端・b端ごとに M / N / Q）。複数選択時は全部材が解放済みならチェック */
+function MemberReleaseEditor({ memberIds }: { memberIds: string[] }) {
+  const { members, setMemberRelease } = useAppContext();
+  const ids      = new Set(memberIds);
+  const selected = members.filter((m) => ids.has(m.id));
+  return (
+    <>
+      {(["a", "b"] as const).map((end) => (
+        <EditRow key={end} label={`Release ${end.toUpperCase()}`}>
+          {RELEASE_KINDS.map(({ kind, label, title }) => {
+            const checked = selected.length > 0 && selected.every((m) => m.releases?.[end]?.[kind]);
+            return (
+              <label key={kind} title={title} style={{ marginLeft: 4, cursor: "pointer" }}>
+                <input
+                  type="checkbox" checked={checked}
+                  onChange={() => setMemberRelease(memberIds, end, kind, !checked)}
+                  style={{ margin: "0 1px 0 0", verticalAlign: "middle" }}
+                />
+                {label}
+              </label>
+            );
+          })}
+        </EditRow>
+      ))}
+    </>
+  );
+}
+
+/** 選択部材の種別（梁 / トラス）。円弧部材を含む選択ではトラスを選べない */
+function MemberKindEditor({ memberIds }: { memberIds: string[] }) {
+  const { members, setMemberKind } = useAppContext();
+  const ids      = new Set(memberIds);
+  const selected = members.filter((m) => ids.has(m.id));
+  const kind     = common(selected.map((m) => m.kind ?? "frame"));
+  const hasArc   = selected.some((m) => m.curve?.type === "arc");
+  return (
+    <EditRow label="Type">
+      <select
+        value={kind ?? ""}
+        onChange={(e) => setMemberKind(memberIds, e.target.value as MemberKind)}
+        style={SELECT_STYLE}
+      >
+        {kind === null && <option value="" disabled>—</option>}
+        <option value="frame">Frame</option>
+        <option value="truss" disabled={hasArc}>Truss (N only)</option>
+      </select>
+    </EditRow>
+  );
+}
+
+/** 選択部材の材料・断面の割り当てと値の編集 */
+function MemberSectionEditor({ memberIds }: { memberIds: string[] }) {
+  const {
+    members, materials, sections,
+    addMaterial, updateMaterial,
+    addSection, updateSection,
+    assignMemberProps,
+  } = useAppContext();
+
+  const selected   = members.filter((m) => memberIds.includes(m.id));
+  const materialId = common(selected.map((m) => m.materialId ?? DEFAULT_MATERIAL.id));
+  const sectionId  = common(selected.map((m) => m.sectionId  ?? DEFAULT_SECTION.id));
+  const material   = materials.find((m) => m.id === materialId);
+  const section    = sections.find((s) => s.id === sectionId);
+
+  return (
+    <div style={{ borderTop: "1px solid #333", marginTop: 6, paddingTop: 6 }}>
+      <EditRow label="Material">
+        <select
+          value={materialId ?? ""}
+          onChange={(e) => assignMemberProps(memberIds, { materialId: e.target.value })}
+          style={SELECT_STYLE}
+        >
+          {materialId === null && <option value="">—</option>}
+          {materials.map((m) => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+        <button
+          style={ADD_BTN_STYLE} title="材料を追加"
+          onClick={() => assignMemberProps(memberIds, { materialId: addMaterial(material) })}
+        >+</button>
+      </EditRow>
+      {material && (
+        <>
+          <EditRow label="E">
+            <NumberField value={material.E} onCommit={(v) => updateMaterial(material.id, { E: v })} />
+          </EditRow>
+          <EditRow label="α">
+            <NumberField value={material.alpha ?? 0} onCommit={(v) => v >= 0 ? updateMaterial(material.id, { alpha: v }) : false} />
+          </EditRow>
+          <EditRow label="γ">
+            <NumberField value={material.unitWeight ?? 0} onCommit={(v) => v >= 0 ? updateMaterial(material.id, { unitWeight: v }) : false} />
+          </EditRow>
+        </>
+      )}
+      <EditRow label="Section">
+        <select
+          value={sectionId ?? ""}
+          onChange={(e) => assignMemberProps(memberIds, { sectionId: e.target.value })}
+          style={SELECT_STYLE}
+        >
+          {sectionId === null && <option value="">—</option>}
+          {sections.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <button
+          style={ADD_BTN_STYLE} title="断面を追加"
+          onClick={() => assignMemberProps(memberIds, { sectionId: addSection(section) })}
+        >+</button>
+      </EditRow>
+      {section && (
+        <>
+          <EditRow label="A">
+            <NumberField value={section.A} onCommit={(v) => updateSection(section.id, { A: v })} />
+          </EditRow>
+          <EditRow label="I">
+            <NumberField value={section.I} onCommit={(v) => updateSection(section.id, { I: v })} />
+          </EditRow>
+          <EditRow label="Mass/L">
+            <NumberField value={section.mass ?? 0} onCommit={(v) => v >= 0 ? updateSection(section.id, { mass: v }) : false} />
+          </EditRow>
+          <EditRow label="Depth h">
+            <NumberField value={section.depth ?? 0} onCommit={(v) => v >= 0 ? updateSection(section.id, { depth: v }) : false} />
+          </EditRow>
+        </>
+      )}
+    </div>
+  );
+}
+
 export function PropertiesPanel() {
   const {
     sel,
@@ -53,59 +272,157 @@ export function PropertiesPanel() {
     joints,
     pointLoads,
     distLoads,
+    momentLoads,
+    memberPointLoads,
+    thermalLoads,
     nodeById,
     selectedNodeId,
+    moveNode, setNodeMass,
+    updateSupports, updateSupportSprings, updateSupportSettlements,
+    updatePointLoads,
+    updateDistLoads,
+    updateMomentLoads,
+    updateMemberLoads,
+    addThermalLoads, updateThermalLoads,
+    setSel,
+    setMemberBulge,
   } = useAppContext();
 
   // ===== 表示内容を決定 =====
+  // 編集はすべてモデルの state を更新するので、解析結果は自動で stale になり、
+  // 1回の確定が Undo の1ステップになる。複数選択時は全要素に一括で適用する。
   let title    = "";
   let rows: { label: string; value: string }[] = [];
+  let editor: React.ReactNode = null;
+
+  const count  = "ids" in sel ? sel.ids.length : 0;
+  const suffix = count > 1 ? ` (${count})` : "";
+  const idSet  = new Set("ids" in sel ? sel.ids : []);
 
   // nodeEdit モードで選択中のノード
   if (mode === "nodeEdit" && selectedNodeId) {
     const n = nodeById.get(selectedNodeId);
     if (n) {
-      title = "NODE";
-      rows = [
-        { label: "X", value: String(n.x) },
-        { label: "Y", value: String(n.y) },
-      ];
+      title  = "NODE";
+      // 既存ノードと重なる座標は moveNode が拒否する（false → 入力を元に戻す）
+      editor = (
+        <>
+          <EditRow label="X">
+            <NumberField value={n.x} onCommit={(v) => moveNode(n.id, v, n.y)} />
+          </EditRow>
+          <EditRow label="Y">
+            <NumberField value={n.y} onCommit={(v) => moveNode(n.id, n.x, v)} />
+          </EditRow>
+          <EditRow label="Mass">
+            <NumberField value={n.mass ?? 0} onCommit={(v) => v >= 0 ? setNodeMass(n.id, v) : false} />
+          </EditRow>
+        </>
+      );
     }
   }
 
   // support 選択
-  else if (sel.kind === "supports" && sel.ids.length === 1) {
-    const s = supports.find((s) => s.id === sel.ids[0]);
-    if (s) {
-      const n = nodeById.get(s.nodeId);
-      title = "SUPPORT";
-      rows = [
-        { label: "Type",  value: s.type.toUpperCase() },
-        { label: "Angle", value: `${s.angleDeg}°` },
-        ...(n ? [
-          { label: "X", value: String(n.x) },
-          { label: "Y", value: String(n.y) },
-        ] : []),
-      ];
-    }
+  else if (sel.kind === "supports" && count > 0) {
+    const selected = supports.filter((s) => idSet.has(s.id));
+    const type     = common(selected.map((s) => s.type));
+    const n        = count === 1 && selected[0] ? nodeById.get(selected[0].nodeId) : undefined;
+    title  = `SUPPORT${suffix}`;
+    rows   = n ? [
+      { label: "X", value: String(n.x) },
+      { label: "Y", value: String(n.y) },
+    ] : [];
+    editor = (
+      <>
+        <EditRow label="Type">
+          <select
+            value={type ?? ""}
+            onChange={(e) => updateSupports(idSet, { type: e.target.value as SupportType })}
+            style={SELECT_STYLE}
+          >
+            {type === null && <option value="">—</option>}
+            <option value="pin">PIN</option>
+            <option value="roller">ROLLER</option>
+            <option value="fix">FIX</option>
+            <option value="spring">SPRING</option>
+          </select>
+        </EditRow>
+        <EditRow label="Angle°">
+          <NumberField
+            value={common(selected.map((s) => s.angleDeg))}
+            onCommit={(v) => updateSupports(idSet, { angleDeg: normDeg(v) })}
+          />
+        </EditRow>
+        {type === "spring" && SPRING_FIELDS.map(({ key, label }) => (
+          <EditRow key={key} label={label}>
+            <NumberField
+              value={common(selected.map((s) => s.spring?.[key] ?? DEFAULT_SPRING[key]))}
+              onCommit={(v) => updateSupportSprings(idSet, { [key]: Math.max(0, v) })}
+            />
+          </EditRow>
+        ))}
+        {SETTLEMENT_FIELDS
+          .filter(({ key }) => key !== "rot" || selected.every((s) => s.type === "fix" || s.type === "spring"))
+          .map(({ key, label }) => (
+            <EditRow key={key} label={label}>
+              <NumberField
+                value={common(selected.map((s) => s.settlement?.[key] ?? 0))}
+                onCommit={(v) => updateSupportSettlements(idSet, { [key]: v })}
+              />
+            </EditRow>
+          ))}
+        {selected.some((s) => s.settlement) && (
+          <LoadCaseRow
+            caseIds={selected.flatMap((s) => s.settlement ? [s.settlement.caseId] : [])}
+            onChange={(caseId) => updateSupportSettlements(
+              new Set(selected.filter((s) => s.settlement).map((s) => s.id)), { caseId },
+            )}
+          />
+        )}
+      </>
+    );
   }
 
   // member 選択
-  else if (sel.kind === "members" && sel.ids.length === 1) {
-    const m = members.find((m) => m.id === sel.ids[0]);
+  else if (sel.kind === "members" && count > 0) {
+    const selected = members.filter((m) => idSet.has(m.id));
+    // 円弧部材のみのときに bulge を編集可能にする
+    const arcs  = selected.filter((m) => m.curve?.type === "arc");
+    const bulge = arcs.length === selected.length
+      ? common(arcs.map((m) => m.curve?.type === "arc" ? m.curve.bulge : 0))
+      : undefined;
+    title = count > 1 ? `MEMBERS (${count})` : "MEMBER";
+    const m = count === 1 ? selected[0] : undefined;
     if (m) {
       const a = nodeById.get(m.a);
       const b = nodeById.get(m.b);
       const len = (a && b)
         ? Math.round(Math.hypot(b.x - a.x, b.y - a.y) * 100) / 100
         : null;
-      title = "MEMBER";
       rows = [
         ...(len !== null ? [{ label: "Length", value: String(len) }] : []),
         ...(a ? [{ label: "A  (x,y)", value: `${a.x}, ${a.y}` }] : []),
         ...(b ? [{ label: "B  (x,y)", value: `${b.x}, ${b.y}` }] : []),
       ];
     }
+    editor = (
+      <>
+        {bulge !== undefined && (
+          <EditRow label="Bulge">
+            <NumberField value={bulge} onCommit={(v) => setMemberBulge(sel.ids, v)} />
+          </EditRow>
+        )}
+        <MemberKindEditor memberIds={sel.ids} />
+        {selected.every((m) => m.kind !== "truss") && <MemberReleaseEditor memberIds={sel.ids} />}
+        <MemberSectionEditor memberIds={sel.ids} />
+        {/* 温度荷重はアクティブな荷重ケースに追加し、そのまま選択して値を編集させる */}
+        <EditRow label="Thermal">
+          <button
+            style={ADD_BTN_STYLE} title="温度荷重を追加"
+            onClick={() => setSel({ kind: "thermalLoads", ids: addThermalLoads(sel.ids) })}
+          >+</button>
+        </EditRow>
+      </>
+    );
   }
 
   // joint 選択
@@ -122,32 +439,212 @@ export function PropertiesPanel() {
   }
 
   // load 選択
-  else if (sel.kind === "loads" && sel.ids.length === 1) {
-    const l = pointLoads.find((l) => l.id === sel.ids[0]);
-    if (l) {
-      const n = nodeById.get(l.nodeId);
-      title = "POINT LOAD";
-      rows = [
-        { label: "Angle",     value: `${l.angleDeg}°` },
-        { label: "Magnitude", value: String(l.magnitude) },
-        ...(n ? [
-          { label: "X", value: String(n.x) },
-          { label: "Y", value: String(n.y) },
-        ] : []),
-      ];
-    }
+  else if (sel.kind === "loads" && count > 0) {
+    const selected = pointLoads.filter((l) => idSet.has(l.id));
+    const n        = count === 1 && selected[0] ? nodeById.get(selected[0].nodeId) : undefined;
+    title  = `POINT LOAD${suffix}`;
+    rows   = n ? [
+      { label: "X", value: String(n.x) },
+      { label: "Y", value: String(n.y) },
+    ] : [];
+    editor = (
+      <>
+        <LoadCaseRow caseIds={selected.map((l) => l.caseId)} onChange={(caseId) => updatePointLoads(idSet, { caseId })} />
+        <EditRow label="Angle°">
+          <NumberField
+            value={common(selected.map((l) => l.angleDeg))}
+            onCommit={(v) => updatePointLoads(idSet, { angleDeg: normDeg(v) })}
+          />
+        </EditRow>
+        <EditRow label="Magnitude">
+          <NumberField
+            value={common(selected.map((l) => l.magnitude))}
+            onCommit={(v) => updatePointLoads(idSet, { magnitude: v })}
+          />
+        </EditRow>
+      </>
+    );
   }
 
   // distLoad 選択
-  else if (sel.kind === "distLoads" && sel.ids.length === 1) {
-    const l = distLoads.find((l) => l.id === sel.ids[0]);
-    if (l) {
-      title = "DIST LOAD";
-      rows = [
-        { label: "Angle",     value: `${l.angleDeg}°` },
-        { label: "Magnitude", value: String(l.magnitude) },
-      ];
-    }
+  else if (sel.kind === "distLoads" && count > 0) {
+    const selected = distLoads.filter((l) => idSet.has(l.id));
+    const uniform  = selected.every((l) => l.magnitude === l.magnitudeEnd)
+      ? common(selected.map((l) => l.magnitude))
+      : null;
+    const basis    = common(selected.map((l) => l.basis ?? "length"));
+    // normal / tangent は向きが部材で決まるので Angle を使わない
+    const local    = selected.every((l) => l.basis === "normal" || l.basis === "tangent");
+    title  = `DIST LOAD${suffix}`;
+    editor = (
+      <>
+        <LoadCaseRow caseIds={selected.map((l) => l.caseId)} onChange={(caseId) => updateDistLoads(idSet, { caseId })} />
+        <EditRow label="Basis">
+          <select
+            value={basis ?? ""}
+            onChange={(e) => updateDistLoads(idSet, { basis: e.target.value as DistLoadBasis })}
+            style={SELECT_STYLE}
+          >
+            {basis === null && <option value="" disabled>—</option>}
+            {DIST_BASIS_OPTIONS.map((o) => <option key={o.basis} value={o.basis} title={o.title}>{o.label}</option>)}
+          </select>
+        </EditRow>
+        {!local && (
+          <EditRow label="Angle°">
+            <NumberField
+              value={common(selected.map((l) => l.angleDeg))}
+              onCommit={(v) => updateDistLoads(idSet, { angleDeg: normDeg(v) })}
+            />
+          </EditRow>
+        )}
+        {/* Magnitude は等分布として両端に同じ強度を設定する */}
+        <EditRow label="Magnitude">
+          <NumberField
+            value={uniform}
+            onCommit={(v) => updateDistLoads(idSet, { magnitude: v, magnitudeEnd: v })}
+          />
+        </EditRow>
+        <EditRow label="w start">
+          <NumberField
+            value={common(selected.map((l) => l.magnitude))}
+            onCommit={(v) => updateDistLoads(idSet, { magnitude: v })}
+          />
+        </EditRow>
+        <EditRow label="w end">
+          <NumberField
+            value={common(selected.map((l) => l.magnitudeEnd))}
+            onCommit={(v) => updateDistLoads(idSet, { magnitudeEnd: v })}
+          />
+        </EditRow>
+        {/* 載荷範囲（部材長に対する比）。始点 < 終点 にならない入力は元に戻す */}
+        <EditRow label="Start (0-1)">
+          <NumberField
+            value={common(selected.map((l) => l.startRatio))}
+            onCommit={(v) => {
+              const r = clamp01(v);
+              if (selected.some((l) => r >= l.endRatio)) return false;
+              updateDistLoads(idSet, { startRatio: r });
+            }}
+          />
+        </EditRow>
+        <EditRow label="End (0-1)">
+          <NumberField
+            value={common(selected.map((l) => l.endRatio))}
+            onCommit={(v) => {
+              const r = clamp01(v);
+              if (selected.some((l) => r <= l.startRatio)) return false;
+              updateDistLoads(idSet, { endRatio: r });
+            }}
+          />
+        </EditRow>
+      </>
+    );
+  }
+
+  // momentLoad 選択
+  else if (sel.kind === "momentLoads" && count > 0) {
+    const selected  = momentLoads.filter((l) => idSet.has(l.id));
+    const clockwise = common(selected.map((l) => l.clockwise));
+    title  = `MOMENT${suffix}`;
+    editor = (
+      <>
+        <LoadCaseRow caseIds={selected.map((l) => l.caseId)} onChange={(caseId) => updateMomentLoads(idSet, { caseId })} />
+        <EditRow label="Direction">
+          <select
+            value={clockwise === null ? "" : clockwise ? "cw" : "ccw"}
+            onChange={(e) => updateMomentLoads(idSet, { clockwise: e.target.value === "cw" })}
+            style={SELECT_STYLE}
+          >
+            {clockwise === null && <option value="">—</option>}
+            <option value="cw">CW ↻</option>
+            <option value="ccw">CCW ↺</option>
+          </select>
+        </EditRow>
+        <EditRow label="Magnitude">
+          <NumberField
+            value={common(selected.map((l) => l.magnitude))}
+            onCommit={(v) => updateMomentLoads(idSet, { magnitude: v })}
+          />
+        </EditRow>
+      </>
+    );
+  }
+
+  // 部材途中の集中荷重・集中モーメント選択
+  else if (sel.kind === "memberLoads" && count > 0) {
+    const selected  = memberPointLoads.filter((l) => idSet.has(l.id));
+    const forces    = selected.filter((l) => l.kind === "force");
+    const moments   = selected.filter((l) => l.kind === "moment");
+    const clockwise = common(moments.map((l) => l.clockwise));
+    title  = `MEMBER LOAD${suffix}`;
+    rows   = count === 1 && selected[0] ? [
+      { label: "Member", value: selected[0].memberId },
+      { label: "Kind",   value: selected[0].kind === "force" ? "Force" : "Moment" },
+    ] : [];
+    editor = (
+      <>
+        <LoadCaseRow caseIds={selected.map((l) => l.caseId)} onChange={(caseId) => updateMemberLoads(idSet, { caseId })} />
+        {/* 位置は a端からの部材長（円弧は弧長）に対する比 */}
+        <EditRow label="Position (0-1)">
+          <NumberField
+            value={common(selected.map((l) => l.ratio))}
+            onCommit={(v) => updateMemberLoads(idSet, { ratio: clamp01(v) })}
+          />
+        </EditRow>
+        {moments.length === 0 && (
+          <EditRow label="Angle°">
+            <NumberField
+              value={common(forces.map((l) => l.angleDeg))}
+              onCommit={(v) => updateMemberLoads(idSet, { angleDeg: normDeg(v) })}
+            />
+          </EditRow>
+        )}
+        {forces.length === 0 && (
+          <EditRow label="Direction">
+            <select
+              value={clockwise === null ? "" : clockwise ? "cw" : "ccw"}
+              onChange={(e) => updateMemberLoads(idSet, { clockwise: e.target.value === "cw" })}
+              style={SELECT_STYLE}
+            >
+              {clockwise === null && <option value="">—</option>}
+              <option value="cw">CW ↻</option>
+              <option value="ccw">CCW ↺</option>
+            </select>
+          </EditRow>
+        )}
+        <EditRow label="Magnitude">
+          <NumberField
+            value={common(selected.map((l) => l.magnitude))}
+            onCommit={(v) => updateMemberLoads(idSet, { magnitude: v })}
+          />
+        </EditRow>
+      </>
+    );
+  }
+
+  // 温度荷重選択
+  else if (sel.kind === "thermalLoads" && count > 0) {
+    const selected = thermalLoads.filter((l) => idSet.has(l.id));
+    title  = `THERMAL LOAD${suffix}`;
+    rows   = count === 1 && selected[0] ? [{ label: "Member", value: selected[0].memberId }] : [];
+    editor = (
+      <>
+        <LoadCaseRow caseIds={selected.map((l) => l.caseId)} onChange={(caseId) => updateThermalLoads(idSet, { caseId })} />
+        <EditRow label="ΔT">
+          <NumberField
+            value={common(selected.map((l) => l.uniform))}
+            onCommit={(v) => updateThermalLoads(idSet, { uniform: v })}
+          />
+        </EditRow>
+        {/* 上面は a→b に進んで左手側 */}
+        <EditRow label="ΔT top-bot">
+          <NumberField
+            value={common(selected.map((l) => l.gradient))}
+            onCommit={(v) => updateThermalLoads(idSet, { gradient: v })}
+          />
+        </EditRow>
+      </>
+    );
   }
 
   // 何も選択されていない
@@ -166,6 +663,7 @@ export function PropertiesPanel() {
       {rows.map((r) => (
         <Row key={r.label} label={r.label} value={r.value} />
       ))}
+      {editor}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -13,6 +13,7 @@ import arcSvgText      from "../assets/icons/arc.svg?raw";
 import pinSvgText      from "../assets/icons/pin.svg?raw";
 import rollerSvgText   from "../assets/icons/roller.svg?raw";
 import fixSvgText      from "../assets/icons/fix.svg?raw";
+import springSvgText   from "../assets/icons/spring.svg?raw";
 import jointSvgText    from "../assets/icons/joint.svg?raw";
 import loadSvgText     from "../assets/icons/load.svg?raw";
 import distloadSvgText from "../assets/icons/distload.svg?raw";
@@ -50,6 +51,7 @@ export function Sidebar() {
           <IconButton x={x1} y={y} w={BTN_W} h={BTN_H} active={mode === "supportRoller"} svgText={rollerSvgText} onClick={() => switchMode("supportRoller")} />
           {(() => { y += ROW_H + ROW_GAP; return null; })()}
           <IconButton x={x0} y={y} w={BTN_W} h={BTN_H} active={mode === "supportFix"}    svgText={fixSvgText}    onClick={() => switchMode("supportFix")} />
+          <IconButton x={x1} y={y} w={BTN_W} h={BTN_H} active={mode === "supportSpring"} svgText={springSvgText} onClick={() => switchMode("supportSpring")} />
           {(() => { y += ROW_H + ROW_GAP; return null; })()}
 
           {/* JOINT */}
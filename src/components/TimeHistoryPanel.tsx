@@ -0,0 +1,307 @@
+/**
+ * TimeHistoryPanel.tsx — 時刻歴応答解析の条件設定と、結果のコマ送り・履歴グラフ
+ */
+
+import React, { useState, useEffect, useRef } from "react";
+import { useAppContext } from "../contexts/AppContext";
+import { NumberField } from "./NumberField";
+import { uid } from "../utils/geometry";
+import { pickTextFile } from "../utils/project";
+import {
+  parseTimeSeriesCsv, nodeHistory, memberHistory,
+  type HistorySeries, type NodeHistoryQuantity, type MemberHistoryQuantity,
+} from "../utils/timeHistory";
+import type { TimeFunction, TimeHistoryLoad } from "../utils/femTypes";
+
+const PANEL_W   = 250;
+const PLOT_H    = 90;
+const LINE_COLOR   = "#4fc3f7";
+const CURSOR_COLOR = "#ff9f43";
+/** 全コマを再生するのにかける時間 [ms] */
+const PLAYBACK_MS = 5000;
+
+const SELECT_STYLE: React.CSSProperties = {
+  padding: "2px 4px", borderRadius: 4,
+  background: "#111", border: "1px solid #444",
+  color: "#ddd", fontSize: 11,
+};
+
+const ICON_BTN_STYLE: React.CSSProperties = {
+  background: "transparent", border: "none",
+  color: "#555", cursor: "pointer", fontSize: 12, padding: "0 2px",
+};
+
+const ADD_BTN_STYLE: React.CSSProperties = {
+  background: "transparent", border: "1px dashed #444", borderRadius: 4,
+  color: "#888", cursor: "pointer", fontSize: 11, padding: "2px 0", width: "100%",
+};
+
+const NODE_QUANTITIES: { key: NodeHistoryQuantity; label: string }[] = [
+  { key: "ux", label: "変位 ux" }, { key: "uy", label: "変位 uy" }, { key: "rot", label: "回転 θ" },
+];
+const MEMBER_QUANTITIES: { key: MemberHistoryQuantity; label: string }[] = [
+  { key: "Na", label: "N (a端)" }, { key: "Qa", label: "Q (a端)" }, { key: "Ma", label: "M (a端)" },
+  { key: "Nb", label: "N (b端)" }, { key: "Qb", label: "Q (b端)" }, { key: "Mb", label: "M (b端)" },
+];
+
+/** 種類を切り替えたときの既定の時間関数 */
+const DEFAULT_FUNCTIONS: Record<TimeFunction["kind"], TimeFunction> = {
+  pulse:    { kind: "pulse", amplitude: 1, start: 0, duration: 1 },
+  harmonic: { kind: "harmonic", amplitude: 1, frequency: 1, phaseDeg: 0 },
+  table:    { kind: "table", points: [] },
+};
+
+/** ラベル付きの数値入力 */
+function Field({ label, value, onCommit }: { label: string; value: number; onCommit: (v: number) => boolean | void }) {
+  return (
+    <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 10, color: "#888" }}>
+      <span style={{ flex: 1 }}>{label}</span>
+      <NumberField value={value} onCommit={onCommit} width={56} />
+    </label>
+  );
+}
+
+/** 時間関数の編集（パルス・調和・CSV の表） */
+function TimeFunctionEditor({ fn, onChange }: { fn: TimeFunction; onChange: (fn: TimeFunction) => void }) {
+  const [csvError, setCsvError] = useState<string | null>(null);
+
+  const loadCsv = async () => {
+    const text = await pickTextFile(".csv,.txt,text/csv,text/plain");
+    if (text === null) return;
+    const parsed = parseTimeSeriesCsv(text);
+    if (parsed.ok === false) { setCsvError(parsed.message); return; }
+    setCsvError(null);
+    onChange({ kind: "table", points: parsed.points });
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 3, paddingLeft: 8 }}>
+      <select value={fn.kind} style={SELECT_STYLE}
+        onChange={e => onChange(DEFAULT_FUNCTIONS[e.target.value as TimeFunction["kind"]])}>
+        <option value="pulse">矩形パルス</option>
+        <option value="harmonic">調和（sin）</option>
+        <option value="table">CSV の時系列</option>
+      </select>
+      {fn.kind === "pulse" && <>
+        <Field label="振幅" value={fn.amplitude} onCommit={v => onChange({ ...fn, amplitude: v })} />
+        <Field label="開始 [s]" value={fn.start} onCommit={v => onChange({ ...fn, start: v })} />
+        <Field label="継続 [s]" value={fn.duration} onCommit={v => v >= 0 ? onChange({ ...fn, duration: v }) : false} />
+      </>}
+      {fn.kind === "harmonic" && <>
+        <Field label="振幅" value={fn.amplitude} onCommit={v => onChange({ ...fn, amplitude: v })} />
+        <Field label="振動数 [Hz]" value={fn.frequency} onCommit={v => v >= 0 ? onChange({ ...fn, frequency: v }) : false} />
+        <Field label="位相 [°]" value={fn.phaseDeg} onCommit={v => onChange({ ...fn, phaseDeg: v })} />
+      </>}
+      {fn.kind === "table" && (
+        <div style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 10, color: "#888" }}>
+          <button style={{ ...ADD_BTN_STYLE, width: "auto", padding: "2px 8px" }} onClick={loadCsv}
+            title="1列目 時刻、2列目 値の CSV">CSV 読込…</button>
+          <span>
+            {fn.points.length > 0
+              ? `${fn.points.length} 点（${fn.points[0].t}〜${fn.points[fn.points.length - 1].t} s）`
+              : "未読込"}
+          </span>
+        </div>
+      )}
+      {fn.kind === "table" && csvError && (
+        <div style={{ fontSize: 10, color: "#e74c3c" }}>⚠ {csvError}</div>
+      )}
+    </div>
+  );
+}
+
+/** 履歴の折れ線グラフ。cursor は表示中のコマの時刻 */
+function HistoryPlot({ series, cursor }: { series: HistorySeries; cursor: number | null }) {
+  const w = PANEL_W - 20;
+  const { time, value } = series;
+  const t0 = time[0], t1 = time[time.length - 1];
+  const vmin = Math.min(0, ...value), vmax = Math.max(0, ...value);
+  const span = vmax - vmin || 1;
+  const x = (t: number) => t1 > t0 ? (t - t0) / (t1 - t0) * w : 0;
+  const y = (v: number) => PLOT_H - 4 - (v - vmin) / span * (PLOT_H - 8);
+  const fmt = (v: number) => Math.abs(v) >= 1e4 || (v !== 0 && Math.abs(v) < 1e-3) ? v.toExponential(2) : v.toPrecision(3);
+
+  return (
+    <svg width={w} height={PLOT_H} style={{ background: "#111", borderRadius: 4 }}>
+      <line x1={0} x2={w} y1={y(0)} y2={y(0)} stroke="#333" />
+      <polyline fill="none" stroke={LINE_COLOR} strokeWidth={1.2}
+        points={time.map((t, i) => `${x(t).toFixed(1)},${y(value[i]).toFixed(1)}`).join(" ")} />
+      {cursor !== null && (
+        <line x1={x(cursor)} x2={x(cursor)} y1={0} y2={PLOT_H} stroke={CURSOR_COLOR} strokeDasharray="3 2" />
+      )}
+      <text x={2} y={10} fill="#888" fontSize={9}>{fmt(vmax)}</text>
+      <text x={2} y={PLOT_H - 2} fill="#888" fontSize={9}>{fmt(vmin)}</text>
+      <text x={w - 2} y={PLOT_H - 2} fill="#666" fontSize={9} textAnchor="end">{t1.toPrecision(3)} s</text>
+    </svg>
+  );
+}
+
+export function TimeHistoryPanel() {
+  const {
+    analysisOptions, loadCases, activeCaseId, femResult, sel,
+    timeHistorySettings: th, setTimeHistorySettings, timeFrame, setTimeFrame,
+  } = useAppContext();
+  const [playing, setPlaying]   = useState(false);
+  const [nodeQty, setNodeQty]   = useState<NodeHistoryQuantity>("ux");
+  const [memberQty, setMemberQty] = useState<MemberHistoryQuantity>("Ma");
+
+  const history = femResult?.ok ? femResult.timeHistory : undefined;
+  const frames  = history?.ok ? history.frames : null;
+
+  // 再生: 押した時点のコマから PLAYBACK_MS で全コマを一巡する
+  const frameRef = useRef(timeFrame);
+  frameRef.current = timeFrame;
+  useEffect(() => {
+    if (!playing || !frames) return;
+    const from  = frameRef.current ?? 0;
+    const start = performance.now();
+    let raf = requestAnimationFrame(function tick(now) {
+      setTimeFrame((from + Math.floor((now - start) / PLAYBACK_MS * frames.length)) % frames.length);
+      raf = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(raf);
+  }, [playing, frames, setTimeFrame]);
+
+  useEffect(() => { if (!frames) setPlaying(false); }, [frames]);
+
+  // 解析をやめたらコマの表示も戻す（パネルが消えて戻せなくなるため）
+  useEffect(() => {
+    if (analysisOptions.timeHistory) return;
+    setPlaying(false);
+    setTimeFrame(null);
+  }, [analysisOptions.timeHistory, setTimeFrame]);
+
+  if (!analysisOptions.timeHistory) return null;
+
+  const setLoad = (id: string, patch: Partial<TimeHistoryLoad>) =>
+    setTimeHistorySettings(prev => ({ ...prev, loads: prev.loads.map(ld => ld.id === id ? { ...ld, ...patch } : ld) }));
+
+  // 履歴を表示する対象（選択中の節点、または最初の選択部材）
+  const frameIndex = frames && timeFrame !== null ? Math.min(timeFrame, frames.length - 1) : null;
+  const target = sel.kind === "node" ? { kind: "node" as const, id: sel.id }
+    : sel.kind === "members" && sel.ids.length > 0 ? { kind: "member" as const, id: sel.ids[0] }
+    : null;
+  const series = frames && target && femResult?.ok
+    ? target.kind === "node"
+      ? nodeHistory(frames, target.id, nodeQty)
+      : memberHistory(frames, target.id, memberQty, femResult.arcGroupMap)
+    : null;
+
+  return (
+    <div style={{
+      position: "fixed", bottom: 20, right: 16 + 210 + 12, width: PANEL_W,
+      maxHeight: "70vh", overflowY: "auto",
+      background: "#1a1a2e", border: "1px solid #333", borderRadius: 8,
+      padding: 10, display: "flex", flexDirection: "column", gap: 6,
+      boxShadow: "0 4px 20px rgba(0,0,0,0.5)", zIndex: 100, userSelect: "none",
+      color: "#ddd", fontSize: 12,
+    }}>
+      <span style={{ color: "#aaa", fontSize: 11, fontWeight: "bold" }}>時刻歴応答解析</span>
+
+      {/* ── 解析条件 ── */}
+      <Field label="継続時間 [s]" value={th.duration}
+        onCommit={v => v > 0 ? setTimeHistorySettings(prev => ({ ...prev, duration: v })) : false} />
+      <Field label="時間刻み Δt [s]" value={th.dt}
+        onCommit={v => v > 0 ? setTimeHistorySettings(prev => ({ ...prev, dt: v })) : false} />
+      <Field label="減衰定数 ζ（Rayleigh）" value={th.damping}
+        onCommit={v => v >= 0 ? setTimeHistorySettings(prev => ({ ...prev, damping: v })) : false} />
+
+      {/* ── 時刻歴荷重 ── */}
+      <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6, fontSize: 10, color: "#888" }}>
+        荷重（ケースの荷重 × f(t)）
+      </div>
+      {th.loads.map(ld => (
+        <div key={ld.id} style={{ display: "flex", flexDirection: "column", gap: 3 }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            <select value={ld.caseId} style={{ ...SELECT_STYLE, flex: 1 }}
+              onChange={e => setLoad(ld.id, { caseId: e.target.value })}>
+              {!loadCases.some(lc => lc.id === ld.caseId) && <option value={ld.caseId}>（削除されたケース）</option>}
+              {loadCases.map(lc => <option key={lc.id} value={lc.id}>{lc.name}</option>)}
+            </select>
+            <button style={ICON_BTN_STYLE} title="荷重を削除"
+              onClick={() => setTimeHistorySettings(prev => ({ ...prev, loads: prev.loads.filter(l => l.id !== ld.id) }))}>✕</button>
+          </div>
+          <TimeFunctionEditor fn={ld.fn} onChange={fn => setLoad(ld.id, { fn })} />
+        </div>
+      ))}
+      <button style={ADD_BTN_STYLE}
+        onClick={() => setTimeHistorySettings(prev => ({
+          ...prev, loads: [...prev.loads, { id: uid("TH"), caseId: activeCaseId, fn: DEFAULT_FUNCTIONS.pulse }],
+        }))}>+ 荷重</button>
+
+      {/* ── 地動加速度 ── */}
+      <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 10, color: "#888",
+        borderTop: "1px solid #2a2a3a", paddingTop: 6 }}>
+        <input type="checkbox" checked={!!th.ground}
+          onChange={e => setTimeHistorySettings(prev => e.target.checked
+            ? { ...prev, ground: { angleDeg: -90, fn: DEFAULT_FUNCTIONS.harmonic } }
+            : { ...prev, ground: undefined })} />
+        地動加速度（支点に一様）
+      </label>
+      {th.ground && <>
+        <Field label="向き [°]（-90 = 右）" value={th.ground.angleDeg}
+          onCommit={v => setTimeHistorySettings(prev => prev.ground ? { ...prev, ground: { ...prev.ground, angleDeg: v } } : prev)} />
+        <TimeFunctionEditor fn={th.ground.fn}
+          onChange={fn => setTimeHistorySettings(prev => prev.ground ? { ...prev, ground: { ...prev.ground, fn } } : prev)} />
+      </>}
+
+      {/* ── 結果 ── */}
+      {history && (
+        <div style={{ borderTop: "1px solid #2a2a3a", paddingTop: 6, display: "flex", flexDirection: "column", gap: 4 }}>
+          {history.ok === false ? (
+            <div style={{ fontSize: 10, color: "#666" }}>{history.message}</div>
+          ) : (
+            <>
+              <div style={{ fontSize: 10, color: "#888" }}>
+                {history.steps} ステップ・{history.frames.length} コマ（α = {history.rayleigh.alpha.toPrecision(3)}, β = {history.rayleigh.beta.toPrecision(3)}）
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                <button style={{ ...ICON_BTN_STYLE, color: CURSOR_COLOR, fontSize: 13 }}
+                  title={playing ? "停止" : "再生"}
+                  onClick={() => { if (timeFrame === null) setTimeFrame(0); setPlaying(!playing); }}>
+                  {playing ? "■" : "▶"}
+                </button>
+                <input type="range" min={0} max={history.frames.length - 1} step={1}
+                  value={frameIndex ?? 0}
+                  onChange={e => { setPlaying(false); setTimeFrame(Number(e.target.value)); }}
+                  style={{ flex: 1, accentColor: CURSOR_COLOR }} />
+                <button style={ICON_BTN_STYLE} title="荷重ケースの結果の表示に戻す"
+                  onClick={() => { setPlaying(false); setTimeFrame(null); }}>✕</button>
+              </div>
+              <div style={{ fontSize: 10, color: frameIndex !== null ? CURSOR_COLOR : "#666" }}>
+                {frameIndex !== null
+                  ? `t = ${history.frames[frameIndex].time.toPrecision(4)} s`
+                  : "スライダーでコマを表示"}
+              </div>
+
+              {/* 履歴グラフ */}
+              {target === null ? (
+                <div style={{ fontSize: 10, color: "#555" }}>節点か部材を選択すると履歴を表示します</div>
+              ) : (
+                <>
+                  <div style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 10, color: "#888" }}>
+                    <span style={{ flex: 1 }}>{target.kind === "node" ? "節点" : "部材"} {target.id}</span>
+                    {target.kind === "node" ? (
+                      <select value={nodeQty} style={SELECT_STYLE}
+                        onChange={e => setNodeQty(e.target.value as NodeHistoryQuantity)}>
+                        {NODE_QUANTITIES.map(q => <option key={q.key} value={q.key}>{q.label}</option>)}
+                      </select>
+                    ) : (
+                      <select value={memberQty} style={SELECT_STYLE}
+                        onChange={e => setMemberQty(e.target.value as MemberHistoryQuantity)}>
+                        {MEMBER_QUANTITIES.map(q => <option key={q.key} value={q.key}>{q.label}</option>)}
+                      </select>
+                    )}
+                  </div>
+                  {series
+                    ? <HistoryPlot series={series} cursor={frameIndex !== null ? history.frames[frameIndex].time : null} />
+                    : <div style={{ fontSize: 10, color: "#555" }}>結果にない対象です（再解析してください）</div>}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,21 +7,61 @@ import { useAppContext } from "../contexts/AppContext";
 import { loadIconCenter } from "../hooks/usePointLoads";
 import { distLoadIconCenter } from "../hooks/useDistLoads";
 import {
-  SupportType,
   GRID_RANGE, GRID,
   BLUE, WHITE, YELLOW,
   START_MARKER_RADIUS,
+  MemberReleases, SupportType, DistLoadBasis,
 } from "../types";
-import { bulgeToSvgPath } from "../utils/curveUtils";
+import { bulgeToSvgPath, pointOnArcAt, arcNormalAt, arcTangentAt } from "../utils/curveUtils";
+import { memberBulge } from "../hooks/useMemberLoads";
+import { supportTypeOfMode } from "../hooks/useSupports";
 
 import pinSvgText        from "../assets/icons/pin.svg?raw";
 import rollerSvgText     from "../assets/icons/roller.svg?raw";
 import fixSvgText        from "../assets/icons/fix.svg?raw";
+import springSvgText     from "../assets/icons/spring.svg?raw";
 import jointSvgText      from "../assets/icons/joint.svg?raw";
 import loadSvgText       from "../assets/icons/load.svg?raw";
 import oneDistLoadSvgText from "../assets/icons/onedistload.svg?raw";
 import momentSvgText      from "../assets/icons/moment.svg?raw";
 
+/** アクティブでない荷重ケースの荷重アイコンの不透明度 */
+const INACTIVE_CASE_OPACITY = 0.3;
+
+/** 部材途中の集中荷重アイコンの載荷点からのオフセット（節点の集中荷重と同じ） */
+const MEMBER_LOAD_OFFSET = 20;
+
+/** 分布荷重の強度の基準のラベル（部材長あたりは表示しない）と、矢印の先からの距離 */
+const DIST_BASIS_LABELS: Record<DistLoadBasis, string> = {
+  length:     "",
+  horizontal: "per x-proj",
+  vertical:   "per y-proj",
+  normal:     "normal",
+  tangent:    "tangent",
+};
+const DIST_BASIS_LABEL_GAP = 10;
+
+/** 温度荷重の記号（温度計と値のラベル）の部材からの距離と、同じ部材に複数あるときの間隔 */
+const THERMAL_OFFSET = 24;
+const THERMAL_STEP   = 34;
+/** 温度上昇・下降の色。温度差がある部材は上面（−v 側）に沿って破線を引く */
+const THERMAL_HOT  = "#ff7043";
+const THERMAL_COLD = "#4fc3f7";
+const THERMAL_EDGE_OFFSET = 6;
+
+/** 部材端の解放記号（白抜き円）の半径と、節点からの距離 */
+const RELEASE_RADIUS = 4;
+const RELEASE_OFFSET = 10;
+const TRUSS_RELEASES: MemberReleases = { a: { moment: true }, b: { moment: true } };
+
+/** 支点種別ごとのアイコン */
+const SUPPORT_ICONS: Record<SupportType, string> = {
+  pin:    pinSvgText,
+  roller: rollerSvgText,
+  fix:    fixSvgText,
+  spring: springSvgText,
+};
+
 interface Props {
   getWorldPointer: () => { x: number; y: number } | null;
   draft:         number[] | null;
@@ -33,13 +73,16 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
   const {
     mode, pointer,
     nodes, members, nodeById,
-    sel, setSel, selBox, selectedSet, clearBox,
+    sel, setSel, selectItem, selBox, selectedSet, clearBox,
     supports, rotDrag, startRotDrag,
     toggleSupportWithExclusion,
     joints, toggleJoint,
     pointLoads, loadRotDrag, startLoadRotDrag,
     distLoads, distRotDrag, startDistRotDrag,
     momentLoads, flipMomentLoad,
+    memberPointLoads, startMemberLoadDrag, flipMemberMoment,
+    thermalLoads,
+    activeCaseId, setHoveredMemberId,
     selectedNodeId, startDrag,
     arcPreview, arcState,
   } = useAppContext();
@@ -83,7 +126,7 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
         const n = nodeById.get(s.nodeId);
         if (!n) return null;
         const isSel   = sel.kind === "supports" && sel.ids.includes(s.id);
-        const svgText = s.type === "pin" ? pinSvgText : s.type === "roller" ? rollerSvgText : fixSvgText;
+        const svgText = SUPPORT_ICONS[s.type];
         const size    = s.type === "fix" ? 60 : 36;
         const d       = s.type === "fix" ? 5  : 12;
         const rad     = ((s.angleDeg + 90) * Math.PI) / 180;
@@ -98,19 +141,17 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
             rotation={s.angleDeg}
             offsetX={size / 2} offsetY={size / 2}
             onMouseDown={(ev: Konva.KonvaEventObject<MouseEvent>) => {
-              const isSupportMode = mode === "supportPin" || mode === "supportRoller" || mode === "supportFix";
-              if (mode !== "select" && !isSupportMode) return;
+              const supportType = supportTypeOfMode(mode);
+              if (mode !== "select" && !supportType) return;
               ev.cancelBubble = true;
-              if (isSupportMode) {
-                const supportType: SupportType =
-                  mode === "supportPin" ? "pin" : mode === "supportRoller" ? "roller" : "fix";
+              if (supportType) {
                 if (s.type !== supportType) {
                   toggleSupportWithExclusion(s.nodeId, supportType);
                   setSel({ kind: "none" });
                   return;
                 }
               }
-              setSel({ kind: "supports", ids: [s.id] });
+              selectItem("supports", s.id, ev.evt.shiftKey);
               clearBox();
             }}
           />
@@ -127,9 +168,12 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
         const onMouseDown = (ev: Konva.KonvaEventObject<MouseEvent>) => {
           if (mode !== "select") return;
           ev.cancelBubble = true;
-          setSel({ kind: "members", ids: [m.id] });
+          selectItem("members", m.id, ev.evt.shiftKey);
           clearBox();
         };
+        // ホバー中の部材（包絡表示で支配組合せを示すのに使う）
+        const onMouseEnter = () => setHoveredMemberId(m.id);
+        const onMouseLeave = () => setHoveredMemberId(null);
 
         if (m.curve?.type === "arc") {
           const path = bulgeToSvgPath(a.x, a.y, b.x, b.y, m.curve.bulge);
@@ -142,6 +186,8 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
               fillEnabled={false}
               hitStrokeWidth={12}
               onMouseDown={onMouseDown}
+              onMouseEnter={onMouseEnter}
+              onMouseLeave={onMouseLeave}
             />
           );
         }
@@ -154,10 +200,43 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
             strokeWidth={strokeWidth}
             hitStrokeWidth={12}
             onMouseDown={onMouseDown}
+            onMouseEnter={onMouseEnter}
+            onMouseLeave={onMouseLeave}
           />
         );
       })}
 
+      {/* 部材端の解放（材端付近の白抜き円。軸・せん断の解放は記号を添える。トラス材は両端ピン） */}
+      {members.flatMap((m) => {
+        const a = nodeById.get(m.a), b = nodeById.get(m.b);
+        const releases = m.kind === "truss" ? TRUSS_RELEASES : m.releases;
+        if (!a || !b || !releases) return [];
+        const len = Math.hypot(b.x - a.x, b.y - a.y);
+        if (len < 1e-9) return [];
+        const off = Math.min(0.3, RELEASE_OFFSET / len);
+        return (["a", "b"] as const).map((end) => {
+          const rel = releases[end];
+          if (!rel || !(rel.moment || rel.axial || rel.shear)) return null;
+          const p = pointOnArcAt(a.x, a.y, b.x, b.y, memberBulge(m), end === "a" ? off : 1 - off);
+          const tag = `${rel.axial ? "N" : ""}${rel.shear ? "Q" : ""}`;
+          return (
+            <React.Fragment key={`${m.id}-rel-${end}`}>
+              <Circle
+                x={p.x} y={p.y} radius={RELEASE_RADIUS}
+                fill="#242424" stroke={WHITE} strokeWidth={1.5}
+                listening={false}
+              />
+              {tag && (
+                <Text
+                  x={p.x + RELEASE_RADIUS + 2} y={p.y - RELEASE_RADIUS - 10}
+                  text={tag} fontSize={10} fill={WHITE} listening={false}
+                />
+              )}
+            </React.Fragment>
+          );
+        });
+      })}
+
       {/* ジョイント */}
       {joints.map((j) => {
         const n = nodeById.get(j.nodeId);
@@ -177,7 +256,7 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
             onMouseDown={(ev: Konva.KonvaEventObject<MouseEvent>) => {
               if (mode !== "select" && mode !== "joint") return;
               ev.cancelBubble = true;
-              setSel({ kind: "joints", ids: [j.id] });
+              selectItem("joints", j.id, ev.evt.shiftKey);
               clearBox();
             }}
           />
@@ -218,18 +297,33 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
         const a = nodeById.get(m.a), b = nodeById.get(m.b);
         if (!a || !b) return null;
         const isSel = sel.kind === "distLoads" && sel.ids.includes(l.id);
-        const dx = b.x - a.x, dy = b.y - a.y;
-        const len = Math.hypot(dx, dy);
+        const opacity = l.caseId === activeCaseId ? 1 : INACTIVE_CASE_OPACITY;
+        const len = Math.hypot(b.x - a.x, b.y - a.y);
         if (len === 0) return null;
+        const bulge = memberBulge(m);
+        const basis = l.basis ?? "length";
         const ARROW_SPACING = 25;
-        const size  = 30;
-        const count = Math.max(2, Math.floor(len / ARROW_SPACING));
+        const MAX_SIZE = 30, MIN_SIZE = 8;
+        // 矢印の向き: normal / tangent は部材（円弧は各点の接線）に直交・平行、それ以外は angleDeg
+        const angleAt = (t: number) => {
+          if (basis !== "normal" && basis !== "tangent") return l.angleDeg;
+          const tan = arcTangentAt(a.x, a.y, b.x, b.y, bulge, t);
+          const d   = basis === "normal" ? { x: -tan.y, y: tan.x } : tan;
+          return Math.atan2(-d.x, d.y) * 180 / Math.PI;
+        };
+        // 載荷範囲のみに矢印を並べ、台形・三角形分布は強度に比例した長さで描く
+        const span  = l.endRatio - l.startRatio;
+        const count = Math.max(2, Math.floor(len * span / ARROW_SPACING));
+        const wMax  = Math.max(Math.abs(l.magnitude), Math.abs(l.magnitudeEnd)) || 1;
         const icons: JSX.Element[] = [];
         for (let i = 0; i <= count; i++) {
-          const t  = i / count;
-          const px = a.x + t * dx;
-          const py = a.y + t * dy;
-          const { cx, cy } = distLoadIconCenter(px, py, l.angleDeg, size / 2);
+          const k  = i / count;
+          const t  = l.startRatio + k * span;
+          const w  = l.magnitude + (l.magnitudeEnd - l.magnitude) * k;
+          const size = MIN_SIZE + (MAX_SIZE - MIN_SIZE) * Math.abs(w) / wMax;
+          const rot  = w < 0 ? angleAt(t) + 180 : angleAt(t);
+          const { x: px, y: py } = pointOnArcAt(a.x, a.y, b.x, b.y, bulge, t);
+          const { cx, cy } = distLoadIconCenter(px, py, rot, size / 2);
           icons.push(
             <SvgIconShape
               key={i}
@@ -237,25 +331,43 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
               x={cx} y={cy}
               w={size} h={size}
               stroke={isSel ? BLUE : WHITE}
-              rotation={l.angleDeg}
+              opacity={opacity}
+              rotation={rot}
               offsetX={size / 2} offsetY={size / 2}
               listening={mode === "select" || mode === "distLoad"}
               onMouseDown={(ev: Konva.KonvaEventObject<MouseEvent>) => {
                 if (mode !== "select" && mode !== "distLoad") return;
                 ev.cancelBubble = true;
-                setSel({ kind: "distLoads", ids: [l.id] });
+                selectItem("distLoads", l.id, ev.evt.shiftKey);
                 clearBox();
               }}
             />
           );
         }
+        // 部材長あたり以外は強度の基準を載荷範囲の中央、矢印の根元側に書く
+        const label = DIST_BASIS_LABELS[basis];
+        if (label) {
+          const tm  = l.startRatio + span / 2;
+          const wm  = (l.magnitude + l.magnitudeEnd) / 2;
+          const rot = wm < 0 ? angleAt(tm) + 180 : angleAt(tm);
+          const pm  = pointOnArcAt(a.x, a.y, b.x, b.y, bulge, tm);
+          const { cx, cy } = distLoadIconCenter(pm.x, pm.y, rot, MAX_SIZE + DIST_BASIS_LABEL_GAP);
+          icons.push(
+            <Text
+              key="basis"
+              x={cx} y={cy} width={80} offsetX={40} offsetY={6} align="center"
+              text={label} fontSize={11} fill={isSel ? BLUE : WHITE} opacity={opacity}
+              listening={false}
+            />
+          );
+        }
         return <React.Fragment key={l.id}>{icons}</React.Fragment>;
       })}
 
-      {/* 回転ハンドル（等分布荷重選択時） */}
+      {/* 回転ハンドル（等分布荷重選択時。向きが部材で決まる normal / tangent は回せない） */}
       {sel.kind === "distLoads" && sel.ids.length === 1 && (() => {
         const l = distLoads.find(v => v.id === sel.ids[0]);
-        if (!l) return null;
+        if (!l || l.basis === "normal" || l.basis === "tangent") return null;
         const m = members.find((m) => m.id === l.memberId);
         if (!m) return null;
         const a = nodeById.get(m.a), b = nodeById.get(m.b);
@@ -286,6 +398,7 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
         const n = nodeById.get(l.nodeId);
         if (!n) return null;
         const isSel = sel.kind === "loads" && sel.ids.includes(l.id);
+        const opacity = l.caseId === activeCaseId ? 1 : INACTIVE_CASE_OPACITY;
         const size  = 45;
         const { cx, cy } = loadIconCenter(n, l.angleDeg, l.offsetDist);
         return (
@@ -295,13 +408,14 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
             x={cx} y={cy}
             w={size} h={size}
             stroke={isSel ? BLUE : WHITE}
+            opacity={opacity}
             rotation={l.angleDeg}
             offsetX={size / 2} offsetY={size / 2}
             listening={mode === "select" || mode === "load"}
             onMouseDown={(ev: Konva.KonvaEventObject<MouseEvent>) => {
               if (mode !== "select" && mode !== "load") return;
               ev.cancelBubble = true;
-              setSel({ kind: "loads", ids: [l.id] });
+              selectItem("loads", l.id, ev.evt.shiftKey);
               clearBox();
             }}
           />
@@ -341,6 +455,7 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
         const n = nodeById.get(l.nodeId);
         if (!n) return null;
         const isSel = sel.kind === "momentLoads" && sel.ids.includes(l.id);
+        const opacity = l.caseId === activeCaseId ? 1 : INACTIVE_CASE_OPACITY;
         const size  = 45;
         return (
           <SvgIconShape
@@ -349,13 +464,14 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
             x={n.x} y={n.y}
             w={size} h={size}
             stroke={isSel ? BLUE : WHITE}
+            opacity={opacity}
             scaleX={l.clockwise ? -1 : 1}
             offsetX={size / 2} offsetY={size / 2}
             listening={mode === "select" || mode === "momentLoad"}
             onMouseDown={(ev: Konva.KonvaEventObject<MouseEvent>) => {
               if (mode !== "select" && mode !== "momentLoad") return;
               ev.cancelBubble = true;
-              setSel({ kind: "momentLoads", ids: [l.id] });
+              selectItem("momentLoads", l.id, ev.evt.shiftKey);
               clearBox();
             }}
           />
@@ -400,6 +516,149 @@ export function WorldLayer({ getWorldPointer, draft, draftPolyline, startMarker
         );
       })()}
 
+      {/* 部材途中の集中荷重・集中モーメント（ドラッグで部材に沿って移動） */}
+      {memberPointLoads.map((l) => {
+        const m = members.find(v => v.id === l.memberId);
+        if (!m) return null;
+        const a = nodeById.get(m.a), b = nodeById.get(m.b);
+        if (!a || !b) return null;
+        const p = pointOnArcAt(a.x, a.y, b.x, b.y, memberBulge(m), l.ratio);
+        const isSel = sel.kind === "memberLoads" && sel.ids.includes(l.id);
+        const opacity = l.caseId === activeCaseId ? 1 : INACTIVE_CASE_OPACITY;
+        const size  = 45;
+        const canEdit = mode === "select" || mode === "load" || mode === "momentLoad";
+        const onDown = (ev: Konva.KonvaEventObject<MouseEvent>) => {
+          if (!canEdit) return;
+          ev.cancelBubble = true;
+          selectItem("memberLoads", l.id, ev.evt.shiftKey);
+          if (!ev.evt.shiftKey) startMemberLoadDrag(l.id);
+          clearBox();
+        };
+        const { cx, cy } = l.kind === "force"
+          ? distLoadIconCenter(p.x, p.y, l.angleDeg, MEMBER_LOAD_OFFSET)
+          : { cx: p.x, cy: p.y };
+        return (
+          <React.Fragment key={l.id}>
+            <SvgIconShape
+              svgText={l.kind === "force" ? loadSvgText : momentSvgText}
+              x={cx} y={cy}
+              w={size} h={size}
+              stroke={isSel ? BLUE : WHITE}
+              opacity={opacity}
+              rotation={l.kind === "force" ? l.angleDeg : 0}
+              scaleX={l.kind === "moment" && l.clockwise ? -1 : 1}
+              offsetX={size / 2} offsetY={size / 2}
+              listening={canEdit}
+              onMouseDown={onDown}
+            />
+            {/* 載荷点マーカー（ここを掴んでも移動できる） */}
+            <Circle
+              x={p.x} y={p.y} radius={4}
+              fill={isSel ? YELLOW : WHITE} opacity={opacity}
+              listening={canEdit}
+              onMouseDown={onDown}
+            />
+            {isSel && sel.ids.length === 1 && (
+              <Text
+                x={p.x + 8} y={p.y + 6}
+                text={`${Math.round(l.ratio * 1000) / 1000}`}
+                fontSize={11} fill={YELLOW} listening={false}
+              />
+            )}
+          </React.Fragment>
+        );
+      })}
+
+      {/* 反転ボタン（部材途中のモーメント選択時） */}
+      {sel.kind === "memberLoads" && sel.ids.length === 1 && (() => {
+        const l = memberPointLoads.find(v => v.id === sel.ids[0]);
+        if (!l || l.kind !== "moment") return null;
+        const m = members.find(v => v.id === l.memberId);
+        if (!m) return null;
+        const a = nodeById.get(m.a), b = nodeById.get(m.b);
+        if (!a || !b) return null;
+        const p = pointOnArcAt(a.x, a.y, b.x, b.y, memberBulge(m), l.ratio);
+        const btnX = p.x, btnY = p.y - 38;
+        return (
+          <>
+            <Circle
+              x={btnX} y={btnY} radius={10}
+              fill={YELLOW} opacity={0.9}
+              onMouseDown={(ev: Konva.KonvaEventObject<MouseEvent>) => {
+                ev.cancelBubble = true;
+                flipMemberMoment(l.id);
+              }}
+            />
+            <Text
+              x={btnX} y={btnY}
+              text={l.clockwise ? "↺" : "↻"}
+              fontSize={13} fill="#111" fontStyle="bold"
+              offsetX={6} offsetY={7}
+              listening={false}
+            />
+          </>
+        );
+      })()}
+
+      {/* 温度荷重: 部材中央の上面側に温度計と ΔT のラベル、温度差は上面に沿った破線 */}
+      {thermalLoads.map((l) => {
+        const m = members.find(v => v.id === l.memberId);
+        if (!m) return null;
+        const a = nodeById.get(m.a), b = nodeById.get(m.b);
+        if (!a || !b) return null;
+        const bulge = memberBulge(m);
+        const isSel   = sel.kind === "thermalLoads" && sel.ids.includes(l.id);
+        const opacity = l.caseId === activeCaseId ? 1 : INACTIVE_CASE_OPACITY;
+        const canEdit = mode === "select";
+        const onDown = (ev: Konva.KonvaEventObject<MouseEvent>) => {
+          if (!canEdit) return;
+          ev.cancelBubble = true;
+          selectItem("thermalLoads", l.id, ev.evt.shiftKey);
+          clearBox();
+        };
+        const tone  = (v: number) => v > 0 ? THERMAL_HOT : v < 0 ? THERMAL_COLD : WHITE;
+        const round = (v: number) => Math.round(v * 100) / 100;
+        // 同じ部材の温度荷重は上面側へ順に積む
+        const k = thermalLoads.filter(v => v.memberId === l.memberId).findIndex(v => v.id === l.id);
+        const p = pointOnArcAt(a.x, a.y, b.x, b.y, bulge, 0.5);
+        const n = arcNormalAt(a.x, a.y, b.x, b.y, bulge, 0.5);
+        const d = THERMAL_OFFSET + k * THERMAL_STEP;
+        const cx = p.x - n.x * d, cy = p.y - n.y * d;
+        const lines = [`ΔT ${round(l.uniform)}`, ...(l.gradient !== 0 ? [`top-bot ${round(l.gradient)}`] : [])];
+        const W = 74, H = lines.length * 13 + 4;
+        const edge = l.gradient !== 0 && k === 0
+          ? Array.from({ length: 17 }, (_, i) => {
+              const t  = i / 16;
+              const q  = pointOnArcAt(a.x, a.y, b.x, b.y, bulge, t);
+              const nq = arcNormalAt(a.x, a.y, b.x, b.y, bulge, t);
+              return [q.x - nq.x * THERMAL_EDGE_OFFSET, q.y - nq.y * THERMAL_EDGE_OFFSET];
+            }).flat()
+          : null;
+        return (
+          <React.Fragment key={l.id}>
+            {edge && (
+              <Line points={edge} stroke={tone(l.gradient)} strokeWidth={2} dash={[6, 4]} opacity={opacity} listening={false} />
+            )}
+            <Rect
+              x={cx - W / 2} y={cy - H / 2} width={W} height={H} cornerRadius={3}
+              fill="#111" stroke={isSel ? BLUE : tone(l.uniform)} strokeWidth={isSel ? 2 : 1}
+              opacity={opacity} listening={canEdit} onMouseDown={onDown}
+            />
+            {/* 温度計（球部と管） */}
+            <Line
+              points={[cx - W / 2 + 8, cy - H / 2 + 3, cx - W / 2 + 8, cy + H / 2 - 7]}
+              stroke={tone(l.uniform)} strokeWidth={2} lineCap="round" opacity={opacity} listening={false}
+            />
+            <Circle x={cx - W / 2 + 8} y={cy + H / 2 - 5} radius={3} fill={tone(l.uniform)} opacity={opacity} listening={false} />
+            <Text
+              x={cx - W / 2 + 14} y={cy - H / 2 + 3} width={W - 16}
+              text={lines.join("\n")} fontSize={11} lineHeight={13 / 11}
+              fill={isSel ? BLUE : WHITE} opacity={opacity} listening={false}
+            />
+          </React.Fragment>
+        );
+      })}
+
       {/* 選択ボックス */}
       {mode === "select" && selBox && (
         <Rect
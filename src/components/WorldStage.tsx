@@ -5,8 +5,10 @@ import { useMemo } from "react";
 import { WorldLayer } from "./WorldLayer";
 import { useAppContext } from "../contexts/AppContext";
 import { snap, projectPointOnSegment, nearestGridIntersectionOnSegment } from "../utils/geometry";
-import { bulgeToArc } from "../utils/curveUtils";
-import { SupportType, SIDEBAR_W, ZOOM_SCALE_FACTOR, DBL_MS, DBL_DIST } from "../types";
+import { bulgeToArc, projectOnArc } from "../utils/curveUtils";
+import { memberBulge } from "../hooks/useMemberLoads";
+import { supportTypeOfMode } from "../hooks/useSupports";
+import { SIDEBAR_W, ZOOM_SCALE_FACTOR, DBL_MS, DBL_DIST } from "../types";
 import { useRef } from "react";
 import { DiagramLayer } from "./DiagramLayer";
 
@@ -25,6 +27,7 @@ export function WorldStage() {
     pointLoads, loadRotDrag, updateLoadRotDrag, endLoadRotDrag, addPointLoad,
     distLoads, distRotDrag, updateDistRotDrag, endDistRotDrag, toggleDistLoad,
     momentLoads, addMomentLoad,
+    memberLoadDrag, updateMemberLoadDrag, endMemberLoadDrag, addMemberLoad,
     selectedNodeId, nodeDrag, selectNode, startDrag, endDrag,
     transferSupport, transferJoint, transferLoad,
     spaceDown, shiftDown,
@@ -80,6 +83,19 @@ export function WorldStage() {
   }, [mode, drawPathIds, nodeById]);
 
   // Shift+クリックでメンバー線上の最近傍交点を探すヘルパー
+  /** ポインタに最も近い部材とその上の位置（弧長比 t）。HIT 以内になければ null */
+  function findMemberPosition(px: number, py: number): { memberId: string; t: number } | null {
+    const HIT = 12;
+    let best: { memberId: string; t: number; dist: number } | null = null;
+    for (const m of members) {
+      const a = nodeById.get(m.a), b = nodeById.get(m.b);
+      if (!a || !b) continue;
+      const p = projectOnArc(px, py, a.x, a.y, b.x, b.y, memberBulge(m));
+      if (p.dist < HIT && (!best || p.dist < best.dist)) best = { memberId: m.id, t: p.t, dist: p.dist };
+    }
+    return best && { memberId: best.memberId, t: best.t };
+  }
+
   function findBestIntersection() {
     let bestDist = Infinity;
     let bestMemberId: string | null = null;
@@ -149,6 +165,7 @@ export function WorldStage() {
           if (rotDrag)     { updateRotDrag(wp.x, wp.y, shiftDown); return; }
           if (loadRotDrag) { updateLoadRotDrag(wp.x, wp.y, shiftDown); return; }
           if (distRotDrag)   { updateDistRotDrag(wp.x, wp.y, shiftDown); return; }
+          if (memberLoadDrag) { updateMemberLoadDrag(wp.x, wp.y, shiftDown); return; }
           if (mode === "nodeEdit" && nodeDrag) {
             moveNode(nodeDrag.nodeId, snap(wp.x - nodeDrag.offsetX), snap(wp.y - nodeDrag.offsetY), true);
             return;
@@ -217,9 +234,8 @@ export function WorldStage() {
           }
 
           // support
-          if (mode === "supportPin" || mode === "supportRoller" || mode === "supportFix") {
-            const supportType: SupportType =
-              mode === "supportPin" ? "pin" : mode === "supportRoller" ? "roller" : "fix";
+          const supportType = supportTypeOfMode(mode);
+          if (supportType) {
             const nearby = findNearbyNode(wp.x, wp.y);
             if (!nearby) return;
             const existingSupport = supports.find((s) => s.nodeId === nearby.id);
@@ -263,7 +279,12 @@ export function WorldStage() {
               if (newNodeId) addPointLoad(newNodeId);
             } else {
               const nearby = findNearbyNode(wp.x, wp.y);
-              if (!nearby) return;
+              if (!nearby) {
+                // ノード以外の部材上: 部材途中の集中荷重
+                const hit = findMemberPosition(wp.x, wp.y);
+                if (hit) setSel({ kind: "memberLoads", ids: [addMemberLoad(hit.memberId, hit.t, "force")] });
+                return;
+              }
               const existingLoad = pointLoads.find((l) => l.nodeId === nearby.id);
               if (existingLoad) {
                 setSel({ kind: "loads", ids: [existingLoad.id] });
@@ -285,7 +306,11 @@ export function WorldStage() {
               if (newNodeId) addMomentLoad(newNodeId);
             } else {
               const nearby = findNearbyNode(wp.x, wp.y);
-              if (!nearby) return;
+              if (!nearby) {
+                const hit = findMemberPosition(wp.x, wp.y);
+                if (hit) setSel({ kind: "memberLoads", ids: [addMemberLoad(hit.memberId, hit.t, "moment")] });
+                return;
+              }
               const existingLoad = momentLoads.find((l) => l.nodeId === nearby.id);
               if (existingLoad) {
                 setSel({ kind: "momentLoads", ids: [existingLoad.id] });
@@ -334,6 +359,7 @@ export function WorldStage() {
           if (rotDrag)     { endRotDrag();     return; }
           if (loadRotDrag) { endLoadRotDrag(); return; }
           if (distRotDrag)   { endDistRotDrag();   return; }
+          if (memberLoadDrag) { endMemberLoadDrag(); return; }
           if (mode === "nodeEdit" && nodeDrag) {
             const draggedId = nodeDrag.nodeId;
             const dragged   = nodeById.get(draggedId);
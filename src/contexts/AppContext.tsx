@@ -1,40 +1,58 @@
-import { createContext, useContext, useRef, useState, useCallback, useEffect, RefObject } from "react";
+import { createContext, useContext, useRef, useState, useCallback, useEffect, useMemo, RefObject } from "react";
 import Konva from "konva";
 
 import { useWindowSize, useLatest } from "../hooks/useUtils";
-import { useDrawLine }  from "../hooks/useDrawLine";
+import { useDrawLine } from "../hooks/useDrawLine";
 import { useDrawArc }   from "../hooks/useDrawArc";
 import { useSupports }  from "../hooks/useSupports";
 import { useJoints }    from "../hooks/useJoints";
 import { usePointLoads } from "../hooks/usePointLoads";
 import { useDistLoads }  from "../hooks/useDistLoads";
 import { useMomentLoads } from "../hooks/useMomentLoads";
+import { useMemberLoads } from "../hooks/useMemberLoads";
+import { useThermalLoads } from "../hooks/useThermalLoads";
 import { useNodeEdit }   from "../hooks/useNodeEdit";
 import { useSelection }  from "../hooks/useSelection";
 import { useMode }       from "../hooks/useMode";
 import { useKeyboard }   from "../hooks/useKeyboard";
 import { useFem }        from "../hooks/useFem";
-import { SupportType } from "../types";
-import { uid } from "../utils/geometry";
+import { useHistory }    from "../hooks/useHistory";
+import { useSections }   from "../hooks/useSections";
+import { useLoadCases }  from "../hooks/useLoadCases";
+import { SupportType, SupportSettlement, EndRelease, MemberReleases, MemberKind } from "../types";
+import { ModelState, downloadProject, pickProjectFile, parseProject } from "../utils/project";
 
 // ===== Context の型 =====
 type AppContextValue = ReturnType<typeof useAppContextValue> & {
   stageRef: RefObject<Konva.Stage>;
 };
 
+/** ライブ解析で解き直す最短の間隔 [ms] */
+const LIVE_INTERVAL_MS = 120;
+
+/** fn の前に before を呼ぶ関数を作る（ドラッグ開始・終了をトランザクションで囲むため） */
+function useBefore<A extends unknown[], R>(fn: (...args: A) => R, before: () => void) {
+  return useCallback((...args: A): R => { before(); return fn(...args); }, [fn, before]);
+}
+
 // ===== フック・ロジックをまとめる関数 =====
 function useAppContextValue() {
   const { w: W, h: H } = useWindowSize();
   const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const [hoveredMemberId, setHoveredMemberId] = useState<string | null>(null);
 
   // ----- 描画 -----
   const {
     nodes, members, setMembers,
     drawPathIds, nodeById, findNearbyNode,
     addPoint, commitPath, resetPath, removeNodes,
-    splitMember, deleteNode, moveNode, mergeNode,
-    addArcMember,
-  } = useDrawLine();
+    splitMember, deleteNode, moveNode, mergeNode, setNodeMass,
+    addArcMember, replaceGeometry,
+  } = useDrawLine((change) => {
+    // 分割・統合・削除で置き換わった部材に載る荷重を移す（荷重のフックは下で作る）
+    remapMemberLoads(change);
+    remapThermalLoads(change);
+  });
 
   const membersRef  = useLatest(members);
   const nodeByIdRef = useLatest(nodeById);
@@ -53,7 +71,7 @@ function useAppContextValue() {
 
   // ----- 選択 -----
   const {
-    sel, setSel,
+    sel, setSel, selectItem,
     boxStart, selBox, selectedSet,
     startBox, updateBox, clearBox,
     commitSelBoxFromCurrent,
@@ -65,7 +83,7 @@ function useAppContextValue() {
   // ----- ノード編集 -----
   const {
     selectedNodeId, nodeDrag,
-    selectNode, startDrag, endDrag,
+    selectNode, startDrag: startNodeDrag, endDrag: endNodeDrag,
   } = useNodeEdit();
 
   // ----- 支点 -----
@@ -73,13 +91,18 @@ function useAppContextValue() {
     supports,
     rotDrag,
     toggleSupport,
-    startRotDrag,
+    startRotDrag:  startSupportRotDrag,
     updateRotDrag,
-    endRotDrag,
+    endRotDrag:    endSupportRotDrag,
     rotateByKey,
     removeSupports,
     removeByNodeIds: removeSupportsByNodeIds,
     transferToNode:  transferSupport,
+    updateSupports,
+    updateSupportSprings,
+    updateSupportSettlements: updateSettlementsInCase,
+    removeSettlementsInCase,
+    replaceSupports,
   } = useSupports(nodeById);
 
   // ----- ジョイント -----
@@ -91,70 +114,311 @@ function useAppContextValue() {
     removeByNodeId:  removeJointByNodeId,
     removeJoints,
     transferToNode:  transferJoint,
+    replaceJoints,
   } = useJoints();
 
   // ----- 集中荷重 -----
   const {
     pointLoads,
     rotDrag: loadRotDrag,
-    addPointLoad,
-    startRotDrag:  startLoadRotDrag,
+    addPointLoad: addPointLoadInCase,
+    startRotDrag:  startPointLoadRotDrag,
     updateRotDrag: updateLoadRotDrag,
-    endRotDrag:    endLoadRotDrag,
+    endRotDrag:    endPointLoadRotDrag,
     rotateByKey:   rotateLoadByKey,
     removePointLoads,
     removeByNodeIds: removeLoadsByNodeIds,
     transferToNode:  transferLoad,
+    updatePointLoads,
+    replacePointLoads,
   } = usePointLoads(nodeById);
 
   // ----- 等分布荷重 -----
   const {
     distLoads,
     rotDrag: distRotDrag,
-    toggleDistLoad,
-    startRotDrag:  startDistRotDrag,
+    toggleDistLoad: toggleDistLoadInCase,
+    startRotDrag:  startDistLoadRotDrag,
     updateRotDrag: updateDistRotDrag,
-    endRotDrag:    endDistRotDrag,
+    endRotDrag:    endDistLoadRotDrag,
     removeDistLoads,
     removeByMemberIds: removeDistLoadsByMemberIds,
+    updateDistLoads,
+    replaceDistLoads,
   } = useDistLoads();
 
   // ----- モーメント荷重 -----
   const {
     momentLoads,
-    addMomentLoad,
+    addMomentLoad: addMomentLoadInCase,
     flipMomentLoad,
     removeMomentLoads,
     removeMomentsByNodeIds,
     transferMomentToNode,
+    updateMomentLoads,
+    replaceMomentLoads,
   } = useMomentLoads(nodeById);
 
+  // ----- 部材途中の集中荷重・集中モーメント -----
+  const {
+    memberPointLoads,
+    slideDrag: memberLoadDrag,
+    addMemberLoad: addMemberLoadInCase,
+    startSlideDrag: startMemberLoadSlide,
+    updateSlideDrag: updateMemberLoadDrag,
+    endSlideDrag:   endMemberLoadSlide,
+    flipMemberMoment,
+    removeMemberLoads,
+    removeByMemberIds: removeMemberLoadsByMemberIds,
+    remapMembers: remapMemberLoads,
+    updateMemberLoads,
+    replaceMemberLoads,
+  } = useMemberLoads(members, nodeById);
+
+  // ----- 温度荷重 -----
+  const {
+    thermalLoads,
+    addThermalLoads: addThermalLoadsInCase,
+    removeThermalLoads,
+    removeByMemberIds: removeThermalLoadsByMemberIds,
+    remapMembers: remapThermalLoads,
+    sameLoads: sameThermalLoads,
+    updateThermalLoads,
+    replaceThermalLoads,
+  } = useThermalLoads();
+
+  // ----- 荷重ケース・組合せ -----
+  const {
+    loadCases, combinations,
+    activeCaseId, setActiveCaseId,
+    addLoadCase, renameLoadCase, removeLoadCase,
+    addCombination, renameCombination, setCombinationFactor, removeCombination,
+    selfWeight, setSelfWeightEnabled,
+    replaceLoadCases,
+  } = useLoadCases();
+
+  // 新しく配置する荷重はアクティブな荷重ケースに属する
+  const addPointLoad = useCallback((nodeId: string) => {
+    addPointLoadInCase(nodeId, activeCaseId);
+  }, [addPointLoadInCase, activeCaseId]);
+  const toggleDistLoad = useCallback((memberId: string) => {
+    toggleDistLoadInCase(memberId, activeCaseId);
+  }, [toggleDistLoadInCase, activeCaseId]);
+  const addMomentLoad = useCallback((nodeId: string) => {
+    addMomentLoadInCase(nodeId, activeCaseId);
+  }, [addMomentLoadInCase, activeCaseId]);
+  const addMemberLoad = useCallback((memberId: string, ratio: number, kind: "force" | "moment") =>
+    addMemberLoadInCase(memberId, ratio, kind, activeCaseId),
+  [addMemberLoadInCase, activeCaseId]);
+  const addThermalLoads = useCallback((memberIds: string[]) =>
+    addThermalLoadsInCase(memberIds, activeCaseId),
+  [addThermalLoadsInCase, activeCaseId]);
+  // 支点の強制変位も、新しく与えるときはアクティブな荷重ケースに属する
+  const updateSupportSettlements = useCallback((ids: Set<string>, patch: Partial<SupportSettlement>) =>
+    updateSettlementsInCase(ids, patch, activeCaseId),
+  [updateSettlementsInCase, activeCaseId]);
+
+  /** 荷重ケースを削除し、そのケースに属する荷重もまとめて削除する */
+  const deleteLoadCase = useCallback((caseId: string) => {
+    if (!removeLoadCase(caseId)) return;
+    removePointLoads(new Set(pointLoads.filter((l) => l.caseId === caseId).map((l) => l.id)));
+    removeDistLoads(new Set(distLoads.filter((l) => l.caseId === caseId).map((l) => l.id)));
+    removeMomentLoads(new Set(momentLoads.filter((l) => l.caseId === caseId).map((l) => l.id)));
+    removeMemberLoads(new Set(memberPointLoads.filter((l) => l.caseId === caseId).map((l) => l.id)));
+    removeThermalLoads(new Set(thermalLoads.filter((l) => l.caseId === caseId).map((l) => l.id)));
+    removeSettlementsInCase(caseId);
+    setSel({ kind: "none" });
+  }, [
+    removeLoadCase, pointLoads, distLoads, momentLoads, memberPointLoads, thermalLoads,
+    removePointLoads, removeDistLoads, removeMomentLoads, removeMemberLoads, removeThermalLoads, removeSettlementsInCase, setSel,
+  ]);
+
+  // ----- 材料・断面 -----
+  const {
+    materials, sections,
+    addMaterial, updateMaterial,
+    addSection, updateSection,
+    replaceLibrary,
+  } = useSections();
+
+  /** 選択部材に材料・断面を割り当てる */
+  const assignMemberProps = useCallback((
+    memberIds: string[],
+    patch: { materialId?: string; sectionId?: string },
+  ) => {
+    const ids = new Set(memberIds);
+    setMembers((prev) => prev.map((m) => ids.has(m.id) ? { ...m, ...patch } : m));
+  }, [setMembers]);
+
+  /**
+   * 円弧部材の bulge を一括設定する。直線部材は対象外。
+   * 作図制約（中心角 180° 以下）に合わせて |bulge| <= 1 に丸め、0 なら直線に戻す。
+   */
+  const setMemberBulge = useCallback((memberIds: string[], bulge: number) => {
+    const ids = new Set(memberIds);
+    const b   = Math.max(-1, Math.min(1, bulge));
+    setMembers((prev) => prev.map((m) => {
+      if (!ids.has(m.id) || m.curve?.type !== "arc") return m;
+      if (Math.abs(b) < 1e-9) return { ...m, curve: undefined };
+      return { ...m, curve: { type: "arc" as const, bulge: b } };
+    }));
+  }, [setMembers]);
+
+  /**
+   * 選択部材の端部の解放を一括設定する（end: a端 / b端、kind: 解放する成分）。
+   * false の成分・空の端は取り除き、解放なしの部材は releases を持たない。
+   */
+  const setMemberRelease = useCallback((
+    memberIds: string[], end: "a" | "b", kind: keyof EndRelease, value: boolean,
+  ) => {
+    const ids = new Set(memberIds);
+    setMembers((prev) => prev.map((m) => {
+      if (!ids.has(m.id)) return m;
+      const endRel: EndRelease = { ...m.releases?.[end] };
+      if (value) endRel[kind] = true;
+      else delete endRel[kind];
+      const releases: MemberReleases = { ...m.releases };
+      if (Object.keys(endRel).length > 0) releases[end] = endRel;
+      else delete releases[end];
+      const { releases: _old, ...rest } = m;
+      return Object.keys(releases).length > 0 ? { ...rest, releases } : rest;
+    }));
+  }, [setMembers]);
+
+  /**
+   * 部材種別を一括設定する。トラス材は両端ピンなので releases を外す。
+   * 円弧部材はトラス材にできないため対象外。
+   */
+  const setMemberKind = useCallback((memberIds: string[], kind: MemberKind) => {
+    const ids = new Set(memberIds);
+    setMembers((prev) => prev.map((m) => {
+      if (!ids.has(m.id)) return m;
+      const { kind: _old, releases, ...rest } = m;
+      if (kind === "frame") return releases ? { ...rest, releases } : rest;
+      return m.curve?.type === "arc" ? m : { ...rest, kind };
+    }));
+  }, [setMembers]);
+
   // ----- FEM 解析 -----
   const {
     femResult,
+    activeResult,
+    envelope,
+    movingEnvelope,
+    resultKey,
+    setResultKey,
     validation,
     isStale,
     markStale,
+    isRunning,
+    progress,
+    liveMode,
+    setLiveMode,
+    liveFailure,
+    runLiveAnalysis,
     displayFlags,
     setDisplayFlag,
     diagramScale,
     setDiagramScale,
     deformedScale,
     setDeformedScale,
+    analysisOptions,
+    setAnalysisOption,
+    modeView,
+    setModeView,
+    modeScale,
+    setModeScale,
+    animateMode,
+    setAnimateMode,
+    timeHistorySettings,
+    setTimeHistorySettings,
+    timeFrame,
+    setTimeFrame,
+    loadPath,
+    setLoadPath,
+    influenceTarget,
+    setInfluenceTarget,
+    movingLoadSettings,
+    setMovingLoadSettings,
+    trainView,
+    setTrainView,
     runAnalysis,
+    cancelAnalysis,
     clearResult,
   } = useFem();
 
-  // モデルが変更されたら結果を古い状態にマーク
+  // 現在のモデル全体（解析・保存の入力）
+  const modelState = useMemo<ModelState>(() => ({
+    nodes, members, supports, joints, pointLoads, distLoads, momentLoads, memberPointLoads, thermalLoads, materials, sections,
+    loadCases, combinations, selfWeight,
+  }), [
+    nodes, members, supports, joints, pointLoads, distLoads, momentLoads, memberPointLoads, thermalLoads, materials, sections,
+    loadCases, combinations, selfWeight,
+  ]);
+
+  // モデルが変更されたら結果を古い状態にマーク（解析中なら中止）
   useEffect(() => {
-    if (femResult !== null) markStale();
+    if (femResult !== null || isRunning) markStale();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [nodes, members, supports, joints, pointLoads, distLoads, momentLoads]);
+  }, [modelState]);
+
+  // ライブ解析: モデルが変わったら解き直す。ドラッグ中の連続した変更はまとめ、
+  // 前回の実行から LIVE_INTERVAL_MS 経つまで待つ（変更が続いていてもその間隔で図が更新される）
+  const liveLastRun = useRef(0);
+  useEffect(() => {
+    if (!liveMode) return;
+    const wait  = Math.max(0, liveLastRun.current + LIVE_INTERVAL_MS - performance.now());
+    const timer = setTimeout(() => {
+      liveLastRun.current = performance.now();
+      runLiveAnalysis(modelState);
+    }, wait);
+    return () => clearTimeout(timer);
+  }, [liveMode, modelState, runLiveAnalysis]);
 
   // 解析実行ラッパー（現在のモデルを渡す）
   const handleRunAnalysis = useCallback(() => {
-    runAnalysis({ nodes, members, supports, joints, pointLoads, distLoads, momentLoads });
-  }, [runAnalysis, nodes, members, supports, joints, pointLoads, distLoads, momentLoads]);
+    runAnalysis(modelState);
+  }, [runAnalysis, modelState]);
+
+  // ----- Undo / Redo -----
+
+  /** モデル全体を一括で置き換える（選択は解除） */
+  const restoreModel = useCallback((model: ModelState) => {
+    replaceGeometry(model.nodes, model.members);
+    replaceSupports(model.supports);
+    replaceJoints(model.joints);
+    replacePointLoads(model.pointLoads);
+    replaceDistLoads(model.distLoads);
+    replaceMomentLoads(model.momentLoads);
+    replaceMemberLoads(model.memberPointLoads);
+    replaceThermalLoads(model.thermalLoads);
+    replaceLibrary(model.materials, model.sections);
+    replaceLoadCases(model.loadCases, model.combinations, model.selfWeight);
+    setSel({ kind: "none" });
+    selectNode(null);
+  }, [
+    replaceGeometry, replaceSupports, replaceJoints,
+    replacePointLoads, replaceDistLoads, replaceMomentLoads, replaceMemberLoads, replaceThermalLoads,
+    replaceLibrary, replaceLoadCases,
+    setSel, selectNode,
+  ]);
+
+  const {
+    canUndo, canRedo, undo, redo,
+    beginTransaction, endTransaction, transact,
+  } = useHistory(modelState, restoreModel);
+
+  // ドラッグ操作は開始〜終了を1ステップにまとめる
+  const startDrag            = useBefore(startNodeDrag,          beginTransaction);
+  const endDrag              = useBefore(endNodeDrag,            endTransaction);
+  const startRotDrag         = useBefore(startSupportRotDrag,    beginTransaction);
+  const endRotDrag           = useBefore(endSupportRotDrag,      endTransaction);
+  const startLoadRotDrag     = useBefore(startPointLoadRotDrag,  beginTransaction);
+  const endLoadRotDrag       = useBefore(endPointLoadRotDrag,    endTransaction);
+  const startDistRotDrag     = useBefore(startDistLoadRotDrag,   beginTransaction);
+  const endDistRotDrag       = useBefore(endDistLoadRotDrag,     endTransaction);
+  const startMemberLoadDrag  = useBefore(startMemberLoadSlide,   beginTransaction);
+  const endMemberLoadDrag    = useBefore(endMemberLoadSlide,     endTransaction);
 
   // ----- 複合操作 -----
   const toggleSupportWithExclusion = useCallback((nodeId: string, supportType: SupportType) => {
@@ -191,21 +455,19 @@ function useAppContextValue() {
 
     const cross = (nP.x - nA.x) * (nB.y - nA.y) - (nP.y - nA.y) * (nB.x - nA.x);
     if (Math.abs(cross) > 1e-6) return;
+    // 温度荷重の違う2本は1本にまとめられない
+    if (!sameThermalLoads(m1.id, m2.id)) return;
 
-    setMembers((prev) => {
-      const rest = prev.filter((m) => m.id !== m1.id && m.id !== m2.id);
-      const dup  = rest.some((m) =>
-        (m.a === endA && m.b === endB) || (m.a === endB && m.b === endA)
-      );
-      return dup ? rest : [...rest, { id: uid("M"), a: endA, b: endB }];
-    });
-    removeNodes(new Set([nodeId]));
-  }, [supports, joints, pointLoads, distLoads, members, nodeById, setMembers, removeNodes]);
+    // 2本を1本にまとめてノードを消す（部材途中の荷重は新しい部材上の位置に移る）
+    deleteNode(nodeId);
+  }, [supports, joints, pointLoads, momentLoads, distLoads, members, nodeById, deleteNode, sameThermalLoads]);
 
   // ----- Delete 処理 -----
-  const handleDelete = useCallback(() => {
+  const deleteSelection = useCallback(() => {
     if (mode === "nodeEdit" && selectedNodeId) {
-      const removed = deleteNode(selectedNodeId);
+      // 温度荷重の違う2本をまとめることになるノードは消さない
+      const removed = deleteNode(selectedNodeId, (m1, m2) => sameThermalLoads(m1.id, m2.id));
+      if (removed.size === 0) return;
       removeSupportsByNodeIds(removed);
       removeJointsByNodeIds(removed);
       removeLoadsByNodeIds(removed);
@@ -248,6 +510,16 @@ function useAppContextValue() {
       setSel({ kind: "none" });
       return;
     }
+    if (sel.kind === "memberLoads" && sel.ids.length > 0) {
+      removeMemberLoads(new Set(sel.ids));
+      setSel({ kind: "none" });
+      return;
+    }
+    if (sel.kind === "thermalLoads" && sel.ids.length > 0) {
+      removeThermalLoads(new Set(sel.ids));
+      setSel({ kind: "none" });
+      return;
+    }
     if (sel.kind !== "members" || sel.ids.length === 0) return;
     const delIds = new Set(sel.ids);
     setMembers((prev) => {
@@ -262,18 +534,46 @@ function useAppContextValue() {
       removeLoadsByNodeIds(toRemove);
       removeMomentsByNodeIds(toRemove);
       removeDistLoadsByMemberIds(delIds);
+      removeMemberLoadsByMemberIds(delIds);
+      removeThermalLoadsByMemberIds(delIds);
       return next;
     });
     setSel({ kind: "none" });
   }, [
-    mode, selectedNodeId, deleteNode, selectNode,
+    mode, selectedNodeId, deleteNode, selectNode, sameThermalLoads,
     sel, setMembers, removeNodes,
-    removeSupports, removeJoints, removePointLoads, removeDistLoads,
+    removeSupports, removeJoints, removePointLoads, removeDistLoads, removeMemberLoads, removeThermalLoads,
     removeSupportsByNodeIds, removeJointsByNodeIds, removeLoadsByNodeIds,
-    removeDistLoadsByMemberIds, setSel, cleanupInsertedNode,
+    removeDistLoadsByMemberIds, removeMemberLoadsByMemberIds, removeThermalLoadsByMemberIds, setSel, cleanupInsertedNode,
     joints, pointLoads,
   ]);
 
+  // 連鎖削除（支点・荷重・孤立ノード・挿入ノードの後片付け）は1ステップで戻せるようにする
+  const handleDelete = useCallback(() => transact(deleteSelection), [transact, deleteSelection]);
+
+  // ----- プロジェクト保存・読込 -----
+
+  /** 読み込んだモデルに置き換える（描画途中の状態・解析結果も破棄）。読込自体も Undo できる */
+  const loadModel = useCallback((model: ModelState) => {
+    restoreModel(model);
+    arcReset();
+    clearResult();
+  }, [restoreModel, arcReset, clearResult]);
+
+  const exportProject = useCallback(() => {
+    downloadProject(modelState);
+  }, [modelState]);
+
+  /** ファイルを選んで読み込む。失敗時はメッセージを返す（キャンセル・成功時は null） */
+  const importProject = useCallback(async (): Promise<string | null> => {
+    const text = await pickProjectFile();
+    if (text === null) return null;
+    const parsed = parseProject(text);
+    if (parsed.ok === false) return parsed.message;
+    loadModel(parsed.model);
+    return null;
+  }, [loadModel]);
+
   const handleEscape = useCallback(() => { resetPath(); arcReset(); clearBox(); }, [resetPath, arcReset, clearBox]);
 
   // switchMode をラップ: drawモードを離れる時は commitPath、drawモードに入る時も commitPath でパスをリセット
@@ -289,6 +589,8 @@ function useAppContextValue() {
     onEscape: handleEscape,
     onEnter:  commitPath,
     onDelete: handleDelete,
+    onUndo:   undo,
+    onRedo:   redo,
   });
 
   return {
@@ -296,11 +598,12 @@ function useAppContextValue() {
     W, H,
     // ポインタ
     pointer, setPointer,
+    hoveredMemberId, setHoveredMemberId,
     // 描画
     nodes, members, setMembers,
     drawPathIds, nodeById, findNearbyNode,
     addPoint, commitPath, resetPath, removeNodes,
-    splitMember, deleteNode, moveNode, mergeNode,
+    splitMember, deleteNode, moveNode, mergeNode, setNodeMass,
     addArcMember,
     membersRef,
     // 円弧描画
@@ -308,7 +611,7 @@ function useAppContextValue() {
     arcPreview, arcHandleClick, arcUpdateMouse, arcUpdateRawMouse,
     arcReset, arcToggleDirection,
     // 選択
-    sel, setSel,
+    sel, setSel, selectItem,
     boxStart, selBox, selectedSet,
     startBox, updateBox, clearBox,
     commitSelBoxFromCurrent,
@@ -321,7 +624,8 @@ function useAppContextValue() {
     supports, rotDrag,
     toggleSupport, toggleSupportWithExclusion,
     startRotDrag, updateRotDrag, endRotDrag, rotateByKey,
-    removeSupports, removeSupportsByNodeIds, transferSupport,
+    removeSupports, removeSupportsByNodeIds, transferSupport, updateSupports, updateSupportSprings,
+    updateSupportSettlements,
     // ジョイント
     joints,
     toggleJoint, addJointDirect,
@@ -331,29 +635,83 @@ function useAppContextValue() {
     pointLoads, loadRotDrag,
     addPointLoad,
     startLoadRotDrag, updateLoadRotDrag, endLoadRotDrag, rotateLoadByKey,
-    removePointLoads, removeLoadsByNodeIds, transferLoad,
+    removePointLoads, removeLoadsByNodeIds, transferLoad, updatePointLoads,
     // 等分布荷重
     distLoads, distRotDrag,
     toggleDistLoad,
     startDistRotDrag, updateDistRotDrag, endDistRotDrag,
-    removeDistLoads, removeDistLoadsByMemberIds,
+    removeDistLoads, removeDistLoadsByMemberIds, updateDistLoads,
     // モーメント荷重
     momentLoads,
     addMomentLoad, flipMomentLoad,
-    removeMomentLoads, removeMomentsByNodeIds, transferMomentToNode,
+    removeMomentLoads, removeMomentsByNodeIds, transferMomentToNode, updateMomentLoads,
+    // 部材途中の集中荷重・集中モーメント
+    memberPointLoads, memberLoadDrag,
+    addMemberLoad, flipMemberMoment,
+    startMemberLoadDrag, updateMemberLoadDrag, endMemberLoadDrag,
+    removeMemberLoads, updateMemberLoads,
+    // 温度荷重
+    thermalLoads,
+    addThermalLoads, removeThermalLoads, updateThermalLoads,
+    // 材料・断面
+    materials, sections,
+    addMaterial, updateMaterial,
+    addSection, updateSection,
+    assignMemberProps, setMemberBulge, setMemberRelease, setMemberKind,
+    // 荷重ケース・組合せ
+    loadCases, combinations,
+    activeCaseId, setActiveCaseId,
+    addLoadCase, renameLoadCase, deleteLoadCase,
+    addCombination, renameCombination, setCombinationFactor, removeCombination,
+    selfWeight, setSelfWeightEnabled,
+    // プロジェクト
+    modelState, loadModel, exportProject, importProject,
+    // 履歴
+    canUndo, canRedo, undo, redo, transact,
     // キーボード
     spaceDown, shiftDown,
     // FEM 解析
     femResult,
+    activeResult,
+    envelope,
+    movingEnvelope,
+    resultKey,
+    setResultKey,
     validation,
     isStale,
+    isRunning,
+    progress,
+    liveMode,
+    setLiveMode,
+    liveFailure,
     displayFlags,
     setDisplayFlag,
     diagramScale,
     setDiagramScale,
     deformedScale,
     setDeformedScale,
+    analysisOptions,
+    setAnalysisOption,
+    modeView,
+    setModeView,
+    modeScale,
+    setModeScale,
+    animateMode,
+    setAnimateMode,
+    timeHistorySettings,
+    setTimeHistorySettings,
+    timeFrame,
+    setTimeFrame,
+    loadPath,
+    setLoadPath,
+    influenceTarget,
+    setInfluenceTarget,
+    movingLoadSettings,
+    setMovingLoadSettings,
+    trainView,
+    setTrainView,
     handleRunAnalysis,
+    cancelAnalysis,
     clearResult,
   };
 }
@@ -29,12 +29,15 @@ export function useDistLoads() {
     cy: number;
   }>(null);
 
-  /** メンバーに等分布荷重を追加（既存があればトグル削除） */
-  const toggleDistLoad = useCallback((memberId: string) => {
+  /** メンバーに荷重ケース caseId の等分布荷重を追加（同ケースに既存があればトグル削除） */
+  const toggleDistLoad = useCallback((memberId: string, caseId: string) => {
     setDistLoads((prev) => {
-      const exists = prev.find((l) => l.memberId === memberId);
-      if (exists) return prev.filter((l) => l.memberId !== memberId);
-      return [...prev, { id: uid("D"), memberId, angleDeg: 0, magnitude: 1 }];
+      const exists = prev.find((l) => l.memberId === memberId && l.caseId === caseId);
+      if (exists) return prev.filter((l) => l.id !== exists.id);
+      return [...prev, {
+        id: uid("D"), memberId, angleDeg: 0, caseId,
+        magnitude: 1, magnitudeEnd: 1, startRatio: 0, endRatio: 1,
+      }];
     });
   }, []);
 
@@ -72,6 +75,17 @@ export function useDistLoads() {
     setDistLoads((prev) => prev.filter((l) => !memberIds.has(l.memberId)));
   }, []);
 
+  /** プロパティパネルからの編集（複数選択に一括適用） */
+  const updateDistLoads = useCallback((ids: Set<string>, patch: Partial<Omit<DistLoad, "id" | "memberId">>) => {
+    setDistLoads((prev) => prev.map((l) => ids.has(l.id) ? { ...l, ...patch } : l));
+  }, []);
+
+  /** 読込・履歴復元用: 分布荷重を一括で置き換える */
+  const replaceDistLoads = useCallback((next: DistLoad[]) => {
+    setDistLoads(next);
+    setRotDrag(null);
+  }, []);
+
   return {
     distLoads,
     rotDrag,
@@ -81,5 +95,7 @@ export function useDistLoads() {
     endRotDrag,
     removeDistLoads,
     removeByMemberIds,
+    updateDistLoads,
+    replaceDistLoads,
   };
 }
\ No newline at end of file
@@ -3,12 +3,93 @@ import { Node2D, Member } from "../types";
 import { snap, uid, dist2, projectPointOnSegment } from "../utils/geometry";
 import { bulgeToArc } from "../utils/curveUtils";
 import { SNAP_R } from "../types";
+import { useLatest } from "./useUtils";
 
 // ─── ユーティリティ ────────────────────────────────────────────
+/** 分割・統合で新しく作る部材に引き継ぐ属性（材料・断面・部材種別） */
+function inheritMemberProps(m: Member): Pick<Member, "materialId" | "sectionId" | "kind"> {
+  return { materialId: m.materialId, sectionId: m.sectionId, ...(m.kind ? { kind: m.kind } : {}) };
+}
+
+/** 部材を分割したとき、元の a端（side = "a"）/ b端の解放だけを引き継ぐ。分割点は剛接 */
+function inheritEndRelease(m: Member, side: "a" | "b"): Pick<Member, "releases"> {
+  const rel = m.releases?.[side];
+  return rel ? { releases: { [side]: rel } } : {};
+}
+
+/**
+ * 2本をまとめたとき、m1・m2 の nodeId と反対側の端の解放を、まとめた部材の a端・b端に引き継ぐ。
+ * まとめた部材は m1 の種別になるので、トラス材なら解放は持たない
+ */
+function inheritFarEndReleases(m1: Member, m2: Member, nodeId: string): Pick<Member, "releases"> {
+  if (m1.kind === "truss") return {};
+  const relA = m1.releases?.[m1.a === nodeId ? "b" : "a"];
+  const relB = m2.releases?.[m2.a === nodeId ? "b" : "a"];
+  if (!relA && !relB) return {};
+  return { releases: { ...(relA ? { a: relA } : {}), ...(relB ? { b: relB } : {}) } };
+}
+
+/**
+ * 部材の分割・統合で、元の部材 oldId の区間 from〜to（a端からの比）が
+ * 新しい部材 newId の区間 nextFrom〜nextTo に移ったことを表す（nextFrom > nextTo なら向きが逆）
+ */
+export type MemberPiece = {
+  oldId: string; from: number;     to: number;
+  newId: string; nextFrom: number; nextTo: number;
+};
+
+/** 部材の置き換え。removed の部材に載っていた荷重は pieces に従って移し、移し先がなければ消す */
+export type MemberReplacement = { removed: Set<string>; pieces: MemberPiece[] };
+
+/** 置き換え前の部材 memberId 上の位置 ratio の移し先（なければ null） */
+export function remapMemberRatio(
+  pieces: MemberPiece[], memberId: string, ratio: number,
+): { memberId: string; ratio: number } | null {
+  const p = pieces.find((p) => p.oldId === memberId && p.from - 1e-9 <= ratio && ratio <= p.to + 1e-9);
+  if (!p) return null;
+  const s = p.to > p.from ? (ratio - p.from) / (p.to - p.from) : 0;
+  return { memberId: p.newId, ratio: Math.max(0, Math.min(1, p.nextFrom + (p.nextTo - p.nextFrom) * s)) };
+}
+
+/** 部材 m を比 t の位置で idA（a端側）と idB に分けたときの対応 */
+function splitPieces(m: Member, t: number, idA: string, idB: string): MemberPiece[] {
+  return [
+    { oldId: m.id, from: 0, to: t, newId: idA, nextFrom: 0, nextTo: 1 },
+    { oldId: m.id, from: t, to: 1, newId: idB, nextFrom: 0, nextTo: 1 },
+  ];
+}
+
+/**
+ * ノード nodeId でつながる2本の部材 m1, m2 を、m1 の遠い端 → m2 の遠い端の1本にまとめる。
+ * 属性は m1 から、端部の解放は各部材の遠い端から引き継ぐ。元の部材上の位置は弦の長さの比で新しい部材上に移す
+ */
+function joinMembers(
+  nodeId: string, m1: Member, m2: Member, nodes: Node2D[],
+): { member: Member; pieces: MemberPiece[] } {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const length = (m: Member) => {
+    const na = nodeMap.get(m.a), nb = nodeMap.get(m.b);
+    return na && nb ? Math.hypot(nb.x - na.x, nb.y - na.y) : 0;
+  };
+  const L1 = length(m1), L2 = length(m2);
+  const r  = L1 + L2 > 0 ? L1 / (L1 + L2) : 0.5;
+  const id = uid("M");
+  const a  = m1.a === nodeId ? m1.b : m1.a;
+  const b  = m2.a === nodeId ? m2.b : m2.a;
+  return {
+    member: { id, a, b, ...inheritMemberProps(m1), ...inheritFarEndReleases(m1, m2, nodeId) },
+    pieces: [
+      // m1 は新しい部材の 0〜r、m2 は r〜1。nodeId 側の端が r に来る向きで移す
+      { oldId: m1.id, from: 0, to: 1, newId: id, ...(m1.b === nodeId ? { nextFrom: 0, nextTo: r } : { nextFrom: r, nextTo: 0 }) },
+      { oldId: m2.id, from: 0, to: 1, newId: id, ...(m2.a === nodeId ? { nextFrom: r, nextTo: 1 } : { nextFrom: 1, nextTo: r }) },
+    ],
+  };
+}
+
 /**
  * 現在の nodes/members を受け取り、
  * ノード nodeId (座標 x, y) が乗っている全部材を分割する。
- * 副作用なし。新しい members 配列を返す。
+ * 副作用なし。新しい members 配列と、分割した部材の対応を返す。
  */
 function splitMembersOnNode(
   nodeId: string,
@@ -16,9 +97,10 @@ function splitMembersOnNode(
   y: number,
   nodes: Node2D[],
   members: Member[]
-): Member[] {
+): { members: Member[]; change: MemberReplacement } {
   const nodeMap = new Map(nodes.map((n) => [n.id, n]));
   let result = [...members];
+  const change: MemberReplacement = { removed: new Set(), pieces: [] };
 
   for (const m of members) {
     if (m.a === nodeId || m.b === nodeId) continue; // 既に接続済み
@@ -31,17 +113,21 @@ function splitMembersOnNode(
     const proj = projectPointOnSegment(x, y, na.x, na.y, nb.x, nb.y);
     if (proj.t > 1e-6 && proj.t < 1 - 1e-6 && proj.dist < 1e-6) {
       result = result.filter((r) => r.id !== m.id);
+      const idA = uid("M"), idB = uid("M");
       // curve を引き継ぐ（直線の場合は undefined なので問題なし）
-      result.push({ id: uid("M"), a: m.a, b: nodeId, curve: m.curve });
-      result.push({ id: uid("M"), a: nodeId, b: m.b, curve: m.curve });
+      result.push({ id: idA, a: m.a, b: nodeId, curve: m.curve, ...inheritMemberProps(m), ...inheritEndRelease(m, "a") });
+      result.push({ id: idB, a: nodeId, b: m.b, curve: m.curve, ...inheritMemberProps(m), ...inheritEndRelease(m, "b") });
+      change.removed.add(m.id);
+      change.pieces.push(...splitPieces(m, proj.t, idA, idB));
     }
   }
 
-  return result;
+  return { members: result, change };
 }
 
 // ─── Hook ─────────────────────────────────────────────────────
-export function useDrawLine() {
+/** onReplaceMembers: 分割・統合・削除で部材が置き換わったとき、同じハンドラ内で呼ばれる */
+export function useDrawLine(onReplaceMembers?: (change: MemberReplacement) => void) {
   const [nodes,       setNodes]       = useState<Node2D[]>([]);
   const [members,     setMembers]     = useState<Member[]>([]);
   const [drawPathIds, setDrawPathIds] = useState<string[]>([]);
@@ -65,6 +151,18 @@ export function useDrawLine() {
     });
   }, []);
 
+  const onReplaceRef = useLatest(onReplaceMembers);
+
+  /**
+   * 部材を置き換え、消えた部材に載っていた荷重の移し先を通知する。
+   * 同じハンドラ内の続く操作が最新の部材を見られるよう ref もすぐ更新する
+   */
+  const replaceMembers = useCallback((next: Member[], change: MemberReplacement) => {
+    membersRef.current = next;
+    setMembersWrapped(next);
+    if (change.removed.size > 0) onReplaceRef.current?.(change);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
   const nodeById = useMemo(() => {
     const m = new Map<string, Node2D>();
     nodes.forEach((n) => m.set(n.id, n));
@@ -88,11 +186,9 @@ export function useDrawLine() {
    * ※ ノードが nodes に追加された直後に呼ぶこと。
    */
   const _autoSplitOnNode = useCallback((nodeId: string, x: number, y: number) => {
-    setMembersWrapped((prevMembers) => {
-      const currentNodes = nodesRef.current;
-      return splitMembersOnNode(nodeId, x, y, currentNodes, prevMembers);
-    });
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+    const { members: next, change } = splitMembersOnNode(nodeId, x, y, nodesRef.current, membersRef.current);
+    if (change.removed.size > 0) replaceMembers(next, change);
+  }, [replaceMembers]);
 
   /** ノードを追加 or 既存ノードに接続して線を伸ばす */
   const addPoint = useCallback((wx: number, wy: number) => {
@@ -168,9 +264,11 @@ export function useDrawLine() {
     // bulge = tan(θ/4)  なので、中心角を分割比 t で按分する
     let curveA = target.curve;
     let curveB = target.curve;
+    // 分割位置（a端からの比）。直線は射影、円弧は中心角の比
+    const nA = nodesRef.current.find((n) => n.id === target.a);
+    const nB = nodesRef.current.find((n) => n.id === target.b);
+    let t = nA && nB ? projectPointOnSegment(x, y, nA.x, nA.y, nB.x, nB.y).t : 0.5;
     if (target.curve?.type === "arc") {
-      const nA = nodesRef.current.find((n) => n.id === target.a);
-      const nB = nodesRef.current.find((n) => n.id === target.b);
       if (nA && nB) {
         const { cx, cy, r, startAngle, endAngle, anticlockwise } = bulgeToArc(
           nA.x, nA.y, nB.x, nB.y, target.curve.bulge
@@ -191,7 +289,7 @@ export function useDrawLine() {
           sweepToP = -(((-sweepToP) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
           if (sweepToP < totalSweep - 1e-9) sweepToP += 2 * Math.PI;
         }
-        const t = Math.max(0, Math.min(1, sweepToP / totalSweep));
+        t = sweepToP / totalSweep;
 
         // 各セグメントの中心角から bulge を再計算
         const sweepA = totalSweep * t;
@@ -203,43 +301,49 @@ export function useDrawLine() {
       }
     }
 
+    t = Math.max(0, Math.min(1, t));
+
+    const idA = uid("M"), idB = uid("M");
     setNodesWrapped((prevNodes) => [...prevNodes, newNode]);
-    setMembersWrapped((prevMembers) => [
-      ...prevMembers.filter((m) => m.id !== memberId),
-      { id: uid("M"), a: target.a, b: newNodeId, curve: curveA },
-      { id: uid("M"), a: newNodeId, b: target.b, curve: curveB },
-    ]);
+    replaceMembers([
+      ...membersRef.current.filter((m) => m.id !== memberId),
+      { id: idA, a: target.a, b: newNodeId, curve: curveA, ...inheritMemberProps(target), ...inheritEndRelease(target, "a") },
+      { id: idB, a: newNodeId, b: target.b, curve: curveB, ...inheritMemberProps(target), ...inheritEndRelease(target, "b") },
+    ], { removed: new Set([memberId]), pieces: splitPieces(target, t, idA, idB) });
 
     return newNodeId;
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
-
-  const deleteNode = useCallback((nodeId: string): Set<string> => {
-    const removed = new Set<string>([nodeId]);
-    setMembersWrapped((prevMembers) => {
-      const connected = prevMembers.filter((m) => m.a === nodeId || m.b === nodeId);
-      const rest      = prevMembers.filter((m) => m.a !== nodeId && m.b !== nodeId);
-
-      setNodesWrapped((ns) => ns.filter((n) => n.id !== nodeId));
-      setDrawPathIds((p) => p.filter((id) => id !== nodeId));
-
-      if (connected.length === 0) return rest;
-      if (connected.length === 1) return rest;
+  }, [replaceMembers]);
 
-      if (connected.length === 2) {
-        const [m1, m2] = connected;
-        const a = m1.a === nodeId ? m1.b : m1.a;
-        const c = m2.a === nodeId ? m2.b : m2.a;
-        const dup = rest.some(
-          (m) => (m.a === a && m.b === c) || (m.a === c && m.b === a)
-        );
-        return dup ? rest : [...rest, { id: uid("M"), a, b: c }];
+  /**
+   * ノードを削除する。つながる部材が2本なら1本にまとめ（同じ端点の部材が既にあれば2本とも消す）、
+   * 1本・3本以上なら接続部材を全て切断するだけ。
+   * 2本を canJoin が許さなければノードは消さず、空のセットを返す
+   */
+  const deleteNode = useCallback((
+    nodeId: string, canJoin?: (m1: Member, m2: Member) => boolean,
+  ): Set<string> => {
+    const connected = membersRef.current.filter((m) => m.a === nodeId || m.b === nodeId);
+    if (connected.length === 2 && canJoin && !canJoin(connected[0], connected[1])) return new Set();
+    const removed   = new Set<string>([nodeId]);
+    const rest      = membersRef.current.filter((m) => m.a !== nodeId && m.b !== nodeId);
+
+    setNodesWrapped((ns) => ns.filter((n) => n.id !== nodeId));
+    setDrawPathIds((p) => p.filter((id) => id !== nodeId));
+
+    const change: MemberReplacement = { removed: new Set(connected.map((m) => m.id)), pieces: [] };
+    if (connected.length === 2) {
+      const { member, pieces } = joinMembers(nodeId, connected[0], connected[1], nodesRef.current);
+      const dup = rest.some(
+        (m) => (m.a === member.a && m.b === member.b) || (m.a === member.b && m.b === member.a)
+      );
+      if (!dup) {
+        replaceMembers([...rest, member], { ...change, pieces });
+        return removed;
       }
-
-      // 3本以上: 接続部材を全て切断するだけ
-      return rest;
-    });
+    }
+    replaceMembers(rest, change);
     return removed;
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [replaceMembers]);
 
   /**
    * ノードを (x, y) に移動する。
@@ -255,38 +359,55 @@ export function useDrawLine() {
 
     // 移動後に部材上に乗っていれば分割
     // setNodesWrapped は非同期なので ref 経由で最新 nodes を渡す
-    setMembersWrapped((prevMembers) => {
-      const currentNodes = nodesRef.current.map((n) =>
-        n.id === nodeId ? { ...n, x, y } : n
-      );
-      return splitMembersOnNode(nodeId, x, y, currentNodes, prevMembers);
-    });
+    const currentNodes = nodesRef.current.map((n) =>
+      n.id === nodeId ? { ...n, x, y } : n
+    );
+    const { members: next, change } = splitMembersOnNode(nodeId, x, y, currentNodes, membersRef.current);
+    if (change.removed.size > 0) replaceMembers(next, change);
 
     return true;
+  }, [replaceMembers]);
+
+  /** ノードの集中質量を設定する（0 以下は削除） */
+  const setNodeMass = useCallback((nodeId: string, mass: number) => {
+    setNodesWrapped((ns) => ns.map((n) => {
+      if (n.id !== nodeId) return n;
+      const { mass: _old, ...rest } = n;
+      return mass > 0 ? { ...rest, mass } : rest;
+    }));
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   const mergeNode = useCallback((nodeIdB: string, nodeIdA: string) => {
-    setMembersWrapped((prev) => {
-      const rewritten = prev.map((m) => {
-        const a = m.a === nodeIdB ? nodeIdA : m.a;
-        const b = m.b === nodeIdB ? nodeIdA : m.b;
-        return { ...m, a, b };
-      });
-      const noLoop = rewritten.filter((m) => m.a !== m.b);
-      const seen = new Set<string>();
-      const deduped = noLoop.filter((m) => {
-        // curve の種別も含めたキーで重複判定（円弧と直線は別物）
-        const curveKey = m.curve ? `${m.curve.type}` : "line";
-        const key = [...[m.a, m.b].sort(), curveKey].join(":");
-        if (seen.has(key)) return false;
-        seen.add(key);
-        return true;
-      });
-      return deduped;
+    const rewritten = membersRef.current.map((m) => {
+      const a = m.a === nodeIdB ? nodeIdA : m.a;
+      const b = m.b === nodeIdB ? nodeIdA : m.b;
+      return { ...m, a, b };
+    });
+    const noLoop = rewritten.filter((m) => m.a !== m.b);
+    // 重複して消える部材の荷重は、残る同じ端点の部材に移す
+    const change: MemberReplacement = {
+      removed: new Set(rewritten.filter((m) => m.a === m.b).map((m) => m.id)),
+      pieces: [],
+    };
+    const kept = new Map<string, Member>();
+    const deduped = noLoop.filter((m) => {
+      // curve の種別も含めたキーで重複判定（円弧と直線は別物）
+      const curveKey = m.curve ? `${m.curve.type}` : "line";
+      const key = [...[m.a, m.b].sort(), curveKey].join(":");
+      const first = kept.get(key);
+      if (first) {
+        const same = first.a === m.a;
+        change.removed.add(m.id);
+        change.pieces.push({ oldId: m.id, from: 0, to: 1, newId: first.id, nextFrom: same ? 0 : 1, nextTo: same ? 1 : 0 });
+        return false;
+      }
+      kept.set(key, m);
+      return true;
     });
+    replaceMembers(deduped, change);
     setNodesWrapped((ns) => ns.filter((n) => n.id !== nodeIdB));
     setDrawPathIds((p) => p.filter((id) => id !== nodeIdB));
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [replaceMembers]);
 
   /**
    * 円弧メンバーを追加する。
@@ -348,6 +469,13 @@ export function useDrawLine() {
     return { nodeIdA, nodeIdB };
   }, [_autoSplitOnNode]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  /** 読込・履歴復元用: ノードと部材を一括で置き換える（描画中のパスは破棄） */
+  const replaceGeometry = useCallback((nextNodes: Node2D[], nextMembers: Member[]) => {
+    setNodesWrapped(nextNodes);
+    setMembersWrapped(nextMembers);
+    setDrawPathIds([]);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
   return {
     nodes,
     members,
@@ -363,6 +491,8 @@ export function useDrawLine() {
     deleteNode,
     moveNode,
     mergeNode,
+    setNodeMass,
     addArcMember,
+    replaceGeometry,
   };
 }
\ No newline at end of file
@@ -1,91 +1,373 @@
-import { useState, useCallback } from "react";
-import { solveFem } from "../utils/fem";
+import { useState, useCallback, useMemo, useRef, useEffect } from "react";
 import { validateModel, type ValidationResult } from "../utils/validate";
-import type { FemResult, FemInput, DisplayFlags, ExpandedNode, ExpandedMember } from "../utils/femTypes";
-import type { Node2D, Member, Support, Joint, PointLoad, DistLoad } from "../types";
-
-type UseFemInput = {
-  nodes: Node2D[]; members: Member[]; supports: Support[];
-  joints: Joint[]; pointLoads: PointLoad[]; distLoads: DistLoad[];
-  momentLoads: { id: string; nodeId: string; clockwise: boolean; magnitude: number }[];
-};
+import type {
+  FemResult, FemInput, FemProgress, FemAnalysisOptions, DisplayFlags, ExpandedNode, ExpandedMember,
+  LoadResult, ResultViewKey, ModeView, TimeHistorySettings, InfluenceTarget, MovingLoadSettings, MovingLoadResult,
+} from "../utils/femTypes";
+import { deserializeFemResult, type FemRequest, type FemResponse } from "../utils/femProtocol";
+import { buildEnvelope, type Envelope } from "../utils/envelope";
+import { DEFAULT_MATERIAL, DEFAULT_SECTION, DEFAULT_SPRING, GRID } from "../types";
+import type { ModelState } from "../utils/project";
 
 type UseFemReturn = {
   femResult:       FemResult | null;
+  /** 表示中の荷重ケース／組合せの結果（選択キーが見つからなければ先頭。包絡表示中は null） */
+  activeResult:    LoadResult | null;
+  /** 包絡表示中のみ非 null */
+  envelope:        Envelope | null;
+  /** 移動荷重の包絡を表示中のみ非 null */
+  movingEnvelope:  Extract<MovingLoadResult, { ok: true }> | null;
+  resultKey:       ResultViewKey | null;
+  setResultKey:    (key: ResultViewKey) => void;
   validation:      ValidationResult | null;
   isStale:         boolean;
+  /** モデルの変更を知らせる（結果を古い状態にし、実行中の解析は中止する） */
   markStale:       () => void;
+  /** ワーカーで解析を実行中 */
+  isRunning:       boolean;
+  progress:        FemProgress | null;
+  /** ライブ解析（モデルの変更ごとに自動で解き直す）のオンオフ */
+  liveMode:        boolean;
+  setLiveMode:     (on: boolean) => void;
+  /** ライブ解析が失敗した理由。非 null の間、femResult は前回成功した結果（薄く表示する） */
+  liveFailure:     string | null;
+  runLiveAnalysis: (input: ModelState) => void;
   displayFlags:    DisplayFlags;
   setDisplayFlag:  (key: keyof DisplayFlags, value: boolean) => void;
   diagramScale:    number;
   setDiagramScale: (v: number) => void;
   deformedScale:   number;
   setDeformedScale:(v: number) => void;
-  runAnalysis:     (input: UseFemInput) => void;
+  /** 線形解析に加えて行う解析（変更すると結果は古くなる） */
+  analysisOptions:   FemAnalysisOptions;
+  setAnalysisOption: <K extends keyof FemAnalysisOptions>(key: K, value: FemAnalysisOptions[K]) => void;
+  /** 描画するモード形状（null は描かない） */
+  modeView:        ModeView | null;
+  setModeView:     (view: ModeView | null) => void;
+  modeScale:       number;
+  setModeScale:    (v: number) => void;
+  animateMode:     boolean;
+  setAnimateMode:  (on: boolean) => void;
+  /** 時刻歴応答解析の条件（analysisOptions.timeHistory のときだけ解析に渡す。変更すると結果は古くなる） */
+  timeHistorySettings:    TimeHistorySettings;
+  setTimeHistorySettings: (update: (prev: TimeHistorySettings) => TimeHistorySettings) => void;
+  /** 表示する時刻歴応答のコマ番号（null は荷重ケース／組合せの結果を表示） */
+  timeFrame:       number | null;
+  setTimeFrame:    (frame: number | null) => void;
+  /** 影響線・移動荷重の載荷経路（部材 ID）と影響線の対象（変更すると結果は古くなる） */
+  loadPath:          string[];
+  setLoadPath:       (memberIds: string[]) => void;
+  influenceTarget:   InfluenceTarget | null;
+  setInfluenceTarget:(target: InfluenceTarget | null) => void;
+  /** 移動荷重の列車と刻み（analysisOptions.movingLoad のときだけ解析に渡す。変更すると結果は古くなる） */
+  movingLoadSettings:    MovingLoadSettings;
+  setMovingLoadSettings: (update: (prev: MovingLoadSettings) => MovingLoadSettings) => void;
+  /** 移動荷重の包絡に重ねて描く列車の位置（MovingLoadResult.positions の番号。null は描かない） */
+  trainView:       number | null;
+  setTrainView:    (position: number | null) => void;
+  runAnalysis:     (input: ModelState) => void;
+  cancelAnalysis:  () => void;
   clearResult:     () => void;
 };
 
+function validationMessage(v: ValidationResult): string {
+  return v.issues.filter(i => i.level === "error").map(i => i.message).join("\n");
+}
+
+/** 解析オプションに付随する条件（時刻歴応答・載荷経路・移動荷重） */
+type AnalysisInputs = {
+  timeHistory: TimeHistorySettings;
+  loadPath:    string[];
+  influence:   InfluenceTarget | null;
+  movingLoad:  MovingLoadSettings;
+};
+
+/** エディタのモデルをソルバーの入力に変換する（既定の材料・断面・ばね剛性を補う） */
+function toFemInput(input: ModelState, options: FemAnalysisOptions, extra: AnalysisInputs): FemInput {
+  return {
+    nodes:      input.nodes.map(n => ({ id: n.id, x: n.x, y: n.y, ...(n.mass ? { mass: n.mass } : {}) })),
+    members:    input.members.map(m => ({
+      id: m.id, a: m.a, b: m.b,
+      materialId: m.materialId ?? DEFAULT_MATERIAL.id,
+      sectionId:  m.sectionId  ?? DEFAULT_SECTION.id,
+      ...(m.curve?.type === "arc" ? { curve: { type: "arc" as const, bulge: m.curve.bulge } } : {}),
+      ...(m.kind === "truss" ? { kind: "truss" as const } : {}),
+      ...(m.releases ? { releases: { a: m.releases.a && { ...m.releases.a }, b: m.releases.b && { ...m.releases.b } } } : {}),
+    })),
+    materials:  input.materials.map(mt => ({
+      id: mt.id, E: mt.E, ...(mt.alpha ? { alpha: mt.alpha } : {}), ...(mt.unitWeight ? { unitWeight: mt.unitWeight } : {}),
+    })),
+    sections:   input.sections.map(sc => ({
+      id: sc.id, A: sc.A, I: sc.I, ...(sc.mass ? { mass: sc.mass } : {}), ...(sc.depth ? { depth: sc.depth } : {}),
+    })),
+    supports:   input.supports.map(s => ({
+      id: s.id, nodeId: s.nodeId, type: s.type, angleDeg: s.angleDeg,
+      ...(s.type === "spring" ? { spring: { ...DEFAULT_SPRING, ...s.spring } } : {}),
+      ...(s.settlement ? { settlement: { ...s.settlement } } : {}),
+    })),
+    joints:     input.joints.map(j => ({ id: j.id, nodeId: j.nodeId })),
+    pointLoads: input.pointLoads.map(pl => ({ id: pl.id, nodeId: pl.nodeId, angleDeg: pl.angleDeg, magnitude: pl.magnitude, caseId: pl.caseId })),
+    distLoads:   input.distLoads.map(dl => ({
+      id: dl.id, memberId: dl.memberId, angleDeg: dl.angleDeg, caseId: dl.caseId,
+      magnitude: dl.magnitude, magnitudeEnd: dl.magnitudeEnd, startRatio: dl.startRatio, endRatio: dl.endRatio,
+      ...(dl.basis && dl.basis !== "length" ? { basis: dl.basis } : {}),
+    })),
+    momentLoads: input.momentLoads.map(ml => ({ id: ml.id, nodeId: ml.nodeId, clockwise: ml.clockwise, magnitude: ml.magnitude, caseId: ml.caseId })),
+    memberPointLoads: input.memberPointLoads.map(pl => ({
+      id: pl.id, memberId: pl.memberId, ratio: pl.ratio, caseId: pl.caseId,
+      kind: pl.kind, angleDeg: pl.angleDeg, clockwise: pl.clockwise, magnitude: pl.magnitude,
+    })),
+    thermalLoads: input.thermalLoads.map(tl => ({
+      id: tl.id, memberId: tl.memberId, caseId: tl.caseId, uniform: tl.uniform, gradient: tl.gradient,
+    })),
+    loadCases:    input.loadCases.map(lc => ({ id: lc.id, name: lc.name })),
+    combinations: input.combinations.map(cb => ({ id: cb.id, name: cb.name, factors: { ...cb.factors } })),
+    ...(input.selfWeight?.enabled ? { selfWeight: { caseId: input.selfWeight.caseId } } : {}),
+    options:      { ...options },
+    ...(options.timeHistory ? { timeHistory: extra.timeHistory } : {}),
+    ...(options.influence || options.movingLoad ? { loadPath: [...extra.loadPath] } : {}),
+    ...(options.influence && extra.influence ? { influence: { ...extra.influence } } : {}),
+    ...(options.movingLoad ? { movingLoad: extra.movingLoad } : {}),
+  };
+}
+
+/** 時刻歴応答解析の既定の条件 */
+const DEFAULT_TIME_HISTORY: TimeHistorySettings = { duration: 10, dt: 0.01, damping: 0.02, loads: [] };
+
+/** 移動荷重の既定の列車（2軸）と刻み */
+const DEFAULT_MOVING_LOAD: MovingLoadSettings = {
+  axles: [{ magnitude: 1, spacing: 0 }, { magnitude: 1, spacing: GRID * 2 }],
+  step: GRID / 5,
+  bothDirections: true,
+};
+
 export function useFem(): UseFemReturn {
   const [femResult,   setFemResult]   = useState<FemResult | null>(null);
   const [validation,  setValidation]  = useState<ValidationResult | null>(null);
+  const [resultKey,   setResultKey]   = useState<ResultViewKey | null>(null);
   const [isStale,     setIsStale]     = useState(false);
   const [diagramScale,    setDiagramScale]    = useState(1.0);
   const [deformedScale,   setDeformedScale]   = useState(1.0);  // 変形図拡大率
+  const [analysisOptions, setAnalysisOptions] = useState<FemAnalysisOptions>({
+    buckling: false, pDelta: false, modal: false, modalModes: 6, lumpedMass: false, timeHistory: false,
+    influence: false, movingLoad: false,
+  });
+  const [modeView,        setModeView]        = useState<ModeView | null>(null);
+  const [modeScale,       setModeScale]       = useState(1.0);  // モード形状の振幅
+  const [animateMode,     setAnimateMode]     = useState(false);
+  const [timeHistorySettings, setTimeHistory] = useState<TimeHistorySettings>(DEFAULT_TIME_HISTORY);
+  const [timeFrame,       setTimeFrame]       = useState<number | null>(null);
+  const [loadPath,        setLoadPathRaw]     = useState<string[]>([]);
+  const [influenceTarget, setInfluenceRaw]    = useState<InfluenceTarget | null>(null);
+  const [movingLoadSettings, setMovingLoad]   = useState<MovingLoadSettings>(DEFAULT_MOVING_LOAD);
+  const [trainView,       setTrainView]       = useState<number | null>(null);
   const [displayFlags, setDisplayFlags] = useState<DisplayFlags>({
     reaction: true,
     N:        false,
     Q:        false,
     M:        true,
     deformed: false,
+    firstOrderM: false,
   });
 
   const setDisplayFlag = useCallback((key: keyof DisplayFlags, value: boolean) => {
     setDisplayFlags(prev => ({ ...prev, [key]: value }));
   }, []);
 
-  const markStale = useCallback(() => setIsStale(true), []);
-
-  const runAnalysis = useCallback((input: UseFemInput) => {
-    const femInput: FemInput = {
-      nodes:      input.nodes.map(n => ({ id: n.id, x: n.x, y: n.y })),
-      members:    input.members.map(m => ({
-        id: m.id, a: m.a, b: m.b,
-        ...(m.curve?.type === "arc" ? { curve: { type: "arc" as const, bulge: m.curve.bulge } } : {}),
-      })),
-      supports:   input.supports.map(s => ({ id: s.id, nodeId: s.nodeId, type: s.type, angleDeg: s.angleDeg })),
-      joints:     input.joints.map(j => ({ id: j.id, nodeId: j.nodeId })),
-      pointLoads: input.pointLoads.map(pl => ({ id: pl.id, nodeId: pl.nodeId, angleDeg: pl.angleDeg, magnitude: pl.magnitude })),
-      distLoads:   input.distLoads.map(dl => ({ id: dl.id, memberId: dl.memberId, angleDeg: dl.angleDeg, magnitude: dl.magnitude })),
-      momentLoads: input.momentLoads.map(ml => ({ id: ml.id, nodeId: ml.nodeId, clockwise: ml.clockwise, magnitude: ml.magnitude })),
-    };
-
-    const vResult = validateModel(femInput);
+  // ---- 解析ワーカー ----
+  // requestId は実行中の依頼（なければ null）。id の合わない応答は中止した依頼のものなので捨てる。
+  // ライブ解析では実行中の依頼を中止せず、最新の入力だけを pendingLive に残して終わり次第に依頼する
+  const workerRef     = useRef<Worker | null>(null);
+  const requestId     = useRef<number | null>(null);
+  const requestLive   = useRef(false);
+  const pendingLive   = useRef<FemInput | null>(null);
+  const lastRequestId = useRef(0);
+  const [isRunning,   setIsRunning]   = useState(false);
+  const [progress,    setProgress]    = useState<FemProgress | null>(null);
+  const [liveMode,    setLiveModeRaw] = useState(false);
+  const [liveFailure, setLiveFailure] = useState<string | null>(null);
+
+  // 応答の処理（ワーカーのハンドラから最新の関数を呼べるよう ref に入れる）
+  const onResponse = useRef<(msg: FemResponse) => void>(() => {});
+
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL("../utils/femWorker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = (e: MessageEvent<FemResponse>) => onResponse.current(e.data);
+      worker.onerror = () => {
+        worker.terminate();
+        workerRef.current = null;
+        onResponse.current({
+          type: "result", id: requestId.current ?? -1,
+          result: { ok: false, reason: "singular", message: "計算中に予期しないエラーが発生しました。" },
+        });
+      };
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, []);
+
+  const postRequest = useCallback((input: FemInput, live: boolean) => {
+    const id = ++lastRequestId.current;
+    requestId.current   = id;
+    requestLive.current = live;
+    setIsRunning(true);
+    setProgress({ stage: "validate", fraction: 0 });
+    const request: FemRequest = { type: "solve", id, input };
+    getWorker().postMessage(request);
+  }, [getWorker]);
+
+  onResponse.current = (msg) => {
+    if (msg.id !== requestId.current) return;
+    if (msg.type === "progress") {
+      setProgress(msg.progress);
+      return;
+    }
+    const result = deserializeFemResult(msg.result);
+    requestId.current = null;
+    if (requestLive.current && result.ok === false) {
+      // ライブ解析の失敗は前回の結果を残して薄く表示する
+      setLiveFailure(result.message);
+    } else {
+      setFemResult(result);
+      setLiveFailure(null);
+      setIsStale(false);
+    }
+    const next = pendingLive.current;
+    pendingLive.current = null;
+    if (next) {
+      postRequest(next, true);
+    } else {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  /** 実行中の解析を中止する。計算中のワーカーはメッセージを受け取れないので作り直す */
+  const stopWorker = useCallback(() => {
+    pendingLive.current = null;
+    if (requestId.current === null) return;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    requestId.current = null;
+    setIsRunning(false);
+    setProgress(null);
+  }, []);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // ライブ解析中は解き直しが続くので、実行中の解析は止めない
+  const markStale = useCallback(() => {
+    if (!liveMode) stopWorker();
+    setIsStale(true);
+  }, [liveMode, stopWorker]);
+
+  const setAnalysisOption = useCallback(<K extends keyof FemAnalysisOptions>(key: K, value: FemAnalysisOptions[K]) => {
+    setAnalysisOptions(prev => ({ ...prev, [key]: value }));
+    if (femResult !== null || requestId.current !== null) markStale();
+  }, [femResult, markStale]);
+
+  const setTimeHistorySettings = useCallback((update: (prev: TimeHistorySettings) => TimeHistorySettings) => {
+    setTimeHistory(update);
+    if (femResult !== null || requestId.current !== null) markStale();
+  }, [femResult, markStale]);
+
+  const setLoadPath = useCallback((memberIds: string[]) => {
+    setLoadPathRaw(memberIds);
+    if (femResult !== null || requestId.current !== null) markStale();
+  }, [femResult, markStale]);
+
+  const setInfluenceTarget = useCallback((target: InfluenceTarget | null) => {
+    setInfluenceRaw(target);
+    if (femResult !== null || requestId.current !== null) markStale();
+  }, [femResult, markStale]);
+
+  const setMovingLoadSettings = useCallback((update: (prev: MovingLoadSettings) => MovingLoadSettings) => {
+    setMovingLoad(update);
+    if (femResult !== null || requestId.current !== null) markStale();
+  }, [femResult, markStale]);
+
+  const analysisInputs = useMemo<AnalysisInputs>(() => ({
+    timeHistory: timeHistorySettings, loadPath, influence: influenceTarget, movingLoad: movingLoadSettings,
+  }), [timeHistorySettings, loadPath, influenceTarget, movingLoadSettings]);
+
+  const runAnalysis = useCallback((input: ModelState) => {
+    const femInput = toFemInput(input, analysisOptions, analysisInputs);
+    const vResult  = validateModel(femInput);
     setValidation(vResult);
+    setLiveFailure(null);
 
     if (!vResult.ok) {
-      setFemResult({ ok: false, reason: "validation",
-        message: vResult.issues.filter(i => i.level === "error").map(i => i.message).join("\n") });
+      stopWorker();
+      setFemResult({ ok: false, reason: "validation", message: validationMessage(vResult) });
       setIsStale(false);
       return;
     }
 
-    try {
-      setFemResult(solveFem(femInput));
-    } catch {
-      setFemResult({ ok: false, reason: "singular", message: "計算中に予期しないエラーが発生しました。" });
+    // 実行中の解析があれば捨てて、新しい id で依頼する
+    stopWorker();
+    postRequest(femInput, false);
+  }, [analysisOptions, analysisInputs, postRequest, stopWorker]);
+
+  /**
+   * ライブ解析。検証に通らなければ前回の結果を残して薄く表示する。
+   * 解析中なら入力を pendingLive に入れ替えておき、いま解いている依頼の後に解く。
+   */
+  const runLiveAnalysis = useCallback((input: ModelState) => {
+    const femInput = toFemInput(input, analysisOptions, analysisInputs);
+    const vResult  = validateModel(femInput);
+    setValidation(vResult);
+
+    if (!vResult.ok) {
+      stopWorker();
+      setLiveFailure(validationMessage(vResult));
+      return;
+    }
+    if (requestId.current !== null) {
+      pendingLive.current = femInput;
+      return;
     }
-    setIsStale(false);
+    postRequest(femInput, true);
+  }, [analysisOptions, analysisInputs, postRequest, stopWorker]);
+
+  const setLiveMode = useCallback((on: boolean) => {
+    setLiveModeRaw(on);
+    if (!on) setLiveFailure(null);
   }, []);
 
+  // 移動荷重の包絡は結果にあるときだけ表示する（なければ荷重ケースの結果に戻る）
+  const movingEnvelope = useMemo(() => {
+    if (!femResult?.ok || resultKey !== "moving") return null;
+    return femResult.movingLoad?.ok ? femResult.movingLoad : null;
+  }, [femResult, resultKey]);
+
+  const activeResult = useMemo(() => {
+    if (!femResult?.ok || resultKey === "envelope" || movingEnvelope) return null;
+    return femResult.results.find(r => r.key === resultKey) ?? femResult.results[0] ?? null;
+  }, [femResult, resultKey, movingEnvelope]);
+
+  const envelope = useMemo(() => {
+    if (!femResult?.ok || resultKey !== "envelope") return null;
+    return buildEnvelope(femResult.results);
+  }, [femResult, resultKey]);
+
   const clearResult = useCallback(() => {
-    setFemResult(null); setValidation(null); setIsStale(false);
-  }, []);
+    stopWorker();
+    setFemResult(null); setValidation(null); setIsStale(false); setLiveFailure(null);
+  }, [stopWorker]);
 
   return {
-    femResult, validation, isStale, markStale,
+    femResult, validation, isStale, markStale, isRunning, progress,
+    liveMode, setLiveMode, liveFailure, runLiveAnalysis,
+    activeResult, envelope, movingEnvelope, resultKey, setResultKey,
     displayFlags, setDisplayFlag,
     diagramScale, setDiagramScale,
     deformedScale, setDeformedScale,
-    runAnalysis, clearResult,
+    analysisOptions, setAnalysisOption,
+    modeView, setModeView, modeScale, setModeScale, animateMode, setAnimateMode,
+    timeHistorySettings, setTimeHistorySettings, timeFrame, setTimeFrame,
+    loadPath, setLoadPath, influenceTarget, setInfluenceTarget,
+    movingLoadSettings, setMovingLoadSettings, trainView, setTrainView,
+    runAnalysis, cancelAnalysis: stopWorker, clearResult,
   };
 }
\ No newline at end of file
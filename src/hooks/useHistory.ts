@@ -0,0 +1,89 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+
+/** 保持する履歴の最大数 */
+const HISTORY_LIMIT = 200;
+
+/**
+ * スナップショット方式の Undo/Redo 履歴。
+ *
+ * present（モデル全体のスナップショット）の参照が変わるたびに、
+ * 直前に確定したスナップショットを past に積む。
+ * 1回のイベントハンドラ内の setState は React がまとめて1回のレンダーにするため、
+ * 削除の連鎖などの複合操作は自然に1ステップになる。
+ *
+ * ドラッグのように複数イベントにまたがる操作は beginTransaction / endTransaction で囲む。
+ * トランザクション中の変更は確定せず、終了後のレンダーでまとめて1ステップとして積む。
+ *
+ * restore() による復元で起きた変更は履歴に積まない。
+ */
+export function useHistory<T>(present: T, restore: (snapshot: T) => void) {
+  const pastRef      = useRef<T[]>([]);
+  const futureRef    = useRef<T[]>([]);
+  const committedRef = useRef<T>(present);  // 直近に確定したスナップショット
+  const restoringRef = useRef(false);
+  const inTxRef      = useRef(false);
+  // 終了したトランザクションの確定・ボタン表示の更新に使うカウンタ
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    if (inTxRef.current) return;
+    if (present === committedRef.current) return;
+    if (restoringRef.current) {
+      restoringRef.current = false;
+      committedRef.current = present;
+      return;
+    }
+    pastRef.current.push(committedRef.current);
+    if (pastRef.current.length > HISTORY_LIMIT) pastRef.current.shift();
+    futureRef.current    = [];
+    committedRef.current = present;
+    setTick((t) => t + 1);
+  }, [present, tick]);
+
+  const beginTransaction = useCallback(() => {
+    inTxRef.current = true;
+  }, []);
+
+  const endTransaction = useCallback(() => {
+    if (!inTxRef.current) return;
+    inTxRef.current = false;
+    setTick((t) => t + 1);  // 同じハンドラ内の変更が反映されたレンダーで確定させる
+  }, []);
+
+  /** fn 内の変更を1ステップとして記録する */
+  const transact = useCallback((fn: () => void) => {
+    beginTransaction();
+    fn();
+    endTransaction();
+  }, [beginTransaction, endTransaction]);
+
+  const undo = useCallback(() => {
+    const prev = pastRef.current.pop();
+    if (prev === undefined) return;
+    futureRef.current.push(committedRef.current);
+    committedRef.current = prev;
+    restoringRef.current = true;
+    restore(prev);
+    setTick((t) => t + 1);
+  }, [restore]);
+
+  const redo = useCallback(() => {
+    const next = futureRef.current.pop();
+    if (next === undefined) return;
+    pastRef.current.push(committedRef.current);
+    committedRef.current = next;
+    restoringRef.current = true;
+    restore(next);
+    setTick((t) => t + 1);
+  }, [restore]);
+
+  return {
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+    undo,
+    redo,
+    beginTransaction,
+    endTransaction,
+    transact,
+  };
+}
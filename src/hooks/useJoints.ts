@@ -67,6 +67,11 @@ export function useJoints() {
     });
   }, []);
 
+  /** 読込・履歴復元用: ジョイントを一括で置き換える */
+  const replaceJoints = useCallback((next: Joint[]) => {
+    setJoints(next);
+  }, []);
+
   return {
     joints,
     toggleJoint,
@@ -75,5 +80,6 @@ export function useJoints() {
     removeJoints,
     transferToNode,
     addJointDirect,
+    replaceJoints,
   };
 }
\ No newline at end of file
@@ -6,13 +6,24 @@ type KeyboardDeps = {
   onEscape: () => void;
   onEnter:  () => void;
   onDelete: () => void;
+  onUndo:   () => void;
+  onRedo:   () => void;
 };
 
+/** 入力欄でのキー操作はショートカットとして扱わない */
+function isEditableTarget(ev: KeyboardEvent): boolean {
+  const el = ev.target as HTMLElement | null;
+  if (!el) return false;
+  return el.tagName === "INPUT" || el.tagName === "SELECT" || el.tagName === "TEXTAREA" || el.isContentEditable;
+}
+
 export function useKeyboard({
   mode,
   onEscape,
   onEnter,
   onDelete,
+  onUndo,
+  onRedo,
 }: KeyboardDeps) {
   const [spaceDown, setSpaceDown] = useState(false);
   const [shiftDown, setShiftDown] = useState(false);
@@ -20,8 +31,9 @@ export function useKeyboard({
   // Space / Shift / Escape / Enter
   useEffect(() => {
     const onKeyDown = (ev: KeyboardEvent) => {
-      if (ev.key === " ")      { ev.preventDefault(); setSpaceDown(true); }
       if (ev.key === "Shift")  { setShiftDown(true); }
+      if (isEditableTarget(ev)) return;
+      if (ev.key === " ")      { ev.preventDefault(); setSpaceDown(true); }
       if (ev.key === "Escape") { onEscape(); }
       if (ev.key === "Enter" && mode === "drawLine") { onEnter(); }
     };
@@ -41,11 +53,25 @@ export function useKeyboard({
   useEffect(() => {
     const onKeyDown = (ev: KeyboardEvent) => {
       if (ev.key !== "Delete" && ev.key !== "Backspace") return;
+      if (isEditableTarget(ev)) return;
       onDelete();
     };
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
   }, [onDelete]);
 
+  // Ctrl+Z: 元に戻す / Ctrl+Shift+Z・Ctrl+Y: やり直し（Mac は Cmd）
+  useEffect(() => {
+    const onKeyDown = (ev: KeyboardEvent) => {
+      if (!(ev.ctrlKey || ev.metaKey) || ev.altKey) return;
+      if (isEditableTarget(ev)) return;  // 入力欄ではブラウザ標準の Undo を使う
+      const key = ev.key.toLowerCase();
+      if (key === "z" && !ev.shiftKey)               { ev.preventDefault(); onUndo(); }
+      else if ((key === "z" && ev.shiftKey) || key === "y") { ev.preventDefault(); onRedo(); }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onUndo, onRedo]);
+
   return { spaceDown, shiftDown };
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { useState, useCallback } from "react";
+import { LoadCase, LoadCombination, SelfWeight, DEFAULT_LOAD_CASE } from "../types";
+import { uid } from "../utils/geometry";
+
+/**
+ * 荷重ケースと荷重組合せ、自重のケース。
+ * activeCaseId は「新しく配置する荷重が属するケース」（モデルには保存しない編集状態）。
+ */
+export function useLoadCases() {
+  const [loadCases,    setLoadCases]    = useState<LoadCase[]>([DEFAULT_LOAD_CASE]);
+  const [combinations, setCombinations] = useState<LoadCombination[]>([]);
+  const [activeCaseId, setActiveCaseId] = useState<string>(DEFAULT_LOAD_CASE.id);
+  const [selfWeight,   setSelfWeight]   = useState<SelfWeight | null>(null);
+
+  /** 荷重ケースを追加してアクティブにする。追加した id を返す */
+  const addLoadCase = useCallback((name?: string): string => {
+    const id = uid("LC");
+    setLoadCases((prev) => [...prev, { id, name: name ?? `LC${prev.length + 1}` }]);
+    setActiveCaseId(id);
+    return id;
+  }, []);
+
+  const renameLoadCase = useCallback((id: string, name: string) => {
+    setLoadCases((prev) => prev.map((c) => c.id === id ? { ...c, name } : c));
+  }, []);
+
+  /**
+   * 荷重ケースを削除（最後の1つは削除しない）。
+   * 組合せからも係数を取り除く。ケースに属する荷重の削除は呼び出し側で行う。
+   */
+  const removeLoadCase = useCallback((id: string): boolean => {
+    if (loadCases.length <= 1 || !loadCases.some((c) => c.id === id)) return false;
+    const rest = loadCases.filter((c) => c.id !== id);
+    setLoadCases(rest);
+    setCombinations((prev) => prev.map((cb) => {
+      if (!(id in cb.factors)) return cb;
+      const factors = { ...cb.factors };
+      delete factors[id];
+      return { ...cb, factors };
+    }));
+    if (activeCaseId === id) setActiveCaseId(rest[0].id);
+    if (selfWeight?.caseId === id) setSelfWeight(null);
+    return true;
+  }, [loadCases, activeCaseId, selfWeight]);
+
+  /**
+   * 自重の生成のオンオフ。初めてオンにするとき（またはケースが削除されていたとき）は
+   * 自重専用の荷重ケース "SW" を追加する。オフにしてもケースと組合せの係数は残す。
+   */
+  const setSelfWeightEnabled = useCallback((enabled: boolean) => {
+    if (!enabled) {
+      setSelfWeight((prev) => prev && { ...prev, enabled: false });
+      return;
+    }
+    if (selfWeight && loadCases.some((c) => c.id === selfWeight.caseId)) {
+      setSelfWeight({ ...selfWeight, enabled: true });
+      return;
+    }
+    const id = uid("LC");
+    setLoadCases((prev) => [...prev, { id, name: "SW" }]);
+    setSelfWeight({ enabled: true, caseId: id });
+  }, [selfWeight, loadCases]);
+
+  /** 組合せを追加（既定は全ケース係数 1.0）。追加した id を返す */
+  const addCombination = useCallback((): string => {
+    const id = uid("CB");
+    setCombinations((prev) => [...prev, {
+      id,
+      name: `C${prev.length + 1}`,
+      factors: Object.fromEntries(loadCases.map((c) => [c.id, 1])),
+    }]);
+    return id;
+  }, [loadCases]);
+
+  const renameCombination = useCallback((id: string, name: string) => {
+    setCombinations((prev) => prev.map((cb) => cb.id === id ? { ...cb, name } : cb));
+  }, []);
+
+  /** 組合せの係数を設定（0 ならキーごと削除） */
+  const setCombinationFactor = useCallback((id: string, caseId: string, factor: number) => {
+    setCombinations((prev) => prev.map((cb) => {
+      if (cb.id !== id) return cb;
+      const factors = { ...cb.factors };
+      if (factor === 0) delete factors[caseId];
+      else factors[caseId] = factor;
+      return { ...cb, factors };
+    }));
+  }, []);
+
+  const removeCombination = useCallback((id: string) => {
+    setCombinations((prev) => prev.filter((cb) => cb.id !== id));
+  }, []);
+
+  /** 読込・履歴復元用: ケース・組合せ・自重を一括で置き換える */
+  const replaceLoadCases = useCallback((
+    nextCases: LoadCase[], nextCombinations: LoadCombination[], nextSelfWeight: SelfWeight | null,
+  ) => {
+    setLoadCases(nextCases);
+    setCombinations(nextCombinations);
+    setSelfWeight(nextSelfWeight);
+    setActiveCaseId((prev) => nextCases.some((c) => c.id === prev) ? prev : nextCases[0]?.id ?? DEFAULT_LOAD_CASE.id);
+  }, []);
+
+  return {
+    loadCases,
+    combinations,
+    activeCaseId,
+    setActiveCaseId,
+    addLoadCase,
+    renameLoadCase,
+    removeLoadCase,
+    addCombination,
+    renameCombination,
+    setCombinationFactor,
+    removeCombination,
+    selfWeight,
+    setSelfWeightEnabled,
+    replaceLoadCases,
+  };
+}
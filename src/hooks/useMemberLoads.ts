@@ -0,0 +1,111 @@
+import { useState, useCallback } from "react";
+import { MemberPointLoad, Member, Node2D } from "../types";
+import { uid } from "../utils/geometry";
+import { projectOnArc } from "../utils/curveUtils";
+import { MemberReplacement, remapMemberRatio } from "./useDrawLine";
+
+// Shift ドラッグ時の位置スナップ刻み（部材長比）
+const RATIO_SNAP = 0.05;
+
+/** 部材の bulge（直線・円弧以外は 0） */
+export function memberBulge(m: Member): number {
+  return m.curve?.type === "arc" ? m.curve.bulge : 0;
+}
+
+/** 部材途中の集中荷重・集中モーメント */
+export function useMemberLoads(members: Member[], nodeById: Map<string, Node2D>) {
+  const [memberPointLoads, setMemberPointLoads] = useState<MemberPointLoad[]>([]);
+  const [slideDrag, setSlideDrag] = useState<null | { id: string }>(null);
+
+  /** 部材の ratio 位置に荷重ケース caseId の集中荷重（kind = "force"）またはモーメントを追加する */
+  const addMemberLoad = useCallback((
+    memberId: string, ratio: number, kind: MemberPointLoad["kind"], caseId: string,
+  ): string => {
+    const id = uid(kind === "force" ? "ML" : "MM");
+    setMemberPointLoads((prev) => [...prev, {
+      id, memberId, ratio, caseId, kind,
+      angleDeg: 0, clockwise: false, magnitude: 1,
+    }]);
+    return id;
+  }, []);
+
+  /** 部材に沿ったドラッグ開始 */
+  const startSlideDrag = useCallback((id: string) => {
+    setSlideDrag({ id });
+  }, []);
+
+  /** ドラッグ中：ポインタを部材に投影した位置へ移動（Shift で 0.05 刻み） */
+  const updateSlideDrag = useCallback((wx: number, wy: number, shiftDown: boolean) => {
+    if (!slideDrag) return;
+    const load = memberPointLoads.find((l) => l.id === slideDrag.id);
+    if (!load) return;
+    const m = members.find((v) => v.id === load.memberId);
+    if (!m) return;
+    const a = nodeById.get(m.a), b = nodeById.get(m.b);
+    if (!a || !b) return;
+
+    const { t } = projectOnArc(wx, wy, a.x, a.y, b.x, b.y, memberBulge(m));
+    const ratio = shiftDown ? Math.round(t / RATIO_SNAP) * RATIO_SNAP : t;
+    setMemberPointLoads((prev) =>
+      prev.map((l) => l.id === slideDrag.id ? { ...l, ratio } : l)
+    );
+  }, [slideDrag, memberPointLoads, members, nodeById]);
+
+  /** ドラッグ終了 */
+  const endSlideDrag = useCallback(() => setSlideDrag(null), []);
+
+  /** モーメントの向きを反転 */
+  const flipMemberMoment = useCallback((id: string) => {
+    setMemberPointLoads((prev) =>
+      prev.map((l) => l.id === id ? { ...l, clockwise: !l.clockwise } : l)
+    );
+  }, []);
+
+  /** id セットを削除（Delete キー連動） */
+  const removeMemberLoads = useCallback((ids: Set<string>) => {
+    setMemberPointLoads((prev) => prev.filter((l) => !ids.has(l.id)));
+  }, []);
+
+  /** メンバー削除連動 */
+  const removeByMemberIds = useCallback((memberIds: Set<string>) => {
+    setMemberPointLoads((prev) => prev.filter((l) => !memberIds.has(l.memberId)));
+  }, []);
+
+  /** 部材の分割・統合に合わせて、荷重を置き換え後の部材と位置に移す（移し先がなければ削除） */
+  const remapMembers = useCallback((change: MemberReplacement) => {
+    setMemberPointLoads((prev) => prev.flatMap((l) => {
+      if (!change.removed.has(l.memberId)) return [l];
+      const to = remapMemberRatio(change.pieces, l.memberId, l.ratio);
+      return to ? [{ ...l, ...to }] : [];
+    }));
+  }, []);
+
+  /** プロパティパネルからの編集（複数選択に一括適用） */
+  const updateMemberLoads = useCallback((
+    ids: Set<string>,
+    patch: Partial<Pick<MemberPointLoad, "ratio" | "angleDeg" | "clockwise" | "magnitude" | "caseId">>,
+  ) => {
+    setMemberPointLoads((prev) => prev.map((l) => ids.has(l.id) ? { ...l, ...patch } : l));
+  }, []);
+
+  /** 読込・履歴復元用: 部材集中荷重を一括で置き換える */
+  const replaceMemberLoads = useCallback((next: MemberPointLoad[]) => {
+    setMemberPointLoads(next);
+    setSlideDrag(null);
+  }, []);
+
+  return {
+    memberPointLoads,
+    slideDrag,
+    addMemberLoad,
+    startSlideDrag,
+    updateSlideDrag,
+    endSlideDrag,
+    flipMemberMoment,
+    removeMemberLoads,
+    removeByMemberIds,
+    remapMembers,
+    updateMemberLoads,
+    replaceMemberLoads,
+  };
+}
@@ -5,13 +5,13 @@ import { uid } from "../utils/geometry";
 export function useMomentLoads(_nodeById: Map<string, Node2D>) {
   const [momentLoads, setMomentLoads] = useState<MomentLoad[]>([]);
 
-  /** ノードにモーメント荷重を追加（既存があればトグル削除） */
-  const addMomentLoad = useCallback((nodeId: string) => {
+  /** ノードに荷重ケース caseId のモーメント荷重を追加（同ノード・同ケースに既存があればトグル削除） */
+  const addMomentLoad = useCallback((nodeId: string, caseId: string) => {
     setMomentLoads((prev) => {
-      const exists = prev.find((l) => l.nodeId === nodeId);
-      if (exists) return prev.filter((l) => l.nodeId !== nodeId);
+      const exists = prev.find((l) => l.nodeId === nodeId && l.caseId === caseId);
+      if (exists) return prev.filter((l) => l.id !== exists.id);
       // デフォルト: 反時計回り (clockwise=false)
-      return [...prev, { id: uid("MO"), nodeId, clockwise: false, magnitude: 1 }];
+      return [...prev, { id: uid("MO"), nodeId, clockwise: false, magnitude: 1, caseId }];
     });
   }, []);
 
@@ -35,13 +35,24 @@ export function useMomentLoads(_nodeById: Map<string, Node2D>) {
   /** マージ時の引き継ぎ */
   const transferMomentToNode = useCallback((fromId: string, toId: string) => {
     setMomentLoads((prev) => {
-      const hasTarget = prev.some((l) => l.nodeId === toId);
+      // 同じ荷重ケースの荷重が toId にあれば from 側を捨てる
+      const targetCases = new Set(prev.filter((l) => l.nodeId === toId).map((l) => l.caseId));
       return prev
-        .filter((l) => l.nodeId !== fromId || !hasTarget)
+        .filter((l) => l.nodeId !== fromId || !targetCases.has(l.caseId))
         .map((l) => l.nodeId === fromId ? { ...l, nodeId: toId } : l);
     });
   }, []);
 
+  /** プロパティパネルからの編集（複数選択に一括適用） */
+  const updateMomentLoads = useCallback((ids: Set<string>, patch: Partial<Pick<MomentLoad, "clockwise" | "magnitude" | "caseId">>) => {
+    setMomentLoads((prev) => prev.map((l) => ids.has(l.id) ? { ...l, ...patch } : l));
+  }, []);
+
+  /** 読込・履歴復元用: モーメント荷重を一括で置き換える */
+  const replaceMomentLoads = useCallback((next: MomentLoad[]) => {
+    setMomentLoads(next);
+  }, []);
+
   return {
     momentLoads,
     addMomentLoad,
@@ -49,5 +60,7 @@ export function useMomentLoads(_nodeById: Map<string, Node2D>) {
     removeMomentLoads,
     removeMomentsByNodeIds,
     transferMomentToNode,
+    updateMomentLoads,
+    replaceMomentLoads,
   };
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { useState, useEffect } from "react";
+
+/** 1往復の時間 [ms] */
+const PERIOD_MS = 1600;
+
+/**
+ * モード形状のアニメーション用の振幅係数。
+ * active の間は requestAnimationFrame ごとに cos(2πt/T) を返し、止めている間は 1。
+ */
+export function useOscillation(active: boolean, periodMs = PERIOD_MS): number {
+  const [phase, setPhase] = useState(1);
+
+  useEffect(() => {
+    if (!active) {
+      setPhase(1);
+      return;
+    }
+    const start = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      setPhase(Math.cos(2 * Math.PI * (now - start) / periodMs));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [active, periodMs]);
+
+  return phase;
+}
@@ -26,13 +26,13 @@ export function usePointLoads(nodeById: Map<string, Node2D>) {
     baseMouseRad: number;
   }>(null);
 
-  /** ノードに荷重を追加（同ノードに既存があればトグル削除） */
-  const addPointLoad = useCallback((nodeId: string) => {
+  /** ノードに荷重ケース caseId の荷重を追加（同ノード・同ケースに既存があればトグル削除） */
+  const addPointLoad = useCallback((nodeId: string, caseId: string) => {
     setPointLoads((prev) => {
-      const exists = prev.find((l) => l.nodeId === nodeId);
-      if (exists) return prev.filter((l) => l.nodeId !== nodeId);
+      const exists = prev.find((l) => l.nodeId === nodeId && l.caseId === caseId);
+      if (exists) return prev.filter((l) => l.id !== exists.id);
       // 初期方向: 270° = 下向き（SVG座標系でY下向き正）
-      return [...prev, { id: uid("L"), nodeId, angleDeg: 0, magnitude: 1, offsetDist: DEFAULT_OFFSET }];
+      return [...prev, { id: uid("L"), nodeId, angleDeg: 0, magnitude: 1, offsetDist: DEFAULT_OFFSET, caseId }];
     });
   }, []);
 
@@ -87,13 +87,25 @@ export function usePointLoads(nodeById: Map<string, Node2D>) {
   /** マージ時: fromId の load を toId に引き継ぐ（toId に既存があれば from を削除） */
   const transferToNode = useCallback((fromId: string, toId: string) => {
     setPointLoads((prev) => {
-      const hasTarget = prev.some((l) => l.nodeId === toId);
+      // 同じ荷重ケースの荷重が toId にあれば from 側を捨てる
+      const targetCases = new Set(prev.filter((l) => l.nodeId === toId).map((l) => l.caseId));
       return prev
-        .filter((l) => l.nodeId !== fromId || !hasTarget)
+        .filter((l) => l.nodeId !== fromId || !targetCases.has(l.caseId))
         .map((l) => l.nodeId === fromId ? { ...l, nodeId: toId } : l);
     });
   }, []);
 
+  /** プロパティパネルからの編集（複数選択に一括適用） */
+  const updatePointLoads = useCallback((ids: Set<string>, patch: Partial<Pick<PointLoad, "angleDeg" | "magnitude" | "caseId">>) => {
+    setPointLoads((prev) => prev.map((l) => ids.has(l.id) ? { ...l, ...patch } : l));
+  }, []);
+
+  /** 読込・履歴復元用: 集中荷重を一括で置き換える */
+  const replacePointLoads = useCallback((next: PointLoad[]) => {
+    setPointLoads(next);
+    setRotDrag(null);
+  }, []);
+
   return {
     pointLoads,
     rotDrag,
@@ -105,5 +117,7 @@ export function usePointLoads(nodeById: Map<string, Node2D>) {
     removePointLoads,
     removeByNodeIds,
     transferToNode,
+    updatePointLoads,
+    replacePointLoads,
   };
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { useState, useCallback } from "react";
+import { Material, Section, DEFAULT_MATERIAL, DEFAULT_SECTION } from "../types";
+import { uid } from "../utils/geometry";
+
+/** 材料・断面ライブラリ。部材は materialId / sectionId でここを参照する */
+export function useSections() {
+  const [materials, setMaterials] = useState<Material[]>([DEFAULT_MATERIAL]);
+  const [sections,  setSections]  = useState<Section[]>([DEFAULT_SECTION]);
+
+  /** 材料を追加（base を複製）。追加した id を返す */
+  const addMaterial = useCallback((base: Material = DEFAULT_MATERIAL): string => {
+    const id = uid("MAT");
+    setMaterials((prev) => [...prev, { ...base, id, name: `Mat${prev.length + 1}` }]);
+    return id;
+  }, []);
+
+  /** 材料の値を更新 */
+  const updateMaterial = useCallback((id: string, patch: Partial<Omit<Material, "id">>) => {
+    setMaterials((prev) => prev.map((m) => m.id === id ? { ...m, ...patch } : m));
+  }, []);
+
+  /** 断面を追加（base を複製）。追加した id を返す */
+  const addSection = useCallback((base: Section = DEFAULT_SECTION): string => {
+    const id = uid("SEC");
+    setSections((prev) => [...prev, { ...base, id, name: `Sec${prev.length + 1}` }]);
+    return id;
+  }, []);
+
+  /** 断面の値を更新 */
+  const updateSection = useCallback((id: string, patch: Partial<Omit<Section, "id">>) => {
+    setSections((prev) => prev.map((s) => s.id === id ? { ...s, ...patch } : s));
+  }, []);
+
+  /** 読込・履歴復元用: ライブラリを一括で置き換える */
+  const replaceLibrary = useCallback((nextMaterials: Material[], nextSections: Section[]) => {
+    setMaterials(nextMaterials);
+    setSections(nextSections);
+  }, []);
+
+  return {
+    materials,
+    sections,
+    addMaterial,
+    updateMaterial,
+    addSection,
+    updateSection,
+    replaceLibrary,
+  };
+}
@@ -3,6 +3,9 @@ import { Selection, Member, Node2D } from "../types";
 import { BOX_MIN_SIZE } from "../types";
 import { segmentHitsRect } from "../utils/geometry";
 
+/** id リストで選択する種別 */
+type ListKind = Exclude<Selection["kind"], "none" | "node">;
+
 type Rect = { x1: number; y1: number; x2: number; y2: number; x: number; y: number; w: number; h: number };
 
 export function useSelection(
@@ -41,6 +44,18 @@ export function useSelection(
     setBoxEnd(null);
   }, []);
 
+  /**
+   * 要素をクリックで選択する。
+   * additive（Shift+クリック）なら同じ種別の選択に対してトグルで追加・除外する。
+   */
+  const selectItem = useCallback((kind: ListKind, id: string, additive: boolean) => {
+    setSel((prev) => {
+      if (!additive || prev.kind !== kind || !("ids" in prev)) return { kind, ids: [id] };
+      const ids = prev.ids.includes(id) ? prev.ids.filter((x) => x !== id) : [...prev.ids, id];
+      return ids.length ? { kind, ids } : { kind: "none" };
+    });
+  }, []);
+
   const commitSelBox = useCallback((box: Rect | null) => {
     const isTooSmall = !box || (box.w < BOX_MIN_SIZE && box.h < BOX_MIN_SIZE);
     setBoxStart(null);
@@ -55,7 +70,7 @@ export function useSelection(
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   return {
-    sel, setSel,
+    sel, setSel, selectItem,
     boxStart,
     selBox,
     selectedSet,
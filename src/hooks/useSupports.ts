@@ -1,7 +1,24 @@
 import { useState, useCallback } from "react";
-import { Support, SupportType, Node2D } from "../types";
+import { Support, SupportType, SupportSpring, SupportSettlement, Node2D, Mode, DEFAULT_SPRING } from "../types";
 import { uid } from "../utils/geometry";
 
+const SUPPORT_MODES: Partial<Record<Mode, SupportType>> = {
+  supportPin:    "pin",
+  supportRoller: "roller",
+  supportFix:    "fix",
+  supportSpring: "spring",
+};
+
+/** 支点配置モードで置く支点の種別（支点モード以外は null） */
+export function supportTypeOfMode(mode: Mode): SupportType | null {
+  return SUPPORT_MODES[mode] ?? null;
+}
+
+/** ばね支点にばね剛性がなければ既定値を入れる */
+function withSpring(s: Support): Support {
+  return s.type === "spring" && !s.spring ? { ...s, spring: { ...DEFAULT_SPRING } } : s;
+}
+
 export function useSupports(nodeById: Map<string, Node2D>) {
   const [supports, setSupports] = useState<Support[]>([]);
   const [rotDrag,  setRotDrag]  = useState<null | {
@@ -17,9 +34,9 @@ export function useSupports(nodeById: Map<string, Node2D>) {
       if (idx >= 0) {
         const cur = prev[idx];
         if (cur.type === supportType) return prev.filter((s) => s.nodeId !== nodeId); // 同種 → 削除
-        return prev.map((s) => s.nodeId === nodeId ? { ...s, type: supportType } : s); // 異種 → 置換
+        return prev.map((s) => s.nodeId === nodeId ? withSpring({ ...s, type: supportType }) : s); // 異種 → 置換
       }
-      return [...prev, { id: uid("S"), nodeId, type: supportType, angleDeg: 0 }];
+      return [...prev, withSpring({ id: uid("S"), nodeId, type: supportType, angleDeg: 0 })];
     });
   }, []);
 
@@ -74,6 +91,50 @@ export function useSupports(nodeById: Map<string, Node2D>) {
     });
   }, []);
 
+  /** プロパティパネルからの編集（複数選択に一括適用） */
+  const updateSupports = useCallback((ids: Set<string>, patch: Partial<Pick<Support, "type" | "angleDeg">>) => {
+    setSupports(prev => prev.map(s => ids.has(s.id) ? withSpring({ ...s, ...patch }) : s));
+  }, []);
+
+  /** ばね剛性の編集（ばね支点のみ、成分ごとに一括適用） */
+  const updateSupportSprings = useCallback((ids: Set<string>, patch: Partial<SupportSpring>) => {
+    setSupports(prev => prev.map(s =>
+      ids.has(s.id) && s.type === "spring"
+        ? { ...s, spring: { ...DEFAULT_SPRING, ...s.spring, ...patch } }
+        : s
+    ));
+  }, []);
+
+  /**
+   * 強制変位の編集（複数選択に一括適用）。未設定の支点には caseId のケースで新規作成し、
+   * 全成分が 0 になったら強制変位を外す。
+   */
+  const updateSupportSettlements = useCallback((
+    ids: Set<string>, patch: Partial<SupportSettlement>, caseId: string,
+  ) => {
+    setSupports(prev => prev.map(s => {
+      if (!ids.has(s.id)) return s;
+      const next = { dx: 0, dy: 0, rot: 0, caseId, ...s.settlement, ...patch };
+      const { settlement: _old, ...rest } = s;
+      return next.dx === 0 && next.dy === 0 && next.rot === 0 ? rest : { ...rest, settlement: next };
+    }));
+  }, []);
+
+  /** 荷重ケース削除連動: そのケースの強制変位を外す */
+  const removeSettlementsInCase = useCallback((caseId: string) => {
+    setSupports(prev => prev.map(s => {
+      if (s.settlement?.caseId !== caseId) return s;
+      const { settlement: _old, ...rest } = s;
+      return rest;
+    }));
+  }, []);
+
+  /** 読込・履歴復元用: 支点を一括で置き換える */
+  const replaceSupports = useCallback((next: Support[]) => {
+    setSupports(next);
+    setRotDrag(null);
+  }, []);
+
   return {
     supports,
     rotDrag,
@@ -85,5 +146,10 @@ export function useSupports(nodeById: Map<string, Node2D>) {
     removeSupports,
     removeByNodeIds,
     transferToNode,
+    updateSupports,
+    updateSupportSprings,
+    updateSupportSettlements,
+    removeSettlementsInCase,
+    replaceSupports,
   };
 }
\ No newline at end of file
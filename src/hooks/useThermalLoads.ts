@@ -0,0 +1,79 @@
+import { useState, useCallback } from "react";
+import { ThermalLoad } from "../types";
+import { uid } from "../utils/geometry";
+import { MemberReplacement } from "./useDrawLine";
+
+/** 部材の温度荷重（一様な温度変化・上下面の温度差） */
+export function useThermalLoads() {
+  const [thermalLoads, setThermalLoads] = useState<ThermalLoad[]>([]);
+
+  /** 部材ごとに荷重ケース caseId の温度荷重を追加する。追加した id を返す */
+  const addThermalLoads = useCallback((memberIds: string[], caseId: string): string[] => {
+    const added: ThermalLoad[] = memberIds.map((memberId) => ({
+      id: uid("TL"), memberId, caseId, uniform: 10, gradient: 0,
+    }));
+    setThermalLoads((prev) => [...prev, ...added]);
+    return added.map((l) => l.id);
+  }, []);
+
+  /** id セットを削除（Delete キー連動） */
+  const removeThermalLoads = useCallback((ids: Set<string>) => {
+    setThermalLoads((prev) => prev.filter((l) => !ids.has(l.id)));
+  }, []);
+
+  /** メンバー削除連動 */
+  const removeByMemberIds = useCallback((memberIds: Set<string>) => {
+    setThermalLoads((prev) => prev.filter((l) => !memberIds.has(l.memberId)));
+  }, []);
+
+  /**
+   * 部材の分割・統合に合わせて温度荷重を移す。分割した部材には同じ荷重を写し、
+   * まとめた部材には元の1本分だけを写す（温度荷重の違う部材はまとめない。sameLoads 参照）
+   */
+  const remapMembers = useCallback((change: MemberReplacement) => {
+    setThermalLoads((prev) => {
+      const kept    = prev.filter((l) => !change.removed.has(l.memberId));
+      const targets = new Map<string, string>();
+      for (const p of change.pieces) if (!targets.has(p.newId)) targets.set(p.newId, p.oldId);
+      const copied = [...targets].flatMap(([newId, oldId]) =>
+        // 残る部材に重ねてまとめた場合は、その部材の温度荷重をそのまま使う
+        kept.some((l) => l.memberId === newId) ? [] :
+          prev.filter((l) => l.memberId === oldId).map((l) => ({ ...l, id: uid("TL"), memberId: newId })));
+      return [...kept, ...copied];
+    });
+  }, []);
+
+  /** 2本の部材の温度荷重（ケース・温度変化・温度差）が同じか */
+  const sameLoads = useCallback((memberIdA: string, memberIdB: string) => {
+    const key = (memberId: string) => thermalLoads
+      .filter((l) => l.memberId === memberId)
+      .map((l) => `${l.caseId}:${l.uniform}:${l.gradient}`)
+      .sort()
+      .join("|");
+    return key(memberIdA) === key(memberIdB);
+  }, [thermalLoads]);
+
+  /** プロパティパネルからの編集（複数選択に一括適用） */
+  const updateThermalLoads = useCallback((
+    ids: Set<string>,
+    patch: Partial<Pick<ThermalLoad, "uniform" | "gradient" | "caseId">>,
+  ) => {
+    setThermalLoads((prev) => prev.map((l) => ids.has(l.id) ? { ...l, ...patch } : l));
+  }, []);
+
+  /** 読込・履歴復元用: 温度荷重を一括で置き換える */
+  const replaceThermalLoads = useCallback((next: ThermalLoad[]) => {
+    setThermalLoads(next);
+  }, []);
+
+  return {
+    thermalLoads,
+    addThermalLoads,
+    removeThermalLoads,
+    removeByMemberIds,
+    remapMembers,
+    sameLoads,
+    updateThermalLoads,
+    replaceThermalLoads,
+  };
+}
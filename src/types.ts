@@ -1,21 +1,119 @@
 // ===== 型定義 =====
-export type Node2D    = { id: string; x: number; y: number };
+/** mass は節点の集中質量（固有振動解析用。未設定は 0） */
+export type Node2D    = { id: string; x: number; y: number; mass?: number };
 
 // 曲線メンバーの種別
 export type MemberCurve =
   | { type: "arc";    bulge: number }
   | { type: "bezier"; cp1x: number; cp1y: number; cp2x: number; cp2y: number };
 
-export type Member    = { id: string; a: string; b: string; curve?: MemberCurve };
+/** 部材端の解放。moment = 材端ピン、axial / shear = 軸方向・せん断のスライド */
+export type EndRelease     = { moment?: boolean; axial?: boolean; shear?: boolean };
+export type MemberReleases = { a?: EndRelease; b?: EndRelease };
 
-export type Selection = { kind: "none" } | { kind: "members"; ids: string[] } | { kind: "supports"; ids: string[] } | { kind: "joints"; ids: string[] } | { kind: "loads"; ids: string[] } | { kind: "distLoads"; ids: string[] } | { kind: "momentLoads"; ids: string[] } | { kind: "node"; id: string };
-export type Mode      = "select" | "drawLine" | "drawArc" | "supportPin" | "supportRoller" | "supportFix" | "joint" | "load" | "nodeEdit" | "distLoad" | "momentLoad";
-export type SupportType = "pin" | "roller" | "fix";
-export type Support  = { id: string; nodeId: string; type: SupportType; angleDeg: number };
+/** 部材種別。frame = 曲げ・せん断・軸力を伝える梁要素（既定）、truss = 軸力のみのトラス材 */
+export type MemberKind = "frame" | "truss";
+
+/**
+ * 部材。materialId / sectionId は材料・断面ライブラリへの参照。
+ * 未設定の場合は DEFAULT_MATERIAL / DEFAULT_SECTION を使う。
+ * releases は部材端ごとの解放（節点ジョイントと違い、この部材の端だけを解放する）。
+ * kind 未設定は "frame"。トラス材は両端ピンとして扱うため releases は使わない。
+ */
+export type Member    = {
+  id: string; a: string; b: string; curve?: MemberCurve; materialId?: string; sectionId?: string;
+  releases?: MemberReleases;
+  kind?: MemberKind;
+};
+
+// 材料（ヤング係数 E・線膨張係数 alpha・単位体積重量 unitWeight）と
+// 断面（断面積 A・断面二次モーメント I・単位長さ質量 mass・せい depth）
+// mass は固有振動解析、alpha と depth は温度荷重、unitWeight は自重でだけ使う（未設定は 0）
+export type Material = { id: string; name: string; E: number; alpha?: number; unitWeight?: number };
+export type Section  = { id: string; name: string; A: number; I: number; mass?: number; depth?: number };
+
+export type Selection = { kind: "none" } | { kind: "members"; ids: string[] } | { kind: "supports"; ids: string[] } | { kind: "joints"; ids: string[] } | { kind: "loads"; ids: string[] } | { kind: "distLoads"; ids: string[] } | { kind: "momentLoads"; ids: string[] } | { kind: "memberLoads"; ids: string[] } | { kind: "thermalLoads"; ids: string[] } | { kind: "node"; id: string };
+export type Mode      = "select" | "drawLine" | "drawArc" | "supportPin" | "supportRoller" | "supportFix" | "supportSpring" | "joint" | "load" | "nodeEdit" | "distLoad" | "momentLoad";
+export type SupportType = "pin" | "roller" | "fix" | "spring";
+/**
+ * ばね支点の剛性。kx, ky は支点を angleDeg だけ回転した局所座標 x', y' 方向、kr は回転。
+ * 0 の成分は拘束しない。
+ */
+export type SupportSpring = { kx: number; ky: number; kr: number };
+/**
+ * 支点の強制変位（沈下・回転）。全体座標の dx, dy と回転 rot [rad]（時計回り正）。
+ * 支点の拘束方向の成分だけが効く（pin: dx, dy / roller: 拘束方向 / fix: 全成分 / spring: ばねの地盤側）。
+ * 荷重と同じく caseId の荷重ケースに属する。
+ */
+export type SupportSettlement = { dx: number; dy: number; rot: number; caseId: string };
+/** 支点。spring は type = "spring" のときだけ使う */
+export type Support  = {
+  id: string; nodeId: string; type: SupportType; angleDeg: number;
+  spring?: SupportSpring;
+  settlement?: SupportSettlement;
+};
 export type Joint    = { id: string; nodeId: string };
-export type PointLoad  = { id: string; nodeId: string; angleDeg: number; magnitude: number; offsetDist: number };
-export type MomentLoad = { id: string; nodeId: string; clockwise: boolean; magnitude: number };
-export type DistLoad   = { id: string; memberId: string; angleDeg: number; magnitude: number };
+// 荷重は caseId で荷重ケースに属する
+export type PointLoad  = { id: string; nodeId: string; angleDeg: number; magnitude: number; offsetDist: number; caseId: string };
+export type MomentLoad = { id: string; nodeId: string; clockwise: boolean; magnitude: number; caseId: string };
+/**
+ * 部材途中の集中荷重（kind: "force"）・集中モーメント（kind: "moment"）。
+ * 位置は a端からの部材長（円弧は弧長）に対する比 ratio で表す。
+ * force は angleDeg、moment は clockwise で向きを表す（もう一方は使わない）。
+ */
+export type MemberPointLoad = {
+  id: string; memberId: string; ratio: number; caseId: string;
+  kind: "force" | "moment";
+  angleDeg: number; clockwise: boolean; magnitude: number;
+};
+/**
+ * 分布荷重の強度の基準。
+ *   length:     部材長（円弧は弧長）あたり、向きは angleDeg（既定）
+ *   horizontal: 水平投影長あたり、向きは angleDeg（積雪など）
+ *   vertical:   鉛直投影長あたり、向きは angleDeg（風圧など）
+ *   normal:     部材長あたり、部材に直交（a→b の右手側が正。左から右へ描いた水平部材なら下向き）
+ *   tangent:    部材長あたり、部材軸方向（a→b が正）
+ * normal / tangent は angleDeg を使わない。
+ */
+export type DistLoadBasis = "length" | "horizontal" | "vertical" | "normal" | "tangent";
+/**
+ * 分布荷重。強度は magnitude（始端）から magnitudeEnd（終端）へ線形に変化し、
+ * 部材長に対する比 startRatio〜endRatio の範囲に載荷する（全長等分布なら 1, 1, 0, 1）。
+ * basis 未設定は "length"。
+ */
+export type DistLoad   = {
+  id: string; memberId: string; angleDeg: number; caseId: string;
+  magnitude: number; magnitudeEnd: number;
+  startRatio: number; endRatio: number;
+  basis?: DistLoadBasis;
+};
+/**
+ * 部材の温度荷重。uniform は一様な温度変化 ΔT、gradient は上面と下面の温度差 T上 − T下。
+ * 上面は a→b に進んで左手側（左から右へ描いた水平部材なら上側）。
+ * 効果は材料の alpha（ΔT・温度差とも）と断面の depth（温度差のみ）から求める。
+ */
+export type ThermalLoad = { id: string; memberId: string; caseId: string; uniform: number; gradient: number };
+
+// 荷重ケース（D, L, W, S など）と荷重組合せ（例: 1.2D + 1.6L）
+export type LoadCase        = { id: string; name: string };
+/** factors: caseId → 係数。キーのないケースは係数0 */
+export type LoadCombination = { id: string; name: string; factors: Record<string, number> };
+/**
+ * 自重の自動生成。enabled の間、各部材に 単位体積重量 × 断面積 の鉛直下向き等分布荷重を
+ * 荷重ケース caseId に加える（円弧は弧長あたり）。DistLoad としては持たず、解析時に生成する。
+ */
+export type SelfWeight = { enabled: boolean; caseId: string };
+
+// ===== 材料・断面の既定値 =====
+// EA = 1e6, EI = 1e4（従来の一律剛性と同じ値）
+export const DEFAULT_MATERIAL: Material = { id: "MAT_DEFAULT", name: "Default", E: 1e4 };
+export const DEFAULT_SECTION:  Section  = { id: "SEC_DEFAULT", name: "Default", A: 100, I: 1 };
+
+// ===== ばね支点の既定値 =====
+export const DEFAULT_SPRING: SupportSpring = { kx: 100, ky: 100, kr: 100 };
+
+// ===== 荷重ケースの既定値 =====
+export const DEFAULT_LOAD_CASE: LoadCase = { id: "LC_DEFAULT", name: "D" };
 
 // ===== キャンバス定数 =====
 export const GRID               = 25;
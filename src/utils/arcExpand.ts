@@ -2,7 +2,7 @@
  * arcExpand.ts — 円弧部材をポリライン（直線サブ要素）に展開するユーティリティ
  */
 
-import type { FemInput } from "./femTypes";
+import type { FemInput, FemMemberReleases } from "./femTypes";
 
 export const ARC_SUBDIVISIONS = 16;
 
@@ -74,36 +74,49 @@ export type SubMember = {
   arcGeom?: { cx: number; cy: number; r: number; startAngle: number; angleSpan: number };
 };
 
+/**
+ * 円弧を n 等分（等角度 = 等弧長）したサブ部材に展開する。
+ * extraRatios（弧長比 0〜1）の位置にも分割点を追加する（部材途中の集中荷重の載荷点など）。
+ * bounds は各分割点の弧長比（先頭 0、末尾 1）。
+ */
 export function expandArcMember(
   nodeIdA: string, ax: number, ay: number,
   nodeIdB: string, bx: number, by: number,
   bulge: number,
   n = ARC_SUBDIVISIONS,
-): { subNodes: SubNode[]; subMembers: SubMember[] } {
+  extraRatios: number[] = [],
+): { subNodes: SubNode[]; subMembers: SubMember[]; bounds: number[] } {
   if (Math.abs(bulge) < 1e-9) {
     return {
       subNodes: [],
       subMembers: [{ id: nextId("M"), a: nodeIdA, b: nodeIdB }],
+      bounds: [0, 1],
     };
   }
 
   const { cx, cy, r, startAngle, angleSpan } = arcGeomFromBulge(ax, ay, bx, by, bulge);
 
+  const candidates = [
+    ...Array.from({ length: n + 1 }, (_, i) => i / n),
+    ...extraRatios.filter(t => t > 0 && t < 1),
+  ].sort((p, q) => p - q);
+  const bounds = candidates.filter((t, i) => i === 0 || t - candidates[i - 1] > 1e-9);
+
   const subNodes: SubNode[]   = [];
   const subMembers: SubMember[] = [];
   const pointIds: string[]    = [nodeIdA];
 
-  for (let i = 1; i < n; i++) {
-    const angle = startAngle + angleSpan * (i / n);
+  for (let i = 1; i < bounds.length - 1; i++) {
+    const angle = startAngle + angleSpan * bounds[i];
     const id = nextId("N");
     subNodes.push({ id, x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) });
     pointIds.push(id);
   }
   pointIds.push(nodeIdB);
 
-  for (let i = 0; i < n; i++) {
-    const segStartAngle = startAngle + angleSpan * (i / n);
-    const segAngleSpan  = angleSpan / n;
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const segStartAngle = startAngle + angleSpan * bounds[i];
+    const segAngleSpan  = angleSpan * (bounds[i + 1] - bounds[i]);
     subMembers.push({
       id: nextId("M"),
       a: pointIds[i],
@@ -112,13 +125,40 @@ export function expandArcMember(
     });
   }
 
-  return { subNodes, subMembers };
+  return { subNodes, subMembers, bounds };
+}
+
+/** 中心角 angleSpan の円弧の弧長 / 弦長 */
+function arcOverChord(angleSpan: number): number {
+  const h = Math.abs(angleSpan) / 2;
+  return h < 1e-9 ? 1 : h / Math.sin(h);
 }
 
+/** 弧長比 t に最も近い分割点の番号 */
+function nearestBound(bounds: number[], t: number): number {
+  let best = 0;
+  for (let i = 1; i < bounds.length; i++)
+    if (Math.abs(bounds[i] - t) < Math.abs(bounds[best] - t)) best = i;
+  return best;
+}
+
+/**
+ * 展開後の部材。円弧サブ部材は親円弧の材料・断面を引き継ぎ、
+ * 端部の解放は a端側を先頭サブ部材、b端側を末尾サブ部材が受け持つ。
+ * トラス材は直線のみ（円弧のトラス材は validateModel で弾く）。
+ */
+export type ExpandedFemMember = {
+  id: string; a: string; b: string; materialId: string; sectionId: string;
+  releases?: FemMemberReleases;
+  kind?: "frame" | "truss";
+};
+
 export type ExpandedFemInput = Omit<FemInput, "members"> & {
-  members: { id: string; a: string; b: string }[];
+  members: ExpandedFemMember[];
   arcGroupMap: Map<string, string>;
   arcMemberGeom: Map<string, { cx: number; cy: number; r: number; startAngle: number; angleSpan: number }>;
+  /** 部材途中の集中荷重を受ける円弧の分割ノード */
+  arcJumpNodeIds: Set<string>;
 };
 
 export function expandArcMembers(original: FemInput): ExpandedFemInput {
@@ -126,11 +166,16 @@ export function expandArcMembers(original: FemInput): ExpandedFemInput {
 
   const nodeMap = new Map(original.nodes.map(n => [n.id, n]));
 
-  const nodes:      { id: string; x: number; y: number }[] = [...original.nodes];
-  const members:    { id: string; a: string; b: string }[] = [];
+  const nodes:      FemInput["nodes"]                       = [...original.nodes];
+  const members:    ExpandedFemMember[]                     = [];
   const distLoads:  typeof original.distLoads               = [];
+  const pointLoads:       typeof original.pointLoads       = [...original.pointLoads];
+  const momentLoads:      typeof original.momentLoads      = [...original.momentLoads];
+  const memberPointLoads: typeof original.memberPointLoads = [];
+  const thermalLoads:     typeof original.thermalLoads     = [];
   const arcGroupMap   = new Map<string, string>();
   const arcMemberGeom = new Map<string, { cx: number; cy: number; r: number; startAngle: number; angleSpan: number }>();
+  const arcJumpNodeIds = new Set<string>();
 
   const arcMemberIds = new Set(
     original.members
@@ -140,37 +185,95 @@ export function expandArcMembers(original: FemInput): ExpandedFemInput {
   for (const dl of original.distLoads) {
     if (!arcMemberIds.has(dl.memberId)) distLoads.push(dl);
   }
+  for (const pl of original.memberPointLoads) {
+    if (!arcMemberIds.has(pl.memberId)) memberPointLoads.push(pl);
+  }
+  for (const tl of original.thermalLoads) {
+    if (!arcMemberIds.has(tl.memberId)) thermalLoads.push(tl);
+  }
 
   for (const m of original.members) {
     const isArc = m.curve?.type === "arc" && Math.abs(m.curve.bulge) >= 1e-9;
 
     if (!isArc) {
-      members.push({ id: m.id, a: m.a, b: m.b });
+      members.push({ id: m.id, a: m.a, b: m.b, materialId: m.materialId, sectionId: m.sectionId, releases: m.releases, kind: m.kind });
       continue;
     }
 
     const nA = nodeMap.get(m.a)!;
     const nB = nodeMap.get(m.b)!;
-    const { subNodes, subMembers } = expandArcMember(
+    // 部材途中の集中荷重の位置に分割点を置く
+    const arcPls = original.memberPointLoads.filter(pl => pl.memberId === m.id);
+    const { subNodes, subMembers, bounds } = expandArcMember(
       m.a, nA.x, nA.y,
       m.b, nB.x, nB.y,
       (m.curve as { bulge: number }).bulge,
+      ARC_SUBDIVISIONS,
+      arcPls.map(pl => pl.ratio),
     );
 
     for (const sn of subNodes) nodes.push(sn);
-    for (const sm of subMembers) {
-      members.push(sm);
+    subMembers.forEach((sm, i) => {
+      const releases: FemMemberReleases = {
+        ...(i === 0                     && m.releases?.a ? { a: m.releases.a } : {}),
+        ...(i === subMembers.length - 1 && m.releases?.b ? { b: m.releases.b } : {}),
+      };
+      members.push({ id: sm.id, a: sm.a, b: sm.b, materialId: m.materialId, sectionId: m.sectionId, releases });
       arcGroupMap.set(sm.id, m.id);
       if (sm.arcGeom) arcMemberGeom.set(sm.id, sm.arcGeom);
-    }
+    });
 
+    // 分布荷重はサブ部材ごとに載荷範囲を切り出す。
+    // i 番目のサブ部材は弧長比 [bounds[i], bounds[i+1]] を受け持つ。
+    // 強度の基準（basis）はサブ部材ごとに効かせる（normal は各サブ部材に直交 = 半径方向になる）。
+    // 向きが一定の弧長あたりの強度は弦長あたりに換算する（合力が弧長 × 強度になる）。
+    // 投影長あたりは弦と弧の投影が等しく、normal / tangent は弦ごとの合力の和が
+    // 弧の合力（強度 × 弦ベクトルを回したもの）に一致するので、どちらもそのまま使う。
     const arcDls = original.distLoads.filter(dl => dl.memberId === m.id);
     for (const dl of arcDls) {
-      for (const sm of subMembers) {
-        distLoads.push({ id: nextId("DL"), memberId: sm.id, angleDeg: dl.angleDeg, magnitude: dl.magnitude });
+      const span = dl.endRatio - dl.startRatio;
+      if (span <= 0) continue;
+      const perArcLength = (dl.basis ?? "length") === "length";
+      const intensityAt = (r: number) =>
+        dl.magnitude + (dl.magnitudeEnd - dl.magnitude) * (r - dl.startRatio) / span;
+
+      subMembers.forEach((sm, i) => {
+        const s0 = bounds[i], s1 = bounds[i + 1];
+        const r0 = Math.max(dl.startRatio, s0);
+        const r1 = Math.min(dl.endRatio, s1);
+        if (r1 - r0 <= 1e-12) return;
+        const k = perArcLength && sm.arcGeom ? arcOverChord(sm.arcGeom.angleSpan) : 1;
+        distLoads.push({
+          id: nextId("DL"), memberId: sm.id, angleDeg: dl.angleDeg, caseId: dl.caseId,
+          magnitude:    intensityAt(r0) * k,
+          magnitudeEnd: intensityAt(r1) * k,
+          startRatio:   (r0 - s0) / (s1 - s0),
+          endRatio:     (r1 - s0) / (s1 - s0),
+          ...(dl.basis ? { basis: dl.basis } : {}),
+        });
+      });
+    }
+
+    // 温度荷重は部材全長に一様なので、すべてのサブ部材に同じものを与える
+    // （サブ部材は元の a→b の向きに並ぶので上面の側も変わらない）
+    for (const tl of original.thermalLoads) {
+      if (tl.memberId !== m.id) continue;
+      for (const sm of subMembers) thermalLoads.push({ ...tl, id: nextId("TL"), memberId: sm.id });
+    }
+
+    // 部材途中の集中荷重は載荷点の分割点（サブ部材の境界ノード）への節点荷重になる。
+    // 境界の左右のサブ部材で断面力が不連続になり、載荷点で図が跳ぶ。
+    for (const pl of arcPls) {
+      const k = nearestBound(bounds, pl.ratio);
+      const nodeId = k === 0 ? m.a : subMembers[k - 1].b;
+      arcJumpNodeIds.add(nodeId);
+      if (pl.kind === "moment") {
+        momentLoads.push({ id: nextId("ML"), nodeId, clockwise: pl.clockwise, magnitude: pl.magnitude, caseId: pl.caseId });
+      } else {
+        pointLoads.push({ id: nextId("PL"), nodeId, angleDeg: pl.angleDeg, magnitude: pl.magnitude, caseId: pl.caseId });
       }
     }
   }
 
-  return { ...original, nodes, members, distLoads, arcGroupMap, arcMemberGeom };
+  return { ...original, nodes, members, pointLoads, momentLoads, distLoads, memberPointLoads, thermalLoads, arcGroupMap, arcMemberGeom, arcJumpNodeIds };
 }
\ No newline at end of file
@@ -0,0 +1,92 @@
+/**
+ * benchmark.ts — ソルバーの性能確認用モデル
+ *
+ * 多径間の上路アーチ橋（連続桁 + 円弧アーチ + トラス材の吊材）。
+ * 円弧部材は ARC_SUBDIVISIONS 本のサブ要素に展開されるので、
+ * 既定の 8 径間で約 3000 自由度になる。
+ */
+
+import type { Node2D, Member, Support, DistLoad, PointLoad, LoadCase, LoadCombination } from "../types";
+import { DEFAULT_MATERIAL, DEFAULT_SECTION, GRID } from "../types";
+import { arcToBulge } from "./curveUtils";
+import { uid } from "./geometry";
+import type { ModelState } from "./project";
+
+const SPAN_COUNT = 8;
+const PANELS     = 8;             // 1径間のパネル数（アーチの円弧部材数）
+const SPAN       = GRID * 16;     // 径間長
+const RISE       = GRID * 5;      // アーチのライズ
+
+export function createBenchmarkModel(spanCount = SPAN_COUNT): ModelState {
+  const nodes:   Node2D[]  = [];
+  const members: Member[]  = [];
+  const supports: Support[] = [];
+  const distLoads:  DistLoad[]  = [];
+  const pointLoads: PointLoad[] = [];
+
+  const dead: LoadCase = { id: uid("LC"), name: "D" };
+  const live: LoadCase = { id: uid("LC"), name: "L" };
+  const combinations: LoadCombination[] = [
+    { id: uid("CB"), name: "1.2D+1.6L", factors: { [dead.id]: 1.2, [live.id]: 1.6 } },
+  ];
+
+  const addNode = (x: number, y: number) => {
+    const n = { id: uid("N"), x, y };
+    nodes.push(n);
+    return n;
+  };
+
+  // アーチの円（径間の中央の下に中心）
+  const radius = (SPAN * SPAN / 4 + RISE * RISE) / (2 * RISE);
+  const x0 = 0, y0 = 0;
+
+  // 橋脚位置の節点（桁とアーチの共有点）
+  const piers = Array.from({ length: spanCount + 1 }, (_, i) => addNode(x0 + i * SPAN, y0));
+
+  for (let sp = 0; sp < spanCount; sp++) {
+    const left = piers[sp].x;
+    const cx = left + SPAN / 2, cy = y0 - RISE + radius;
+
+    let deckPrev = piers[sp];
+    let archPrev = piers[sp];
+    for (let k = 1; k <= PANELS; k++) {
+      const last = k === PANELS;
+      const x = left + k * SPAN / PANELS;
+      const deck = last ? piers[sp + 1] : addNode(x, y0);
+      const arch = last
+        ? piers[sp + 1]
+        : addNode(x, cy - Math.sqrt(radius * radius - (x - cx) ** 2));
+
+      const deckMember: Member = { id: uid("M"), a: deckPrev.id, b: deck.id };
+      members.push(deckMember);
+      members.push({
+        id: uid("M"), a: archPrev.id, b: arch.id,
+        curve: { type: "arc", bulge: arcToBulge(cx, cy, archPrev.x, archPrev.y, arch.x, arch.y, false) },
+      });
+      if (!last) {
+        members.push({ id: uid("M"), a: arch.id, b: deck.id, kind: "truss" });
+        // 活荷重は前半の径間の格点に載せる
+        if (sp < spanCount / 2) {
+          pointLoads.push({ id: uid("P"), nodeId: deck.id, angleDeg: 0, magnitude: 10, offsetDist: 40, caseId: live.id });
+        }
+      }
+      distLoads.push({
+        id: uid("DL"), memberId: deckMember.id, angleDeg: 0, caseId: dead.id,
+        magnitude: 0.05, magnitudeEnd: 0.05, startRatio: 0, endRatio: 1,
+      });
+      deckPrev = deck;
+      archPrev = arch;
+    }
+  }
+
+  piers.forEach((p, i) => {
+    supports.push({ id: uid("S"), nodeId: p.id, type: i === 0 ? "pin" : "roller", angleDeg: 0 });
+  });
+
+  return {
+    nodes, members, supports,
+    joints: [], pointLoads, distLoads, momentLoads: [], memberPointLoads: [], thermalLoads: [],
+    materials: [DEFAULT_MATERIAL], sections: [DEFAULT_SECTION],
+    loadCases: [dead, live], combinations, selfWeight: null,
+  };
+}
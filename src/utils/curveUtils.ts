@@ -227,6 +227,48 @@ export function arcNormalAt(
   return { x: -tan.y, y: tan.x };
 }
 
+// ===== 部材上の位置（弧長比）=====
+// 円弧は等角度 = 等弧長なので、弧長比は中心角の比に等しい。
+
+/** 弧長比 t (0〜1) における部材上の点 */
+export function pointOnArcAt(
+  ax: number, ay: number,
+  bx: number, by: number,
+  bulge: number,
+  t: number,
+): Point {
+  if (Math.abs(bulge) < 1e-9) return { x: ax + (bx - ax) * t, y: ay + (by - ay) * t };
+  const { cx, cy, r, startAngle, dAngle } = signedSweep(ax, ay, bx, by, bulge);
+  const angle = startAngle + dAngle * t;
+  return { x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) };
+}
+
+/**
+ * 点 (px, py) に最も近い部材上の点。t は弧長比（0〜1 にクランプ）、dist はその点までの距離。
+ * 部材途中の荷重の配置・ドラッグに使用。
+ */
+export function projectOnArc(
+  px: number, py: number,
+  ax: number, ay: number,
+  bx: number, by: number,
+  bulge: number,
+): { x: number; y: number; t: number; dist: number } {
+  let t: number;
+  if (Math.abs(bulge) < 1e-9) {
+    t = Math.max(0, Math.min(1, projectPointOnSegmentLocal(px, py, ax, ay, bx, by).t));
+  } else {
+    const { cx, cy, startAngle, dAngle } = signedSweep(ax, ay, bx, by, bulge);
+    // 開始角から進行方向へ測った角度（0〜2π）
+    const dir  = dAngle >= 0 ? 1 : -1;
+    const norm = (((Math.atan2(py - cy, px - cx) - startAngle) * dir) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI);
+    const span = Math.abs(dAngle);
+    // 円弧の外側なら近い方の端点
+    t = norm <= span ? norm / span : (norm - span < 2 * Math.PI - norm ? 1 : 0);
+  }
+  const p = pointOnArcAt(ax, ay, bx, by, bulge, t);
+  return { x: p.x, y: p.y, t, dist: Math.hypot(px - p.x, py - p.y) };
+}
+
 // ===== 円弧作図 UI ヘルパー =====
 
 /**
@@ -366,6 +408,19 @@ export function pointNearArc(
 
 // ── 内部ヘルパー ──────────────────────────────────────────────
 
+/** 円弧の中心・半径と、開始角からの符号付き中心角 */
+function signedSweep(
+  ax: number, ay: number,
+  bx: number, by: number,
+  bulge: number,
+) {
+  const { cx, cy, r, startAngle, endAngle, anticlockwise } = bulgeToArc(ax, ay, bx, by, bulge);
+  let dAngle = endAngle - startAngle;
+  if (!anticlockwise && dAngle <= 0) dAngle += 2 * Math.PI;
+  if ( anticlockwise && dAngle >= 0) dAngle -= 2 * Math.PI;
+  return { cx, cy, r, startAngle, dAngle };
+}
+
 function projectPointOnSegmentLocal(
   px: number, py: number,
   ax: number, ay: number,
@@ -0,0 +1,116 @@
+/**
+ * eigen.ts — 一般化固有値問題 K φ = λ B φ の最小固有値（部分空間反復法）
+ *
+ * K は正定値でスカイライン Cholesky 分解済み、B は対称（不定でもよい）。
+ * X ← K⁻¹ B X を繰り返し、毎回 Rayleigh–Ritz で縮小した問題を解く。
+ * 反復は μ = 1/λ の絶対値の大きい順に収束するので、そのうち正の λ を小さい順に返す。
+ *
+ *   座屈: B = −Kg（圧縮で正）、λ = 座屈荷重係数
+ *   固有振動: B = M、λ = ω²
+ */
+
+import { Matrix, EigenvalueDecomposition } from "ml-matrix";
+import { skylineSolve, type SkylineFactor } from "./sparse";
+
+/** 固有値 λ と固有ベクトル φ（φᵀ K φ = 1 に正規化、SkylineFactor の order の順） */
+export type EigenPair = { value: number; vector: Float64Array };
+
+/** 固有対と、反復の上限までに固有値が収束したか（未収束なら pairs は最後の反復の近似値） */
+export type EigenResult = { converged: boolean; pairs: EigenPair[] };
+
+/** 反復の上限と、固有値の相対変化がこれ以下になったら収束とみなす値 */
+const MAX_ITERATIONS = 200;
+const TOLERANCE      = 1e-6;
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+/** 再現性のある初期ベクトル用の擬似乱数（線形合同法） */
+function seededRandom(seed: number): () => number {
+  let x = seed >>> 0;
+  return () => {
+    x = (Math.imul(x, 1664525) + 1013904223) >>> 0;
+    return x / 4294967296 - 0.5;
+  };
+}
+
+/** 対称行列の固有分解（固有値の大きい順） */
+function symmetricEigen(a: number[][]): { values: number[]; vectors: number[][] } {
+  const sym = a.map((row, i) => row.map((v, j) => (v + a[j][i]) / 2));
+  const eig = new EigenvalueDecomposition(new Matrix(sym), { assumeSymmetric: true });
+  const V = eig.eigenvectorMatrix;
+  const idx = eig.realEigenvalues.map((_, i) => i)
+    .sort((p, q) => eig.realEigenvalues[q] - eig.realEigenvalues[p]);
+  return {
+    values:  idx.map(i => eig.realEigenvalues[i]),
+    vectors: idx.map(i => V.getColumn(i)),
+  };
+}
+
+/**
+ * 正の固有値 λ を小さい順に最大 count 個求める。
+ * applyB は B x（x, 戻り値とも order の順）。正の固有値がなければ pairs は空配列。
+ */
+export function lowestEigenpairs(
+  factor: SkylineFactor,
+  applyB: (x: Float64Array) => Float64Array,
+  count: number,
+): EigenResult {
+  const n = factor.order.length;
+  if (n === 0 || count <= 0) return { converged: true, pairs: [] };
+  const p = Math.min(n, Math.max(2 * count, count + 8));
+
+  const rand = seededRandom(12345);
+  let X: Float64Array[] = Array.from({ length: p }, (_, k) =>
+    Float64Array.from({ length: n }, () => k === 0 ? 1 : rand()));
+
+  let Y = X.map(applyB);   // B X
+  let previous: number[] = [];
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const Z  = Y.map(y => skylineSolve(factor, y));  // K⁻¹ B X
+    const BZ = Z.map(applyB);
+
+    // 縮小した問題 Kr a = λ Br a（Kr = Zᵀ K Z = Zᵀ Y, Br = Zᵀ B Z）
+    const Kr = Z.map(zi => Y.map(yj => dot(zi, yj)));
+    const Br = Z.map(zi => BZ.map(bj => dot(zi, bj)));
+
+    // Kr を固有分解して K 直交な基底 W = V D^{-1/2} に直す（1次従属な列は落とす）
+    const kr = symmetricEigen(Kr);
+    const kmax = Math.max(kr.values[0], 0);
+    if (!(kmax > 0)) return { converged: true, pairs: [] };
+    const keep = kr.values.map((d, i) => ({ d, v: kr.vectors[i] })).filter(e => e.d > 1e-12 * kmax);
+    const W = keep.map(e => e.v.map(x => x / Math.sqrt(e.d)));   // W[col][row]
+    const C = W.map(wi => W.map(wj =>
+      wi.reduce((s, a, r) => s + a * Br[r].reduce((t, b, c) => t + b * wj[c], 0), 0)));
+
+    const ritz = symmetricEigen(C);
+    // Ritz ベクトル X = Z W b（μ の大きい順）。B X も同じ係数で BZ から作る
+    const combine = (cols: Float64Array[], coef: number[]) => {
+      const x = new Float64Array(n);
+      cols.forEach((col, r) => { const cr = coef[r]; if (cr !== 0) for (let i = 0; i < n; i++) x[i] += cr * col[i]; });
+      return x;
+    };
+    const coefs = ritz.vectors.map(b => Z.map((_, r) => W.reduce((s, w, k) => s + w[r] * b[k], 0)));
+    X = coefs.map(coef => combine(Z, coef));
+    Y = coefs.map(coef => combine(BZ, coef));
+
+    const mu = ritz.values;
+    const muMax = Math.max(...mu.map(Math.abs));
+    const wanted = mu.map((m, i) => ({ m, i })).filter(e => e.m > 1e-12 * muMax).slice(0, count);
+    const values = wanted.map(e => 1 / e.m);
+
+    const converged = previous.length === values.length && values.length > 0 &&
+      values.every((v, k) => Math.abs(v - previous[k]) <= TOLERANCE * Math.abs(v));
+    if (converged || iter === MAX_ITERATIONS - 1 || (values.length === 0 && iter > 2)) {
+      return {
+        converged: converged || values.length === 0,
+        pairs: wanted.map((e, k) => ({ value: values[k], vector: X[e.i] })),
+      };
+    }
+    previous = values;
+  }
+  return { converged: false, pairs: [] };
+}
@@ -0,0 +1,132 @@
+/**
+ * envelope.ts — 荷重組合せ結果の包絡（最大・最小断面力と反力）
+ *
+ * ElementResult.points の各サンプル点ごとに N/Q/M の最大・最小をとり、
+ * その値を与えた組合せ（支配組合せ）を記録する。
+ * 組合せが定義されていなければ荷重ケースの結果を対象にする。
+ *
+ * 全結果は同じ部材・支点・サンプル点順で並んでいる前提（solveFem の出力）。
+ *
+ * envelopeSide / memberExtremes は極値に付く情報によらないので、移動荷重の包絡（列車の位置）にも使う。
+ */
+
+import type { ElementResult, LoadResult, LoadResultKey, SectionPoint } from "./femTypes";
+
+/** 極値とそれを与えた結果 */
+export type Extreme = { value: number; key: LoadResultKey; name: string };
+export type EnvelopeRange = { max: Extreme; min: Extreme };
+
+export type EnvelopePoint = {
+  t: number;
+  N: EnvelopeRange;
+  Q: EnvelopeRange;
+  M: EnvelopeRange;
+};
+
+export type ElementEnvelope = {
+  memberId: string;
+  points:   EnvelopePoint[];
+};
+
+export type ReactionEnvelope = {
+  supportId: string;
+  nodeId:    string;
+  fx: EnvelopeRange;
+  fy: EnvelopeRange;
+  m:  EnvelopeRange;
+};
+
+export type Envelope = {
+  /** 包絡の対象にした結果 */
+  sources:   { key: LoadResultKey; name: string }[];
+  elements:  ElementEnvelope[];
+  reactions: ReactionEnvelope[];
+};
+
+/** 包絡の対象: 組合せがあれば組合せ、なければ荷重ケース */
+export function envelopeSources(results: LoadResult[]): LoadResult[] {
+  const combos = results.filter(r => r.kind === "combination");
+  return combos.length > 0 ? combos : results.filter(r => r.kind === "case");
+}
+
+function rangeOf(sources: LoadResult[], value: (r: LoadResult) => number): EnvelopeRange {
+  let max: Extreme | null = null;
+  let min: Extreme | null = null;
+  for (const r of sources) {
+    const v = value(r);
+    if (max === null || v > max.value) max = { value: v, key: r.key, name: r.name };
+    if (min === null || v < min.value) min = { value: v, key: r.key, name: r.name };
+  }
+  return { max: max!, min: min! };
+}
+
+export function buildEnvelope(results: LoadResult[]): Envelope | null {
+  const sources = envelopeSources(results);
+  if (sources.length === 0) return null;
+  const base = sources[0];
+
+  const elements: ElementEnvelope[] = base.elements.map((el, i) => ({
+    memberId: el.memberId,
+    points: el.points.map((pt, k) => ({
+      t: pt.t,
+      N: rangeOf(sources, r => r.elements[i].points[k].N),
+      Q: rangeOf(sources, r => r.elements[i].points[k].Q),
+      M: rangeOf(sources, r => r.elements[i].points[k].M),
+    })),
+  }));
+
+  const reactions: ReactionEnvelope[] = base.reactions.map((rc, i) => ({
+    supportId: rc.supportId,
+    nodeId:    rc.nodeId,
+    fx: rangeOf(sources, r => r.reactions[i].fx),
+    fy: rangeOf(sources, r => r.reactions[i].fy),
+    m:  rangeOf(sources, r => r.reactions[i].m),
+  }));
+
+  return {
+    sources: sources.map(r => ({ key: r.key, name: r.name })),
+    elements,
+    reactions,
+  };
+}
+
+/** サンプル点ごとの N/Q/M の最大・最小（極値に付く情報 E は支配組合せや列車の位置） */
+type RangedElement<E extends { value: number }> = {
+  memberId: string;
+  points:   { t: number; N: { max: E; min: E }; Q: { max: E; min: E }; M: { max: E; min: E } }[];
+};
+
+/**
+ * 包絡の片側（最大側 or 最小側）を ElementResult の形に変換する。
+ * 断面力図の描画ロジックをそのまま使うため。
+ */
+export function envelopeSide<E extends { value: number }>(elements: RangedElement<E>[], side: "max" | "min"): ElementResult[] {
+  return elements.map(el => {
+    const points: SectionPoint[] = el.points.map(p => ({
+      t: p.t, N: p.N[side].value, Q: p.Q[side].value, M: p.M[side].value,
+    }));
+    const a = points[0], b = points[points.length - 1];
+    return {
+      memberId: el.memberId,
+      Na: a.N, Qa: a.Q, Ma: a.M,
+      Nb: b.N, Qb: b.Q, Mb: b.M,
+      points,
+    };
+  });
+}
+
+/** 部材（複数のサブ要素でもよい）全体での最大・最小とその支配組合せ（移動荷重では列車の位置） */
+export function memberExtremes<E extends { value: number }>(
+  elements: RangedElement<E>[],
+  quantity: "N" | "Q" | "M",
+): { max: E; min: E } | null {
+  let max: E | null = null;
+  let min: E | null = null;
+  for (const el of elements)
+    for (const p of el.points) {
+      const r = p[quantity];
+      if (max === null || r.max.value > max.value) max = r.max;
+      if (min === null || r.min.value < min.value) min = r.min;
+    }
+  return max && min ? { max, min } : null;
+}
@@ -8,25 +8,105 @@
  *
  * ■ ローラー angleDeg
  *   0° = x方向が自由（y拘束）, 90° = y方向が自由（x拘束）
+ *   拘束方向は支点アイコンと同じく angleDeg だけ時計回りに回す
+ *
+ * ■ ばね支点
+ *   angleDeg だけ回転した局所座標 x', y'（0° で x, y と一致）に kx, ky、回転に kr を加える。
+ *   反力はばね力 -k·u（節点変位と逆向き）。
+ *
+ * ■ 境界条件
+ *   拘束された座標は未知数から消去し、自由座標だけの連立方程式を解く（拘束変位は厳密に 0 / δ）。
+ *   傾いたローラーは節点の変位を接線・拘束方向に座標変換してから拘束する。
+ *   反力は拘束座標の行の K·U − F。結果にはつり合いの残差（LoadResult.equilibrium）を付ける。
+ *
+ * ■ 支点の強制変位（Support.settlement）
+ *   拘束座標の値として与える（ばね支点は右辺に k·δ を加える）。その荷重ケースの解にだけ現れる。
+ *
+ * ■ 連立方程式（sparse.ts）
+ *   剛性行列は疎行列（COO → CSR）で組み立て、自由座標を逆 Cuthill–McKee 順に並べ替えて
+ *   スカイライン Cholesky で分解する。規模と所要時間は FemResult.solver に返す。
  *
  * ■ 自由度設計
  *   通常ノード : [ux, uy, θ]  3DOF
  *   ヒンジノード: [ux, uy]    2DOF のみ（nodeθを持たせない）
  *     → 接続する各部材端に独立θ (hingeDof) を追加
  *     → 孤立自由度による特異行列を根本から排除
+ *
+ * ■ 部材端の解放（Member.releases）
+ *   要素剛性・等価節点荷重を静的縮合して組み込む（releases.ts）。
+ *   全部材端が解放されて剛性を持たない回転自由度は、回転 0 に固定する。
+ *
+ * ■ トラス材（Member.kind = "truss"）
+ *   両端のモーメントを解放した梁として縮合する（横方向の剛性も 0 になり、軸剛性だけが残る）。
+ *   部材途中の荷重は単純梁の反力として節点に伝わる。断面力は N のみを返す。
+ *
+ * ■ 温度荷重（FemInput.thermalLoads）
+ *   一様な温度変化は軸ひずみ α·ΔT、上下面の温度差は曲率 α·(T上 − T下)/h の初期ひずみとして、
+ *   拘束したときの固定端力（EA·ε0, EI·κ0）を他の部材荷重と同じく等価節点荷重で組み込む。
+ *   円弧は展開後の各サブ部材に同じ温度荷重を与える。トラス材は軸ひずみだけを考える。
+ *
+ * ■ 自重（FemInput.selfWeight）
+ *   各部材に 単位体積重量 × 断面積 の鉛直下向き等分布荷重を、指定の荷重ケースの部材荷重として生成する。
+ *   円弧のサブ部材は弧長あたりの重量を弦長あたりに換算する（サブ部材の合計が円弧の全重量になる）。
+ *
+ * ■ 線形座屈（FemInput.options.buckling）
+ *   各結果の軸力から幾何剛性 Kg を組み立て、(K + λKg)φ = 0 の λ を小さい順に求める（eigen.ts）。
+ *   骨組の部材は内部で EIGEN_SUBDIVISIONS 個の要素に分割した系で解く。組合せは重ね合わせた軸力で別に解く。
+ *
+ * ■ 固有振動（FemInput.options.modal）
+ *   断面の単位長さ質量と節点質量から整合（または集中）質量行列 M を組み立て、
+ *   K φ = ω² M φ の低次のモードを線形座屈と同じ分割した系で求める。結果は荷重によらないので FemResult.modal に1つだけ返す。
+ *
+ * ■ 2次解析（FemInput.options.pDelta）
+ *   K + Kg(N) で解き直して軸力を更新し、変位が収束するまで繰り返す（組合せは直接解く）。
+ *   結果の断面力・反力・変位は2次の値に置き換え、1次の値は secondOrder.firstOrder に残す。
+ *
+ * ■ 時刻歴応答解析（FemInput.options.timeHistory）
+ *   M ü + C u̇ + K u = Σ f(t)·F_case − M r a_g(t) を Newmark-β 法（平均加速度法）で解く。
+ *   C は Rayleigh 減衰 αM + βK（1次・2次の固有円振動数で減衰定数 ζ）。地動加速度の解は支点に対する相対変位。
+ *   有効剛性は時間刻みが一定なので1回だけ分解する。支点の強制変位は考えない。
+ *
+ * ■ 影響線（FemInput.options.influence）
+ *   載荷経路（loadPath.ts）上の点に鉛直下向きの単位荷重を置き、線形解析の分解で繰り返し解いて
+ *   対象の反力・断面力を求める。円弧は展開後のサブ部材の上を動かす。
+ *
+ * ■ 移動荷重（FemInput.options.movingLoad）
+ *   軸荷重の列（列車）を載荷経路に沿って一定の刻みで動かし、位置ごとに同じ分解で解いて
+ *   断面力・反力の最大・最小とそれを与えた列車の位置を記録する。モデルの荷重は含めない。
  */
 
-import { Matrix, solve } from "ml-matrix";
 import type {
   FemInput, FemResult, ElementResult,
-  ReactionResult, DisplacementResult, SectionPoint,
+  ReactionResult, DisplacementResult, SectionPoint, SectionProps,
+  LoadResult, LoadResultKind, LoadResultKey, FemMemberReleases, EquilibriumResidual,
+  SolverStats, FemProgress, FemStage, BucklingResult, MomentAmplification, ModalResult,
+  TimeHistorySettings, TimeHistoryResult, TimeHistoryFrame,
+  InfluenceTarget, InfluenceResult, LoadPathPoint,
+  MovingLoadSettings, MovingLoadResult, TrainPosition, TrainRange,
 } from "./femTypes";
-import { DEFAULT_SECTION } from "./femTypes";
 import { validateModel } from "./validate";
-import { expandArcMembers } from "./arcExpand";
+import { expandArcMembers, type ExpandedFemMember } from "./arcExpand";
+import { condense, releasedDofs, type Condensation } from "./releases";
+import {
+  createCoo, addEntry, cooDiagonal, toCsr, csrRowDot,
+  reverseCuthillMcKee, skylineCholesky, skylineSolve, skylineSize,
+  type CooMatrix, type CsrMatrix, type SkylineFactor,
+} from "./sparse";
+import {
+  equivalentNodalLoads, scaleMemberLoad, loadEffectUpTo, sampleStations,
+  isRightOfJump,
+  type LocalMemberLoad, type LocalDistLoad, type LocalPointLoad, type LocalStrainLoad,
+} from "./memberLoads";
+import { lowestEigenpairs } from "./eigen";
+import { evaluateTimeFunction } from "./timeHistory";
+import { orderLoadPath } from "./loadPath";
 
 // ===== ユーティリティ =====
 
+export function loadResultKey(kind: LoadResultKind, id: string): LoadResultKey {
+  return `${kind}:${id}`;
+}
+
 function deg2rad(deg: number) { return deg * Math.PI / 180; }
 
 /** 0°=下向き, 90°=左向き, -90°=右向き */
@@ -35,10 +115,28 @@ function loadVector(angleDeg: number, magnitude: number): [number, number] {
   return [-magnitude * Math.sin(rad), magnitude * Math.cos(rad)];
 }
 
-/** ローラー拘束方向: 0°→(0,1)=y拘束, 90°→(1,0)=x拘束 */
+/** ローラー拘束方向: 0°→(0,1)=y拘束, 90°→(-1,0)=x拘束（支点アイコンと同じく時計回りに回す） */
 function rollerConstraintVector(angleDeg: number): [number, number] {
   const rad = deg2rad(angleDeg);
-  return [Math.sin(rad), Math.cos(rad)];
+  return [-Math.sin(rad), Math.cos(rad)];
+}
+
+/** ばね支点の局所軸 x', y'（画面上で angleDeg だけ時計回りに回した x, y 軸） */
+function springAxes(angleDeg: number): [[number, number], [number, number]] {
+  const rad = deg2rad(angleDeg);
+  const c = Math.cos(rad), s = Math.sin(rad);
+  return [[c, s], [-s, c]];
+}
+
+/** ばね支点が節点に及ぼす力（全体座標の fx, fy と m）。ux, uy, rot はばねの伸び（節点変位 - 地盤側の強制変位） */
+function springReaction(
+  spring: { kx: number; ky: number; kr: number }, angleDeg: number,
+  ux: number, uy: number, rot: number,
+): [number, number, number] {
+  const [ex, ey] = springAxes(angleDeg);
+  const fxl = -spring.kx * (ux * ex[0] + uy * ex[1]);
+  const fyl = -spring.ky * (ux * ey[0] + uy * ey[1]);
+  return [fxl * ex[0] + fyl * ey[0], fxl * ex[1] + fyl * ey[1], -spring.kr * rot];
 }
 
 function memberGeom(ax: number, ay: number, bx: number, by: number) {
@@ -47,6 +145,24 @@ function memberGeom(ax: number, ay: number, bx: number, by: number) {
   return { L, c: dx / L, s: dy / L };
 }
 
+// ===== 部材剛性 =====
+// 部材が参照する材料 E と断面 A, I から EA, EI を求める。
+// 参照先の存在は validateModel で保証済み。
+
+type StiffnessLookup = {
+  materials: Map<string, { E: number; alpha?: number; unitWeight?: number }>;
+  sections:  Map<string, { A: number; I: number; mass?: number; depth?: number }>;
+};
+
+function memberStiffness(
+  m: { materialId: string; sectionId: string },
+  lookup: StiffnessLookup,
+): SectionProps {
+  const { E } = lookup.materials.get(m.materialId)!;
+  const { A, I } = lookup.sections.get(m.sectionId)!;
+  return { EA: E * A, EI: E * I };
+}
+
 // ===== 自由度マップ =====
 // ヒンジノードは [ux, uy] のみ。θは持たせない。
 // nodeDof の型: isHinge=false → [ux, uy, θ], isHinge=true → [ux, uy, -1]
@@ -126,6 +242,91 @@ function localStiffness(L: number, EA: number, EI: number): number[][] {
   ];
 }
 
+/**
+ * 幾何剛性マトリックス（局所座標 6×6、軸力 N は引張正）。
+ * たわみに3次の Hermite 補間を使った整合行列。
+ */
+function geometricStiffness(L: number, N: number): number[][] {
+  const k = N / L;
+  const a = 6 / 5, b = L / 10, d = 2 * L * L / 15, e = -L * L / 30;
+  return [
+    [0,      0,      0, 0,      0,      0],
+    [0,  k * a,  k * b, 0, -k * a,  k * b],
+    [0,  k * b,  k * d, 0, -k * b,  k * e],
+    [0,      0,      0, 0,      0,      0],
+    [0, -k * a, -k * b, 0,  k * a, -k * b],
+    [0,  k * b,  k * e, 0, -k * b,  k * d],
+  ];
+}
+
+/**
+ * 要素の質量行列（局所座標 6×6、単位長さ質量 m）。
+ * 整合質量は軸方向に線形、たわみに3次の Hermite 補間。集中質量は両端の並進に mL/2 ずつ（回転慣性なし）
+ */
+function massMatrix(L: number, m: number, lumped: boolean): number[][] {
+  if (lumped) {
+    const h = m * L / 2;
+    return [
+      [h, 0, 0, 0, 0, 0],
+      [0, h, 0, 0, 0, 0],
+      [0, 0, 0, 0, 0, 0],
+      [0, 0, 0, h, 0, 0],
+      [0, 0, 0, 0, h, 0],
+      [0, 0, 0, 0, 0, 0],
+    ];
+  }
+  const k = m * L / 420, L2 = L * L;
+  return [
+    [140 * k,           0,             0,  70 * k,           0,             0],
+    [      0,     156 * k,   22 * L * k,       0,      54 * k,   -13 * L * k],
+    [      0,  22 * L * k,    4 * L2 * k,      0,  13 * L * k,   -3 * L2 * k],
+    [ 70 * k,           0,             0, 140 * k,           0,             0],
+    [      0,      54 * k,   13 * L * k,       0,     156 * k,   -22 * L * k],
+    [      0, -13 * L * k,   -3 * L2 * k,      0, -22 * L * k,    4 * L2 * k],
+  ];
+}
+
+/**
+ * 解放端を縮合した要素の行列 Rᵀ a R（幾何剛性・質量）。
+ * R は節点変位から解放端を含む局所変位を復元する行列（列 j = recover(e_j)）
+ */
+function condensedMatrix(cond: Condensation, a: number[][]): number[][] {
+  const zero = [0, 0, 0, 0, 0, 0];
+  const R = zero.map((_, j) => cond.recover(zero.map((_, i) => i === j ? 1 : 0), zero));  // R[j] = 列 j
+  return R.map(ri => R.map(rj =>
+    ri.reduce((sum, r, k) => sum + r * a[k].reduce((t, v, l) => t + v * rj[l], 0), 0)));
+}
+
+/**
+ * 2次解析用の縮合: 幾何剛性 kg を加えた要素剛性を解放について縮合する。
+ * トラス材は線形の縮合（材端モーメント 0 から決まる部材回転）に kg を載せ、軸力 / L の弦の剛性にする。
+ * 解放端の剛性が正でなくなれば（部材単体の座屈）null
+ */
+function secondOrderCondensation(
+  m: { releases?: FemMemberReleases; kind?: "frame" | "truss" },
+  L: number, EA: number, EI: number, kg: number[][],
+): Condensation | null {
+  if (m.kind === "truss") {
+    const cond = memberCondensation(m, L, EA, EI);
+    const kgc  = condensedMatrix(cond, kg);
+    return { ...cond, kl: cond.kl.map((row, i) => row.map((k, j) => k + kgc[i][j])) };
+  }
+  const kt = localStiffness(L, EA, EI).map((row, i) => row.map((k, j) => k + kg[i][j]));
+  return condense(kt, releasedDofs(m.releases));
+}
+
+/** トラス材の解放（両端ピン） */
+const TRUSS_RELEASES: FemMemberReleases = { a: { moment: true }, b: { moment: true } };
+
+/** 部材端の解放を静的縮合した要素剛性（解放の組合せの安定性は validateModel で確認済み） */
+function memberCondensation(
+  m: { releases?: FemMemberReleases; kind?: "frame" | "truss" },
+  L: number, EA: number, EI: number,
+): Condensation {
+  const releases = m.kind === "truss" ? TRUSS_RELEASES : m.releases;
+  return condense(localStiffness(L, EA, EI), releasedDofs(releases))!;
+}
+
 // 座標変換行列 T: q_local = T * q_global
 function transformMatrix(c: number, s: number): number[][] {
   return [
@@ -139,7 +340,7 @@ function transformMatrix(c: number, s: number): number[][] {
 }
 
 // K_global += T^T * K_local * T
-function assembleMember(K: number[][], kl: number[][], T: number[][], dofs: number[]) {
+function assembleMember(K: CooMatrix, kl: number[][], T: number[][], dofs: number[]) {
   const n = 6;
   const KT: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
   for (let i = 0; i < n; i++)
@@ -150,10 +351,40 @@ function assembleMember(K: number[][], kl: number[][], T: number[][], dofs: numb
     for (let j = 0; j < n; j++) {
       let v = 0;
       for (let k = 0; k < n; k++) v += T[k][i] * KT[k][j];
-      K[dofs[i]][dofs[j]] += v;
+      addEntry(K, dofs[i], dofs[j], v);
     }
 }
 
+/** 部材の剛性（解放は縮合済み）を K に組み立て、部材ごとの縮合を返す */
+function assembleStiffness(
+  K: CooMatrix,
+  nodeMap: Map<string, { x: number; y: number }>,
+  members: ExpandedFemMember[],
+  dofMap: DofMap,
+  jointNodeIds: Set<string>,
+  lookup: StiffnessLookup,
+): Map<string, Condensation> {
+  const condByMember = new Map<string, Condensation>();
+  for (const m of members) {
+    const nA = nodeMap.get(m.a)!;
+    const nB = nodeMap.get(m.b)!;
+    const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+    if (L < 1e-10) continue;
+
+    const tAIdx = getRotDof(m.id, m.a, dofMap, jointNodeIds);
+    const tBIdx = getRotDof(m.id, m.b, dofMap, jointNodeIds);
+    const dA = dofMap.nodeDof.get(m.a)!;
+    const dB = dofMap.nodeDof.get(m.b)!;
+
+    const { EA, EI } = memberStiffness(m, lookup);
+    const cond = memberCondensation(m, L, EA, EI);
+    condByMember.set(m.id, cond);
+    assembleMember(K, cond.kl, transformMatrix(c, s),
+      [dA[0], dA[1], tAIdx, dB[0], dB[1], tBIdx]);
+  }
+  return condByMember;
+}
+
 // ===== 荷重ベクトル =====
 
 function applyPointLoad(F: number[], dofMap: DofMap, nodeId: string, angleDeg: number, magnitude: number) {
@@ -164,26 +395,80 @@ function applyPointLoad(F: number[], dofMap: DofMap, nodeId: string, angleDeg: n
   F[dofs[1]] += fy;
 }
 
-function applyDistLoad(
+/**
+ * 分布荷重（全体座標の方向と始端・終端強度、載荷範囲の比）を部材座標の線形分布荷重に変換する。
+ * 強度は basis の長さあたり。投影長あたりの強度は投影長/部材長（|c|, |s|）を掛けて部材長あたりにする。
+ * normal / tangent は angleDeg によらず部材座標の v / u 方向に作用させる。
+ */
+function distLoadToLocal(
+  dl: {
+    angleDeg: number; magnitude: number; magnitudeEnd: number; startRatio: number; endRatio: number;
+    basis?: FemInput["distLoads"][number]["basis"];
+  },
+  c: number, s: number, L: number,
+): LocalDistLoad {
+  const projection = dl.basis === "horizontal" ? Math.abs(c) : dl.basis === "vertical" ? Math.abs(s) : 1;
+  const toLocal = (magnitude: number) => {
+    if (dl.basis === "normal")  return [0, magnitude];
+    if (dl.basis === "tangent") return [magnitude, 0];
+    const [wx, wy] = loadVector(dl.angleDeg, magnitude * projection);
+    return [wx * c + wy * s, -wx * s + wy * c];
+  };
+  const [qu1, qv1] = toLocal(dl.magnitude);
+  const [qu2, qv2] = toLocal(dl.magnitudeEnd);
+  return { kind: "dist", x1: dl.startRatio * L, x2: dl.endRatio * L, qu1, qv1, qu2, qv2 };
+}
+
+/**
+ * 部材途中の集中荷重・集中モーメントを部材座標に変換する。
+ * モーメントの符号は節点モーメント荷重と同じ（時計回り = θ正）。
+ */
+function memberPointLoadToLocal(
+  pl: { ratio: number; kind: "force" | "moment"; angleDeg: number; clockwise: boolean; magnitude: number },
+  c: number, s: number, L: number,
+): LocalPointLoad {
+  const x = pl.ratio * L;
+  if (pl.kind === "moment") {
+    return { kind: "point", x, pu: 0, pv: 0, mz: pl.clockwise ? pl.magnitude : -pl.magnitude };
+  }
+  const [px, py] = loadVector(pl.angleDeg, pl.magnitude);
+  return { kind: "point", x, pu: px * c + py * s, pv: -px * s + py * c, mz: 0 };
+}
+
+/**
+ * 温度荷重を部材座標の初期ひずみに変換する。
+ * ε0 = α·ΔT、κ0 = α·(T上 − T下)/h（上面は −v 側）。せい h が 0 の断面とトラス材は温度差を無視する。
+ */
+function thermalLoadToLocal(
+  tl: { uniform: number; gradient: number },
+  m: { materialId: string; sectionId: string; kind?: "frame" | "truss" },
+  lookup: StiffnessLookup,
+): LocalStrainLoad {
+  const { E, alpha = 0 } = lookup.materials.get(m.materialId)!;
+  const { A, I, depth = 0 } = lookup.sections.get(m.sectionId)!;
+  const curvature = depth > 0 && m.kind !== "truss" ? alpha * tl.gradient / depth : 0;
+  return { kind: "strain", axial: E * A * alpha * tl.uniform, moment: E * I * curvature };
+}
+
+/** 部材の単位長さあたりの自重（単位体積重量 × 断面積） */
+function selfWeightIntensity(m: { materialId: string; sectionId: string }, lookup: StiffnessLookup): number {
+  const { unitWeight = 0 } = lookup.materials.get(m.materialId)!;
+  const { A } = lookup.sections.get(m.sectionId)!;
+  return unitWeight * A;
+}
+
+/** 部材荷重の等価節点荷重を全体荷重ベクトルに加える */
+function applyMemberLoad(
   F: number[],
   dofMap: DofMap,
   memberId: string,
   nodeIdA: string, nodeIdB: string,
   c: number, s: number, L: number,
-  angleDeg: number, magnitude: number,
+  load: LocalMemberLoad,
   jointNodeIds: Set<string>,
+  cond: Condensation,
 ) {
-  const [wx, wy] = loadVector(angleDeg, magnitude);
-  const qu =  wx * c + wy * s;
-  const qv = -wx * s + wy * c;
-
-  // 固定端力（局所座標）
-  const fua = qu * L / 2;
-  const fub = qu * L / 2;
-  const fva = qv * L / 2;
-  const ma  =  qv * L * L / 12;
-  const fvb = qv * L / 2;
-  const mb  = -qv * L * L / 12;
+  const [fua, fva, ma, fub, fvb, mb] = cond.condenseLoad(equivalentNodalLoads(load, L));
 
   const toGlobal = (fu: number, fv: number): [number, number] =>
     [fu * c - fv * s, fu * s + fv * c];
@@ -221,52 +506,183 @@ function applyMomentLoad(
   F[rotDof] += clockwise ? magnitude : -magnitude;
 }
 
-// ===== 境界条件（ペナルティ法） =====
+/** 剛性を持たない回転自由度（全部材端の解放による） */
+function isolatedRotationDofs(diag: Float64Array, dofMap: DofMap): number[] {
+  const maxDiag = diag.reduce((mx, v) => Math.max(mx, Math.abs(v)), 0);
+  const rotDofs = [
+    ...[...dofMap.nodeDof.values()].map(d => d[2]).filter(i => i !== -1),
+    ...dofMap.hingeDof.values(),
+  ];
+  return rotDofs.filter(i => Math.abs(diag[i]) <= 1e-12 * maxDiag);
+}
+
+// ===== ばね支点 =====
+
+/**
+ * ばね支点の剛性を K に加える。強制変位はばねの地盤側を δ だけ動かすものとして、
+ * ばね力 k·δ をその荷重ケースの右辺 rhs に加える（反力の計算に使う荷重ベクトルには含めない）。
+ */
+function applySpringSupports(
+  K: CooMatrix,
+  supports: FemInput["supports"],
+  dofMap: DofMap,
+  rhs: { caseId: string; F: number[] }[],
+) {
+  for (const sup of supports) {
+    if (sup.type !== "spring" || !sup.spring) continue;
+    const dofs = dofMap.nodeDof.get(sup.nodeId);
+    if (!dofs) continue;
+    const [ux, uy, rotOrMinus] = dofs;
+    const { kx, ky, kr } = sup.spring;
+    const [ex, ey] = springAxes(sup.angleDeg);
+    const kxx = kx * ex[0] * ex[0] + ky * ey[0] * ey[0];
+    const kxy = kx * ex[0] * ex[1] + ky * ey[0] * ey[1];
+    const kyy = kx * ex[1] * ex[1] + ky * ey[1] * ey[1];
+    addEntry(K, ux, ux, kxx);
+    addEntry(K, ux, uy, kxy);
+    addEntry(K, uy, ux, kxy);
+    addEntry(K, uy, uy, kyy);
+    if (rotOrMinus !== -1) addEntry(K, rotOrMinus, rotOrMinus, kr);
+
+    const st = sup.settlement;
+    const F  = st ? rhs.find(r => r.caseId === st.caseId)?.F : undefined;
+    if (F) {
+      F[ux] += kxx * st!.dx + kxy * st!.dy;
+      F[uy] += kxy * st!.dx + kyy * st!.dy;
+      if (rotOrMinus !== -1) F[rotOrMinus] += kr * st!.rot;
+    }
+  }
+}
+
+// ===== 境界条件（拘束自由度の消去） =====
+//
+// 支点で拘束される座標を未知数から取り除き、残りの自由座標だけで解く。
+//   pin / fix: 拘束方向は全体座標軸なので、その DOF がそのまま拘束座標
+//   roller   : 節点の (ux, uy) を接線 t・拘束方向 n の成分 (a, b) に座標変換し、b を拘束する
+//              (ux, uy) = t·a + n·b  →  K̃ = Tᵀ K T,  F̃ = Tᵀ F
+// 拘束座標の値は強制変位（なければ 0）。反力は分割した系の拘束座標の行から求める。
+//   R̃c = K̃c· Ũ − F̃c
+
+/** 傾いたローラーで座標変換した節点（ux, uy 番目の座標が a, b になる） */
+type NodeRotation = { ux: number; uy: number; t: [number, number]; n: [number, number] };
 
-const PENALTY = 1e15;
+type Constraints = {
+  /** 拘束座標 → 荷重ケースごとの強制変位 */
+  prescribed: Map<number, number[]>;
+  rotations:  NodeRotation[];
+  /** 支点ID → 拘束座標と、その反力を全体座標 (fx, fy, m) に戻す向き */
+  supportDofs: Map<string, { dof: number; dir: [number, number, number] }[]>;
+};
 
 function applyBoundaryConditions(
-  K: number[][],
   supports: FemInput["supports"],
   dofMap: DofMap,
   // 支点ノードに接続するhingeDofを参照するために members も受け取る
   members: FemInput["members"],
   jointNodeIds: Set<string>,
-) {
+  caseIds: string[],
+): Constraints {
+  const prescribed  = new Map<number, number[]>();
+  const rotations: NodeRotation[] = [];
+  const supportDofs = new Map<string, { dof: number; dir: [number, number, number] }[]>();
+
   for (const sup of supports) {
+    if (sup.type === "spring") continue;
     const dofs = dofMap.nodeDof.get(sup.nodeId);
     if (!dofs) continue;
     const [ux, uy, rotOrMinus] = dofs;
 
+    // 強制変位はその荷重ケースの列にだけ与える
+    const st = sup.settlement;
+    const values = (v: number) => caseIds.map(id => st && st.caseId === id ? v : 0);
+    const list: { dof: number; dir: [number, number, number] }[] = [];
+    const constrain = (dof: number, value: number, dir: [number, number, number]) => {
+      prescribed.set(dof, values(value));
+      list.push({ dof, dir });
+    };
+
+    if (sup.type === "fix" || sup.type === "pin") {
+      constrain(ux, st?.dx ?? 0, [1, 0, 0]);
+      constrain(uy, st?.dy ?? 0, [0, 1, 0]);
+    }
     if (sup.type === "fix") {
-      K[ux][ux] += PENALTY;
-      K[uy][uy] += PENALTY;
       // 通常ノード: nodeθを拘束
-      if (rotOrMinus !== -1) {
-        K[rotOrMinus][rotOrMinus] += PENALTY;
-      }
+      if (rotOrMinus !== -1) constrain(rotOrMinus, st?.rot ?? 0, [0, 0, 1]);
       // ヒンジノード: 接続する全hingeDofを拘束（支点にヒンジは来ない前提だが念のため）
       if (jointNodeIds.has(sup.nodeId)) {
         for (const m of members) {
           for (const nid of [m.a, m.b]) {
-            if (nid === sup.nodeId) {
-              const hd = dofMap.hingeDof.get(`${m.id}:${nid}`);
-              if (hd !== undefined) K[hd][hd] += PENALTY;
-            }
+            if (nid !== sup.nodeId) continue;
+            const hd = dofMap.hingeDof.get(`${m.id}:${nid}`);
+            if (hd !== undefined) constrain(hd, st?.rot ?? 0, [0, 0, 1]);
           }
         }
       }
-    } else if (sup.type === "pin") {
-      K[ux][ux] += PENALTY;
-      K[uy][uy] += PENALTY;
     } else if (sup.type === "roller") {
-      const [nx, ny] = rollerConstraintVector(sup.angleDeg);
-      K[ux][ux] += PENALTY * nx * nx;
-      K[ux][uy] += PENALTY * nx * ny;
-      K[uy][ux] += PENALTY * ny * nx;
-      K[uy][uy] += PENALTY * ny * ny;
+      // 拘束方向の成分だけを与える
+      const n = rollerConstraintVector(sup.angleDeg);
+      const t: [number, number] = [n[1], -n[0]];
+      rotations.push({ ux, uy, t, n });
+      constrain(uy, n[0] * (st?.dx ?? 0) + n[1] * (st?.dy ?? 0), [n[0], n[1], 0]);
     }
+    supportDofs.set(sup.id, list);
+  }
+  return { prescribed, rotations, supportDofs };
+}
+
+/** K̃ = Tᵀ K T（傾いたローラーの節点の行・列を回す）。成分 K_ij は K̃_pq に T_ip·T_jq 倍で入る */
+function rotateStiffness(K: CooMatrix, rotations: NodeRotation[]): CooMatrix {
+  if (rotations.length === 0) return K;
+  // 座標 i → T の行 i の非ゼロ [(p, T_ip)]
+  const expand = new Map<number, [number, number][]>();
+  for (const { ux, uy, t, n } of rotations) {
+    expand.set(ux, [[ux, t[0]], [uy, n[0]]]);
+    expand.set(uy, [[ux, t[1]], [uy, n[1]]]);
   }
+  const out = createCoo(K.n);
+  for (let e = 0; e < K.vals.length; e++) {
+    const i = K.rows[e], j = K.cols[e], v = K.vals[e];
+    const ei = expand.get(i), ej = expand.get(j);
+    if (!ei && !ej) { addEntry(out, i, j, v); continue; }
+    for (const [p, tp] of ei ?? [[i, 1]]) for (const [q, tq] of ej ?? [[j, 1]]) addEntry(out, p, q, tp * tq * v);
+  }
+  return out;
+}
+
+/** F̃ = Tᵀ F */
+function rotateLoad(F: number[], rotations: NodeRotation[]): number[] {
+  const out = [...F];
+  for (const { ux, uy, t, n } of rotations) {
+    out[ux] = t[0] * F[ux] + t[1] * F[uy];
+    out[uy] = n[0] * F[ux] + n[1] * F[uy];
+  }
+  return out;
+}
+
+/** U = T Ũ（回した座標を全体座標の変位に戻す） */
+function unrotateDisplacement(Ut: number[], rotations: NodeRotation[]): number[] {
+  const out = [...Ut];
+  for (const { ux, uy, t, n } of rotations) {
+    out[ux] = t[0] * Ut[ux] + n[0] * Ut[uy];
+    out[uy] = t[1] * Ut[ux] + n[1] * Ut[uy];
+  }
+  return out;
+}
+
+/** K̃fc Ũc の行 i 成分（拘束座標の列だけの和） */
+function prescribedProduct(K: CsrMatrix, i: number, Ut: number[], prescribed: Map<number, number[]>): number {
+  let sum = 0;
+  for (let k = K.rowPtr[i]; k < K.rowPtr[i + 1]; k++) {
+    if (prescribed.has(K.colIdx[k])) sum += K.vals[k] * Ut[K.colIdx[k]];
+  }
+  return sum;
+}
+
+/** 局所変位 ql から Hermite 補間した位置 t（0〜1）の横変位 v */
+function hermiteDeflection(ql: number[], L: number, t: number): number {
+  const t2 = t * t, t3 = t2 * t;
+  return (1 - 3 * t2 + 2 * t3) * ql[1] + (t - 2 * t2 + t3) * L * ql[2]
+    + (3 * t2 - 2 * t3) * ql[4] + (-t2 + t3) * L * ql[5];
 }
 
 // ===== 断面力計算 =====
@@ -289,8 +705,12 @@ function calcElementForces(
   disp: number[],
   dofMap: DofMap,
   jointNodeIds: Set<string>,
-  distLoadsForMember: { angleDeg: number; magnitude: number }[],
-): ElementResult & { faGlobal: number[] } {
+  memberLoads: LocalMemberLoad[],
+  stations: number[],
+  cond: Condensation,
+  axialOnly: boolean,
+  kg?: number[][],
+): ElementResult {
   const dofsA = dofMap.nodeDof.get(nodeIdA)!;
   const dofsB = dofMap.nodeDof.get(nodeIdB)!;
   const tAIdx = getRotDof(memberId, nodeIdA, dofMap, jointNodeIds);
@@ -299,32 +719,26 @@ function calcElementForces(
   // 大域変位 → 局所変位
   const uxA = disp[dofsA[0]], uyA = disp[dofsA[1]], thA = disp[tAIdx];
   const uxB = disp[dofsB[0]], uyB = disp[dofsB[1]], thB = disp[tBIdx];
-  const ql = [
+  const qNodes = [
      uxA*c + uyA*s, -uxA*s + uyA*c, thA,
      uxB*c + uyB*s, -uxB*s + uyB*c, thB,
   ];
 
-  const kl = localStiffness(L, EA, EI);
-  const fl = kl.map(row => row.reduce((sum, k, j) => sum + k * ql[j], 0));
-
-  // 等分布荷重の固定端力補正（複数対応）
-  let fixedEnd = [0, 0, 0, 0, 0, 0];
-  let qv_dist = 0, qu_dist = 0;
-  for (const dl of distLoadsForMember) {
-    const [wx, wy] = loadVector(dl.angleDeg, dl.magnitude);
-    const qu =  wx * c + wy * s;
-    const qv = -wx * s + wy * c;
-    qu_dist += qu;
-    qv_dist += qv;
-    fixedEnd[0] += -qu * L / 2;
-    fixedEnd[1] += -qv * L / 2;
-    fixedEnd[2] += -qv * L * L / 12;
-    fixedEnd[3] += -qu * L / 2;
-    fixedEnd[4] += -qv * L / 2;
-    fixedEnd[5] +=  qv * L * L / 12;
+  // 部材荷重の等価節点荷重（複数対応）。固定端力はこの符号反転
+  const equivalent = [0, 0, 0, 0, 0, 0];
+  for (const ld of memberLoads) {
+    equivalentNodalLoads(ld, L).forEach((f, i) => { equivalent[i] += f; });
   }
 
-  const fa = fl.map((v, i) => v + fixedEnd[i]);
+  // 解放端の局所変位は節点変位と異なるので、材端力 0 の条件から復元する
+  const ql = cond.recover(qNodes, equivalent);
+
+  // 2次解析では幾何剛性を加えた剛性で材端力を求める
+  const kl = localStiffness(L, EA, EI);
+  const kt = kg ? kl.map((row, i) => row.map((k, j) => k + kg[i][j])) : kl;
+  const fl = kt.map(row => row.reduce((sum, k, j) => sum + k * ql[j], 0));
+
+  const fa = fl.map((v, i) => v - equivalent[i]);
 
   // 断面力（数値検証済みの符号規則）
   const Na =  fa[0];
@@ -334,35 +748,255 @@ function calcElementForces(
   const Qb = -fa[4];
   const Mb = -fa[5];
 
-  // 中間点サンプル（11点）: a端からの積分
-  const SAMPLES = 11;
-  const points: SectionPoint[] = [];
-  for (let i = 0; i < SAMPLES; i++) {
-    const t = i / (SAMPLES - 1);
+  // トラス材は報告する断面力を N に絞る
+  const reported = (v: number) => axialOnly ? 0 : v;
+
+  // 中間点サンプル: a端の断面力から x までの荷重の合力を差し引く（厳密値）
+  // 集中荷重位置は同じ t が2つ続き、2つ目は載荷後の値をとる
+  const points: SectionPoint[] = stations.map((t, i) => {
     const x = t * L;
-    points.push({
-      t,
-      N: Na - qu_dist * x,
-      Q: Qa - qv_dist * x,
-      M: Ma + Qa * x - qv_dist * x * x / 2,
-    });
+    const right = isRightOfJump(stations, i);
+    let fu = 0, fv = 0, m = 0;
+    for (const ld of memberLoads) {
+      const e = loadEffectUpTo(ld, x, right);
+      fu += e.fu; fv += e.fv; m += e.m;
+    }
+    // 2次解析: 軸力が区間のたわみ（a端からの横変位）に対してするモーメント
+    const pDelta = kg ? Na * (hermiteDeflection(ql, L, t) - ql[1]) : 0;
+    return { t, N: Na - fu, Q: reported(Qa - fv), M: reported(Ma + Qa * x - m + pDelta) };
+  });
+
+  return {
+    memberId, Na, Qa: reported(Qa), Ma: reported(Ma), Nb, Qb: reported(Qb), Mb: reported(Mb),
+    points,
+  };
+}
+// ===== 荷重組合せ（重ね合わせ） =====
+// 線形解析なので、組合せの結果は各ケース結果の係数倍の和で厳密に求まる。
+// ケース結果はすべて同じ部材・支点・ノード順で並んでいる前提。
+
+type CaseFields = Pick<LoadResult, "elements" | "reactions" | "displacements">;
+
+function superpose(parts: { result: CaseFields; factor: number }[]): CaseFields {
+  const base = parts[0].result;
+  const sum = <T>(pick: (r: CaseFields) => T, field: (v: T) => number) =>
+    parts.reduce((acc, p) => acc + p.factor * field(pick(p.result)), 0);
+
+  const elements: ElementResult[] = base.elements.map((el, i) => ({
+    memberId: el.memberId,
+    Na: sum((r) => r.elements[i], (e) => e.Na),
+    Qa: sum((r) => r.elements[i], (e) => e.Qa),
+    Ma: sum((r) => r.elements[i], (e) => e.Ma),
+    Nb: sum((r) => r.elements[i], (e) => e.Nb),
+    Qb: sum((r) => r.elements[i], (e) => e.Qb),
+    Mb: sum((r) => r.elements[i], (e) => e.Mb),
+    points: el.points.map((pt, k) => ({
+      t: pt.t,
+      N: sum((r) => r.elements[i].points[k], (p) => p.N),
+      Q: sum((r) => r.elements[i].points[k], (p) => p.Q),
+      M: sum((r) => r.elements[i].points[k], (p) => p.M),
+    })),
+  }));
+  const reactions: ReactionResult[] = base.reactions.map((rc, i) => ({
+    supportId: rc.supportId,
+    nodeId:    rc.nodeId,
+    fx: sum((r) => r.reactions[i], (v) => v.fx),
+    fy: sum((r) => r.reactions[i], (v) => v.fy),
+    m:  sum((r) => r.reactions[i], (v) => v.m),
+  }));
+  const displacements: DisplacementResult[] = base.displacements.map((d, i) => ({
+    nodeId: d.nodeId,
+    ux:  sum((r) => r.displacements[i], (v) => v.ux),
+    uy:  sum((r) => r.displacements[i], (v) => v.uy),
+    rot: sum((r) => r.displacements[i], (v) => v.rot),
+  }));
+  return { elements, reactions, displacements };
+}
+
+// ===== つり合いの検算 =====
+// 荷重ベクトル F（節点荷重と部材荷重の等価節点荷重）と反力の合力・原点まわりのモーメントを集計する。
+// 等価節点荷重は元の荷重と静的に等価なので、厳密に解けていれば残差は 0 になる。
+
+/** 力の合計と原点まわりのモーメント（時計回り正）、および桁の目安 scale = Σ|力| */
+type Resultant = { fx: number; fy: number; m: number; scale: number };
+
+function loadResultant(F: number[], dofMap: DofMap, nodeMap: Map<string, { x: number; y: number }>): Resultant {
+  const r: Resultant = { fx: 0, fy: 0, m: 0, scale: 0 };
+  const translational = new Set<number>();
+  for (const [nodeId, [ux, uy]] of dofMap.nodeDof) {
+    const { x, y } = nodeMap.get(nodeId)!;
+    r.fx += F[ux];
+    r.fy += F[uy];
+    r.m  += x * F[uy] - y * F[ux];
+    r.scale += Math.abs(F[ux]) + Math.abs(F[uy]);
+    translational.add(ux).add(uy);
   }
+  // 残りは回転自由度（節点θ・ヒンジ端θ）のモーメント
+  F.forEach((v, i) => { if (!translational.has(i)) r.m += v; });
+  return r;
+}
 
-  // グローバル座標系での材端力（反力計算用）
-  // faGlobal[0,1,2] = a端の fx,fy,m、faGlobal[3,4,5] = b端の fx,fy,m
-  const faGlobal = [
-     fa[0]*c - fa[1]*s,   // a端 fx
-     fa[0]*s + fa[1]*c,   // a端 fy
-     fa[2],               // a端 m
-    -fa[3]*c + fa[4]*s,   // b端 fx（b端はuが逆なのでマイナス）
-    -fa[3]*s - fa[4]*c,   // b端 fy
-    -fa[5],               // b端 m
-  ];
-  return { memberId, Na, Qa, Ma, Nb, Qb, Mb, points, faGlobal };
+function combineResultants(parts: { result: Resultant; factor: number }[]): Resultant {
+  return parts.reduce((acc, { result: r, factor }) => ({
+    fx:    acc.fx + factor * r.fx,
+    fy:    acc.fy + factor * r.fy,
+    m:     acc.m  + factor * r.m,
+    scale: acc.scale + Math.abs(factor) * r.scale,
+  }), { fx: 0, fy: 0, m: 0, scale: 0 });
+}
+
+/** 外力と反力の合計。モーメントは代表長さ lref で割って力と比べる */
+function equilibriumResidual(
+  load: Resultant,
+  reactions: ReactionResult[],
+  nodeMap: Map<string, { x: number; y: number }>,
+  lref: number,
+): EquilibriumResidual {
+  let { fx, fy, m, scale } = load;
+  for (const r of reactions) {
+    const { x, y } = nodeMap.get(r.nodeId)!;
+    fx += r.fx;
+    fy += r.fy;
+    m  += x * r.fy - y * r.fx + r.m;
+    scale += Math.abs(r.fx) + Math.abs(r.fy);
+  }
+  const error = Math.max(Math.hypot(fx, fy), Math.abs(m) / lref);
+  return { fx, fy, m, relative: scale > 0 ? error / scale : error };
+}
+
+/** モデルの代表長さ（外接矩形の長辺） */
+function modelSize(nodes: { x: number; y: number }[]): number {
+  const xs = nodes.map(n => n.x), ys = nodes.map(n => n.y);
+  const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  return size > 0 ? size : 1;
+}
+
+/**
+ * 部材（円弧は元の部材にまとめる）ごとの max|M₂| / max|M₁|。
+ * 1次の M が断面力の大きさ（N, Q はモデルの大きさ lref を掛けてモーメントにそろえる）に対して
+ * ほぼ 0 の部材は除く（軸力だけの部材では M が丸め誤差なので比に意味がない）
+ */
+function momentAmplification(
+  first: ElementResult[], second: ElementResult[], arcGroupMap: Map<string, string>, lref: number,
+): MomentAmplification[] {
+  const peak = (elements: ElementResult[]) => {
+    const out = new Map<string, number>();
+    for (const el of elements) {
+      const id = arcGroupMap.get(el.memberId) ?? el.memberId;
+      out.set(id, Math.max(out.get(id) ?? 0, ...el.points.map(p => Math.abs(p.M))));
+    }
+    return out;
+  };
+  const m1 = peak(first), m2 = peak(second);
+  let ref = 0;
+  for (const el of first) {
+    for (const p of el.points) ref = Math.max(ref, Math.abs(p.M), Math.abs(p.N) * lref, Math.abs(p.Q) * lref);
+  }
+  return [...m1].filter(([, v]) => v > 1e-9 * ref).map(([memberId, v]) => ({ memberId, factor: (m2.get(memberId) ?? 0) / v }));
 }
+
+// ===== 固有値解析用の部材分割 =====
+// 1部材1要素の幾何剛性では座屈荷重を高めに見積もる（両端ピン柱で 12/π² 倍）。
+// 固有値解析のときだけ骨組の部材を EIGEN_SUBDIVISIONS 個の要素に分割した系を別に組み立てる。
+
+/** 分割後の要素が受け持つ元の部材と、その区間 [t0, t1]（部材長さの比） */
+type EigenPiece = { memberId: string; t0: number; t1: number };
+
+/**
+ * split が真の部材を divisions 個の要素に等分する（途中の節点は剛接合）。
+ * 材端の解放は両端の要素にだけ残す。
+ */
+function subdivideMembers(
+  nodes: FemInput["nodes"],
+  members: ExpandedFemMember[],
+  split: (m: ExpandedFemMember) => boolean,
+  divisions: number,
+): { nodes: FemInput["nodes"]; members: ExpandedFemMember[]; pieces: Map<string, EigenPiece> } {
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const outNodes: FemInput["nodes"] = [...nodes];
+  const outMembers: ExpandedFemMember[] = [];
+  const pieces = new Map<string, EigenPiece>();
+
+  for (const m of members) {
+    if (!split(m)) {
+      outMembers.push(m);
+      pieces.set(m.id, { memberId: m.id, t0: 0, t1: 1 });
+      continue;
+    }
+    const nA = nodeMap.get(m.a)!;
+    const nB = nodeMap.get(m.b)!;
+    const ids = [m.a];
+    for (let k = 1; k < divisions; k++) {
+      const id = `__E_${m.id}_${k}`;
+      outNodes.push({ id, x: nA.x + (nB.x - nA.x) * k / divisions, y: nA.y + (nB.y - nA.y) * k / divisions });
+      ids.push(id);
+    }
+    ids.push(m.b);
+    for (let k = 0; k < divisions; k++) {
+      const releases: FemMemberReleases = {
+        ...(k === 0             && m.releases?.a ? { a: m.releases.a } : {}),
+        ...(k === divisions - 1 && m.releases?.b ? { b: m.releases.b } : {}),
+      };
+      const id = `__E_${m.id}_m${k}`;
+      outMembers.push({ id, a: ids[k], b: ids[k + 1], materialId: m.materialId, sectionId: m.sectionId, releases, kind: m.kind });
+      pieces.set(id, { memberId: m.id, t0: k / divisions, t1: (k + 1) / divisions });
+    }
+  }
+  return { nodes: outNodes, members: outMembers, pieces };
+}
+
+/** 断面力のサンプル点から位置 t（部材長さの比）の軸力を線形補間する */
+function axialForceAt(points: SectionPoint[], t: number): number {
+  const i = points.findIndex(p => p.t >= t);
+  if (i <= 0) return points[i === 0 ? 0 : points.length - 1].N;
+  const p0 = points[i - 1], p1 = points[i];
+  return p1.t - p0.t > 0 ? p0.N + (p1.N - p0.N) * (t - p0.t) / (p1.t - p0.t) : p1.N;
+}
+
 // ===== メインソルバー =====
+//
+// 剛性マトリックスは1回だけ組み立てて分解し、荷重ケースごとの荷重ベクトルを
+// 同じ分解で解く。組合せはケース結果の重ね合わせ。
+
+/** 断面力の等間隔サンプル数（荷重の境界位置は別途追加） */
+const BASE_SAMPLES = 11;
+
+/** 線形座屈解析で求めるモードの数と、固有振動解析の既定のモード数 */
+const BUCKLING_MODES = 4;
+const MODAL_MODES    = 6;
+
+/** 線形座屈: 断面力の大きさに対してこの比以下の圧縮力は丸め誤差とみなす */
+const BUCKLING_AXIAL_TOL = 1e-9;
+
+/** 固有値解析で骨組の部材（円弧・トラス材を除く）を分割する要素数 */
+const EIGEN_SUBDIVISIONS = 4;
+
+/** 固有値の部分空間反復が上限回数までに収束しなかったときのメッセージ */
+const EIGEN_NOT_CONVERGED = "固有値の反復計算が収束しませんでした。モデルの剛性・質量の桁が極端に違わないか確認してください。";
+
+/** 2次解析の反復の上限と、変位の変化（最大変位に対する比）の収束判定値 */
+const SECOND_ORDER_ITERATIONS = 50;
+const SECOND_ORDER_TOL        = 1e-8;
+
+/** Newmark-β 法の係数（平均加速度法: 無条件安定で数値減衰なし） */
+const NEWMARK_BETA  = 1 / 4;
+const NEWMARK_GAMMA = 1 / 2;
+/** 時刻歴応答解析の時間ステップ数の上限と、結果に残すコマ数の上限 */
+const TIME_HISTORY_STEPS  = 100000;
+const TIME_HISTORY_FRAMES = 200;
+
+/** 影響線で単位荷重を置く点の数（サブ部材1本あたりの分割数）と、断面の両側に置くときのずらし量（部材長比） */
+const INFLUENCE_SAMPLES = 10;
+const INFLUENCE_EPS     = 1e-6;
 
-export function solveFem(input: FemInput): FemResult {
+/** 移動荷重で調べる列車の位置の数の上限（走行の向きごと） */
+const MOVING_LOAD_POSITIONS = 5000;
+
+export function solveFem(input: FemInput, onProgress?: (progress: FemProgress) => void): FemResult {
+  const t0 = performance.now();
+  const report = (stage: FemStage, fraction = 0) => onProgress?.({ stage, fraction });
+
+  report("validate");
   const validation = validateModel(input);
   if (!validation.ok) {
     return {
@@ -373,145 +1007,229 @@ export function solveFem(input: FemInput): FemResult {
   }
 
   // ---- 円弧部材をサブ要素に展開 ----
+  report("assemble");
   const exp = expandArcMembers(input);
 
-  const { nodes, members, supports, joints, pointLoads, distLoads, momentLoads } = exp;
+  const {
+    nodes, members, supports, joints, pointLoads, distLoads, momentLoads, memberPointLoads, thermalLoads, loadCases,
+  } = exp;
   const nodeMap      = new Map(nodes.map(n => [n.id, n]));
+  const memberMap    = new Map(members.map(m => [m.id, m]));
   const jointNodeIds = new Set(joints.map(j => j.nodeId));
   const dofMap       = buildDofMap(nodes, members, joints);
   const N            = dofMap.totalDof;
-  const { EA, EI }   = DEFAULT_SECTION;
-
-  const K: number[][] = Array.from({ length: N }, () => Array(N).fill(0));
-  const F: number[]   = Array(N).fill(0);
+  const lookup: StiffnessLookup = {
+    materials: new Map(input.materials.map(mt => [mt.id, mt])),
+    sections:  new Map(input.sections.map(sc => [sc.id, sc])),
+  };
 
   // 剛性マトリックスのアセンブル
-  for (const m of members) {
+  const K = createCoo(N);
+  const condByMember = assembleStiffness(K, nodeMap, members, dofMap, jointNodeIds, lookup);
+
+  // ---- 部材荷重を部材座標に変換（全ケース分）----
+  const allMemberLoads = new Map<string, { caseId: string; load: LocalMemberLoad }[]>();
+  for (const dl of distLoads) {
+    const m = memberMap.get(dl.memberId);
+    if (!m) continue;
     const nA = nodeMap.get(m.a)!;
     const nB = nodeMap.get(m.b)!;
     const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
     if (L < 1e-10) continue;
-
-    const tAIdx = getRotDof(m.id, m.a, dofMap, jointNodeIds);
-    const tBIdx = getRotDof(m.id, m.b, dofMap, jointNodeIds);
-    const dA = dofMap.nodeDof.get(m.a)!;
-    const dB = dofMap.nodeDof.get(m.b)!;
-
-    assembleMember(K, localStiffness(L, EA, EI), transformMatrix(c, s),
-      [dA[0], dA[1], tAIdx, dB[0], dB[1], tBIdx]);
-  }
-
-  // 集中荷重
-  for (const pl of pointLoads) {
-    applyPointLoad(F, dofMap, pl.nodeId, pl.angleDeg, pl.magnitude);
+    const arr = allMemberLoads.get(m.id) ?? [];
+    arr.push({ caseId: dl.caseId, load: distLoadToLocal(dl, c, s, L) });
+    allMemberLoads.set(m.id, arr);
   }
-
-  // モーメント荷重
-  for (const ml of momentLoads) {
-    applyMomentLoad(F, dofMap, ml.nodeId, ml.clockwise, ml.magnitude);
-  }
-
-  // 等分布荷重（同一部材への複数対応）
-  const distLoadsByMember = new Map<string, typeof distLoads>();
-  for (const dl of distLoads) {
-    const arr = distLoadsByMember.get(dl.memberId) ?? [];
-    arr.push(dl);
-    distLoadsByMember.set(dl.memberId, arr);
-  }
-  for (const [mid, dls] of distLoadsByMember) {
-    const m = members.find(m => m.id === mid);
+  for (const pl of memberPointLoads) {
+    const m = memberMap.get(pl.memberId);
     if (!m) continue;
     const nA = nodeMap.get(m.a)!;
     const nB = nodeMap.get(m.b)!;
     const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
-    for (const dl of dls) {
-      applyDistLoad(F, dofMap, m.id, m.a, m.b, c, s, L, dl.angleDeg, dl.magnitude, jointNodeIds);
-    }
+    if (L < 1e-10) continue;
+    const arr = allMemberLoads.get(m.id) ?? [];
+    arr.push({ caseId: pl.caseId, load: memberPointLoadToLocal(pl, c, s, L) });
+    allMemberLoads.set(m.id, arr);
   }
-
-  // 境界条件
-  applyBoundaryConditions(K, supports, dofMap, members, jointNodeIds);
-
-  // 連立方程式を解く
-  let dispArray: number[];
-  try {
-    dispArray = solve(new Matrix(K), Matrix.columnVector(F)).getColumn(0);
-  } catch {
-    return { ok: false, reason: "singular", message: "剛性行列が特異です。構造が不安定な可能性があります。" };
+  for (const tl of thermalLoads) {
+    const m = memberMap.get(tl.memberId);
+    if (!m) continue;
+    const arr = allMemberLoads.get(m.id) ?? [];
+    arr.push({ caseId: tl.caseId, load: thermalLoadToLocal(tl, m, lookup) });
+    allMemberLoads.set(m.id, arr);
   }
-
-  const maxDisp = Math.max(...dispArray.map(Math.abs));
-  if (!isFinite(maxDisp) || maxDisp > 1e10) {
-    return { ok: false, reason: "unstable", message: "構造が不安定です。支点条件を確認してください。" };
+  if (exp.selfWeight) {
+    for (const m of members) {
+      const nA = nodeMap.get(m.a)!;
+      const nB = nodeMap.get(m.b)!;
+      const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+      if (L < 1e-10) continue;
+      const geom   = exp.arcMemberGeom.get(m.id);
+      const length = geom ? geom.r * Math.abs(geom.angleSpan) : L;
+      const w = selfWeightIntensity(m, lookup) * length / L;
+      if (w === 0) continue;
+      const arr = allMemberLoads.get(m.id) ?? [];
+      arr.push({
+        caseId: exp.selfWeight.caseId,
+        load: distLoadToLocal({ angleDeg: 0, magnitude: w, magnitudeEnd: w, startRatio: 0, endRatio: 1 }, c, s, L),
+      });
+      allMemberLoads.set(m.id, arr);
+    }
   }
 
-  // ---- 断面力の計算（展開済みサブ部材をそのまま使用）----
-  const elementResults: ElementResult[] = [];
+  // 断面力のサンプル位置は全ケース共通（組合せ・包絡で点ごとに重ね合わせるため）
+  const stationsByMember = new Map<string, number[]>();
   for (const m of members) {
     const nA = nodeMap.get(m.a)!;
     const nB = nodeMap.get(m.b)!;
-    const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
-    if (L < 1e-10) continue;
-    elementResults.push(calcElementForces(
-      m.id, m.a, m.b, c, s, L, EA, EI, dispArray, dofMap, jointNodeIds,
-      distLoadsByMember.get(m.id) ?? [],
-    ));
+    const { L } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+    const loads = (allMemberLoads.get(m.id) ?? []).map(it => it.load);
+    stationsByMember.set(m.id, sampleStations(loads, L, BASE_SAMPLES));
   }
 
-  // 反力：支点ノードに接続する部材の材端力（グローバル座標）合計から算出。
-  // ペナルティ法の K*U-F は数値誤差が大きいため、材端力ベースに切り替え。
-  //
-  // 符号：部材がノードに及ぼす力 = -（ノードが部材に及ぼす力）
-  //   a端に支点 → ノードへの力 = -faGlobal[0,1,2]
-  //   b端に支点 → ノードへの力 = -faGlobal[3,4,5]
-  // さらに反力は外力と逆符号なので全体を符号反転して反力 = 部材力の合計。
-
-  // 支点ノードID → 材端力の累積
-  const nodeForceAccum = new Map<string, [number, number, number]>();
-  for (const el of elementResults) {
-    const m = members.find(m => m.id === el.memberId)!;
-    const { faGlobal } = el as ElementResult & { faGlobal: number[] };
-
-    // a端
-    if (!nodeForceAccum.has(m.a)) nodeForceAccum.set(m.a, [0, 0, 0]);
-    const accA = nodeForceAccum.get(m.a)!;
-    accA[0] += faGlobal[0];
-    accA[1] += faGlobal[1];
-    accA[2] += faGlobal[2];
-
-    // b端
-    if (!nodeForceAccum.has(m.b)) nodeForceAccum.set(m.b, [0, 0, 0]);
-    const accB = nodeForceAccum.get(m.b)!;
-    accB[0] += faGlobal[3];
-    accB[1] += faGlobal[4];
-    accB[2] += faGlobal[5];
+  // ---- 荷重ケースごとの荷重ベクトル ----
+  const caseLoads = loadCases.map((lc) => {
+    const F: number[] = Array(N).fill(0);
+
+    // 集中荷重
+    for (const pl of pointLoads) {
+      if (pl.caseId !== lc.id) continue;
+      applyPointLoad(F, dofMap, pl.nodeId, pl.angleDeg, pl.magnitude);
+    }
+
+    // モーメント荷重
+    for (const ml of momentLoads) {
+      if (ml.caseId !== lc.id) continue;
+      applyMomentLoad(F, dofMap, ml.nodeId, ml.clockwise, ml.magnitude);
+    }
+
+    const Fnodal = [...F];
+
+    // 部材荷重（同一部材への複数対応）
+    const memberLoads = new Map<string, LocalMemberLoad[]>();
+    for (const [mid, items] of allMemberLoads) {
+      const inCase = items.filter(it => it.caseId === lc.id).map(it => it.load);
+      if (inCase.length === 0) continue;
+      memberLoads.set(mid, inCase);
+      const m = memberMap.get(mid)!;
+      const nA = nodeMap.get(m.a)!;
+      const nB = nodeMap.get(m.b)!;
+      const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+      for (const ld of inCase) {
+        applyMemberLoad(F, dofMap, m.id, m.a, m.b, c, s, L, ld, jointNodeIds, condByMember.get(m.id)!);
+      }
+    }
+
+    return { loadCase: lc, F, Fnodal, memberLoads };
+  });
+
+  // 全部材端が解放された回転自由度（剛性 0）は回転 0 に固定する。
+  // そこにモーメント荷重が作用していれば機構なので解けない。
+  // （判定は支点ばねを加える前の剛性で行い、固定支点・回転ばねで拘束されたものは除く）
+  const diag0    = cooDiagonal(K);
+  const isolated = isolatedRotationDofs(diag0, dofMap);
+
+  // ばね支点（強制変位は解くための右辺にだけ加える）
+  const rhs = caseLoads.map(cl => ({ caseId: cl.loadCase.id, F: [...cl.F] }));
+  applySpringSupports(K, supports, dofMap, rhs);
+  const diag1 = cooDiagonal(K);
+  // ばね支点の強制変位による右辺（2次解析で剛性を組み直すときに使う）
+  const springLoads = rhs.map((r, j) => r.F.map((v, i) => v - caseLoads[j].F[i]));
+
+  // 境界条件
+  const caseIds = loadCases.map(lc => lc.id);
+  const cons    = applyBoundaryConditions(supports, dofMap, members, jointNodeIds, caseIds);
+  const freeRotDofs = isolated.filter(i => !cons.prescribed.has(i) && diag1[i] === diag0[i]);
+
+  for (const i of freeRotDofs) {
+    if (caseLoads.some(cl => cl.F[i] !== 0)) {
+      return { ok: false, reason: "unstable", message: "部材端がすべて解放された節点（トラス材のみの節点など）にモーメント荷重が作用しています。" };
+    }
+    cons.prescribed.set(i, caseIds.map(() => 0));
   }
 
-  // 外力ベクトル F のノードへの寄与を材端力から差し引く（分布荷重等の固定端力分）
-  // → 材端力の合計は「節点に作用する内力」なので、外力との差が反力
+  const Kt   = toCsr(rotateStiffness(K, cons.rotations));
+  const rhsT = rhs.map(r => rotateLoad(r.F, cons.rotations));
 
-  const reactions: ReactionResult[] = [];
-  for (const sup of supports) {
-    const acc = nodeForceAccum.get(sup.nodeId) ?? [0, 0, 0];
-    // 外力を差し引く（pointLoad等は F[] に入っているが材端力に含まれないため）
-    const dofs = dofMap.nodeDof.get(sup.nodeId);
-    if (!dofs) continue;
-    const extFx = F[dofs[0]];
-    const extFy = F[dofs[1]];
-    const extM  = dofs[2] !== -1 ? F[dofs[2]] : 0;
-
-    reactions.push({
-      supportId: sup.id,
-      nodeId: sup.nodeId,
-      fx: acc[0] - extFx,
-      fy: acc[1] - extFy,
-      m:  (sup.type === "fix") ? acc[2] - extM : 0,
-    });
+  // 自由座標 f を逆 Cuthill–McKee 順に並べ、K̃ff をスカイライン Cholesky で1回だけ分解する
+  const tOrdering = performance.now();
+  report("order");
+  const freeDofs  = Array.from({ length: N }, (_, i) => i).filter(i => !cons.prescribed.has(i));
+  const order     = reverseCuthillMcKee(Kt, freeDofs);
+
+  const tFactor = performance.now();
+  report("factor");
+  const factor  = skylineCholesky(Kt, order, (fraction) => report("factor", fraction));
+  if (!factor) {
+    return { ok: false, reason: "singular", message: "剛性行列が特異です。構造が不安定な可能性があります。" };
+  }
+
+  // 全ケースを同じ分解で解く:  K̃ff Ũf = F̃f − K̃fc Ũc
+  const tSolve = performance.now();
+  const Ut: number[][] = caseLoads.map((_, j) => {
+    const u = Array(N).fill(0);
+    for (const [c, values] of cons.prescribed) u[c] = values[j];
+    return u;
+  });
+  rhsT.forEach((F, j) => {
+    report("solve", j / rhsT.length);
+    const b  = order.map(i => F[i] - prescribedProduct(Kt, i, Ut[j], cons.prescribed));
+    const uf = skylineSolve(factor, b);
+    order.forEach((dof, k) => { Ut[j][dof] = uf[k]; });
+  });
+  const dispColumns = Ut.map(u => unrotateDisplacement(u, cons.rotations));
+
+  for (const dispArray of dispColumns) {
+    const maxDisp = Math.max(0, ...dispArray.map(Math.abs));
+    if (!isFinite(maxDisp) || maxDisp > 1e10) {
+      return { ok: false, reason: "unstable", message: "構造が不安定です。支点条件を確認してください。" };
+    }
   }
+  const tRecovery = performance.now();
 
-  // 変位結果（展開済み全ノード）
-  const displacements: DisplacementResult[] = nodes.map(n => {
-    const d = dofMap.nodeDof.get(n.id)!;
+  /**
+   * 支点反力: 拘束座標の行の R̃c = K̃c·Ũ − F̃c を全体座標に戻す。ばね支点はばね力。
+   * weights は荷重ケースごとの係数（ケースの結果なら自身だけ 1）、F は同じ係数で重ねた荷重
+   */
+  const supportReactions = (
+    weights: number[], F: number[], dispArray: number[], Ut: number[], Kmat: CsrMatrix,
+  ): ReactionResult[] => {
+    const Ft = rotateLoad(F, cons.rotations);
+    const reactions: ReactionResult[] = [];
+    for (const sup of supports) {
+      const dofs = dofMap.nodeDof.get(sup.nodeId);
+      if (!dofs) continue;
+
+      if (sup.type === "spring" && sup.spring) {
+        const st = sup.settlement;
+        const w  = st ? weights[caseIds.indexOf(st.caseId)] ?? 0 : 0;
+        const [fx, fy, m] = springReaction(
+          sup.spring, sup.angleDeg,
+          dispArray[dofs[0]] - w * (st?.dx ?? 0),
+          dispArray[dofs[1]] - w * (st?.dy ?? 0),
+          dofs[2] !== -1 ? dispArray[dofs[2]] - w * (st?.rot ?? 0) : 0,
+        );
+        reactions.push({ supportId: sup.id, nodeId: sup.nodeId, fx, fy, m });
+        continue;
+      }
+
+      const r = { supportId: sup.id, nodeId: sup.nodeId, fx: 0, fy: 0, m: 0 };
+      for (const { dof, dir } of cons.supportDofs.get(sup.id) ?? []) {
+        const Rc = csrRowDot(Kmat, dof, Ut) - Ft[dof];
+        r.fx += Rc * dir[0];
+        r.fy += Rc * dir[1];
+        r.m  += Rc * dir[2];
+      }
+      reactions.push(r);
+    }
+    return reactions;
+  };
+
+  /** 変位結果（展開済み全ノード。sys を渡せばその系の全ノード） */
+  const nodeDisplacements = (
+    dispArray: number[], sys: { nodes: typeof nodes; dofMap: DofMap } = { nodes, dofMap },
+  ): DisplacementResult[] => sys.nodes.map(n => {
+    const d = sys.dofMap.nodeDof.get(n.id)!;
     return {
       nodeId: n.id,
       ux:  dispArray[d[0]],
@@ -520,14 +1238,859 @@ export function solveFem(input: FemInput): FemResult {
     };
   });
 
+  /** 荷重ケース j だけを取り出す係数 */
+  const caseWeights = (j: number) => caseIds.map((_, i) => i === j ? 1 : 0);
+
+  /** 変位から全部材の断面力を求める。second は2次解析の縮合と幾何剛性（なければ線形） */
+  const memberForces = (
+    dispArray: number[],
+    memberLoads: Map<string, LocalMemberLoad[]>,
+    second?: (memberId: string) => { cond: Condensation; kg: number[][] } | undefined,
+  ): ElementResult[] => {
+    // 展開済みサブ部材をそのまま使用
+    const elementResults: ElementResult[] = [];
+    for (const m of members) {
+      const nA = nodeMap.get(m.a)!;
+      const nB = nodeMap.get(m.b)!;
+      const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+      if (L < 1e-10) continue;
+      const { EA, EI } = memberStiffness(m, lookup);
+      const so = second?.(m.id);
+      elementResults.push(calcElementForces(
+        m.id, m.a, m.b, c, s, L, EA, EI, dispArray, dofMap, jointNodeIds,
+        memberLoads.get(m.id) ?? [], stationsByMember.get(m.id)!, so?.cond ?? condByMember.get(m.id)!,
+        m.kind === "truss", so?.kg,
+      ));
+    }
+    return elementResults;
+  };
+
+  /** 1ケース分の変位から断面力・反力・変位結果を求める */
+  const recoverCase = (
+    j: number,
+    dispArray: number[],
+    memberLoads: Map<string, LocalMemberLoad[]>,
+  ): CaseFields => {
+    return {
+      elements:      memberForces(dispArray, memberLoads),
+      reactions:     supportReactions(caseWeights(j), caseLoads[j].F, dispArray, Ut[j], Kt),
+      displacements: nodeDisplacements(dispArray),
+    };
+  };
+
+  // ---- つり合いの検算 ----
+  const applied = caseLoads.map(cl => loadResultant(cl.F, dofMap, nodeMap));
+  const lref = modelSize(nodes);
+
+  const caseResults: LoadResult[] = caseLoads.map((cl, j) => {
+    report("recover", j / caseLoads.length);
+    const fields = recoverCase(j, dispColumns[j], cl.memberLoads);
+    return {
+      key:  loadResultKey("case", cl.loadCase.id),
+      kind: "case",
+      id:   cl.loadCase.id,
+      name: cl.loadCase.name,
+      ...fields,
+      equilibrium: equilibriumResidual(applied[j], fields.reactions, nodeMap, lref),
+    };
+  });
+
+  const comboResults: LoadResult[] = input.combinations.map((cb) => {
+    const parts = caseResults.map((r) => ({ result: r, factor: cb.factors[r.id] ?? 0 }));
+    const fields = superpose(parts);
+    return {
+      key:  loadResultKey("combination", cb.id),
+      kind: "combination",
+      id:   cb.id,
+      name: cb.name,
+      ...fields,
+      equilibrium: equilibriumResidual(
+        combineResultants(applied.map((a, j) => ({ result: a, factor: parts[j].factor }))),
+        fields.reactions, nodeMap, lref),
+    };
+  });
+
+  if (caseResults.some(r => !isFinite(r.equilibrium.relative))) {
+    return { ok: false, reason: "unstable", message: "構造が不安定です。支点条件を確認してください。" };
+  }
+
+  // ---- 固有値解析（線形座屈・固有振動）の共通部分 ----
+  /** 固有値問題を解く系（節点・部材・自由度と、自由座標の K̃ff の分解） */
+  type EigenSystem = {
+    nodes: typeof nodes;
+    members: typeof members;
+    nodeMap: Map<string, (typeof nodes)[number]>;
+    dofMap: DofMap;
+    condByMember: Map<string, Condensation>;
+    rotations: NodeRotation[];
+    order: number[];
+    factor: SkylineFactor;
+  };
+  const mainSystem: EigenSystem = { nodes, members, nodeMap, dofMap, condByMember, rotations: cons.rotations, order, factor };
+
+  /**
+   * 骨組の部材を EIGEN_SUBDIVISIONS 個に分割した系（線形座屈・固有振動で使うときに1回だけ組み立てる）。
+   * 円弧のサブ部材は展開で分割済み、トラス材は途中に節点を置くと機構になるので分割しない。
+   */
+  let refined: (EigenSystem & { pieces: Map<string, EigenPiece> }) | null | undefined;
+  const refinedSystem = () => {
+    if (refined !== undefined) return refined;
+    const sub = subdivideMembers(
+      nodes, members, m => m.kind !== "truss" && !exp.arcGroupMap.has(m.id), EIGEN_SUBDIVISIONS);
+    const rNodeMap = new Map(sub.nodes.map(n => [n.id, n]));
+    const rDofMap  = buildDofMap(sub.nodes, sub.members, joints);
+    const rK       = createCoo(rDofMap.totalDof);
+    const rCond    = assembleStiffness(rK, rNodeMap, sub.members, rDofMap, jointNodeIds, lookup);
+    const rDiag0   = cooDiagonal(rK);
+    const rIsolated = isolatedRotationDofs(rDiag0, rDofMap);
+    applySpringSupports(rK, supports, rDofMap, []);
+    const rDiag1 = cooDiagonal(rK);
+    const rCons  = applyBoundaryConditions(supports, rDofMap, sub.members, jointNodeIds, caseIds);
+    for (const i of rIsolated) {
+      if (!rCons.prescribed.has(i) && rDiag1[i] === rDiag0[i]) rCons.prescribed.set(i, caseIds.map(() => 0));
+    }
+    const rKt    = toCsr(rotateStiffness(rK, rCons.rotations));
+    const rOrder = reverseCuthillMcKee(rKt, Array.from({ length: rDofMap.totalDof }, (_, i) => i).filter(i => !rCons.prescribed.has(i)));
+    const rFactor = skylineCholesky(rKt, rOrder);
+    refined = rFactor && {
+      nodes: sub.nodes, members: sub.members, nodeMap: rNodeMap, dofMap: rDofMap, condByMember: rCond,
+      rotations: rCons.rotations, order: rOrder, factor: rFactor, pieces: sub.pieces,
+    };
+    return refined;
+  };
+
+  /** 自由座標（sys.order の順）のベクトルに、回した座標の全体行列 At の自由座標部分を掛ける */
+  const freeProduct = (sys: EigenSystem, At: CsrMatrix) => {
+    const full = new Float64Array(sys.dofMap.totalDof);
+    return (x: Float64Array) => {
+      sys.order.forEach((dof, k) => { full[dof] = x[k]; });
+      return Float64Array.from(sys.order, dof => csrRowDot(At, dof, full));
+    };
+  };
+  const freeOperator = (sys: EigenSystem, A: CooMatrix) => freeProduct(sys, toCsr(rotateStiffness(A, sys.rotations)));
+
+  /**
+   * 固有ベクトル（sys.order の順）をノードの変位に戻し、絶対値最大の並進成分を +1 にそろえる。
+   * 返すのは展開済みのノードだけ（分割で加えた節点は除く）
+   */
+  const modeShape = (sys: EigenSystem, vector: Float64Array): DisplacementResult[] => {
+    const u = Array(sys.dofMap.totalDof).fill(0);
+    sys.order.forEach((dof, k) => { u[dof] = vector[k]; });
+    const disp = nodeDisplacements(unrotateDisplacement(u, sys.rotations), sys);
+    const peak = disp.reduce((best, d) =>
+      [d.ux, d.uy].reduce((b, v) => Math.abs(v) > Math.abs(b) ? v : b, best), 0) || 1;
+    return disp
+      .filter(d => nodeMap.has(d.nodeId))
+      .map(d => ({ nodeId: d.nodeId, ux: d.ux / peak, uy: d.uy / peak, rot: d.rot / peak }));
+  };
+
+  /** 部材の要素行列（局所座標、解放は縮合済み）を全体座標で組み立てる */
+  const assembleElements = (
+    sys: EigenSystem, A: CooMatrix,
+    elementMatrix: (m: (typeof members)[number], L: number) => number[][] | null,
+  ) => {
+    for (const m of sys.members) {
+      const nA = sys.nodeMap.get(m.a)!;
+      const nB = sys.nodeMap.get(m.b)!;
+      const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+      if (L < 1e-10) continue;
+      const am = elementMatrix(m, L);
+      if (!am) continue;
+      const dA = sys.dofMap.nodeDof.get(m.a)!;
+      const dB = sys.dofMap.nodeDof.get(m.b)!;
+      assembleMember(A, condensedMatrix(sys.condByMember.get(m.id)!, am), transformMatrix(c, s), [
+        dA[0], dA[1], getRotDof(m.id, m.a, sys.dofMap, jointNodeIds),
+        dB[0], dB[1], getRotDof(m.id, m.b, sys.dofMap, jointNodeIds),
+      ]);
+    }
+  };
+
+  // ---- 線形座屈 ----
+  // B = −Kg(引張力) = Kg(圧縮力)。Na, Nb は圧縮で正なので、分割した要素の区間の平均軸力をそのまま入れる。
+  // 拘束座標を除いた K̃ff φ = (1/λ)·(−K̃g)ff φ を、分割した系の分解を使って解く。
+  const bucklingAnalysis = (elements: ElementResult[]): BucklingResult => {
+    // 圧縮力が丸め誤差ほどしかないと Kg も誤差だけになり、桁外れに大きい λ が出てしまう
+    let compression = 0, forceScale = 0;
+    for (const el of elements) {
+      for (const p of el.points) {
+        compression = Math.max(compression, p.N);
+        forceScale  = Math.max(forceScale, Math.abs(p.N), Math.abs(p.Q), Math.abs(p.M) / lref);
+      }
+    }
+    if (compression <= BUCKLING_AXIAL_TOL * forceScale) {
+      return { ok: false, message: "圧縮力による座屈モードがありません。" };
+    }
+
+    const sys = refinedSystem();
+    if (!sys) {
+      return { ok: false, message: "剛性行列が特異です。構造が不安定な可能性があります。" };
+    }
+    const byMember = new Map(elements.map(el => [el.memberId, el]));
+    const G = createCoo(sys.dofMap.totalDof);
+    assembleElements(sys, G, (m, L) => {
+      const piece = sys.pieces.get(m.id)!;
+      const el = byMember.get(piece.memberId);
+      return el ? geometricStiffness(L, (axialForceAt(el.points, piece.t0) + axialForceAt(el.points, piece.t1)) / 2) : null;
+    });
+
+    const { converged, pairs } = lowestEigenpairs(sys.factor, freeOperator(sys, G), BUCKLING_MODES);
+    if (pairs.length === 0) {
+      return { ok: false, message: "圧縮力による座屈モードがありません。" };
+    }
+    if (!converged) {
+      return { ok: false, message: EIGEN_NOT_CONVERGED };
+    }
+    return {
+      ok: true,
+      modes: pairs.map(({ value, vector }) => ({ factor: value, displacements: modeShape(sys, vector) })),
+    };
+  };
+
+  // ---- 固有振動 ----
+  // 部材の単位長さ質量（断面の mass）と節点質量から質量行列 M を作り、K̃ff φ = ω² M̃ff φ を解く。
+  // 1部材1要素では高次のモードが出ず振動数も高めになるので、分割した系で解く（時刻歴は元の系）。
+  const assembleMass = (sys: EigenSystem): CooMatrix => {
+    const lumped = !!input.options?.lumpedMass;
+    const M = createCoo(sys.dofMap.totalDof);
+    assembleElements(sys, M, (m, L) => {
+      const mass = lookup.sections.get(m.sectionId)!.mass ?? 0;
+      return mass > 0 ? massMatrix(L, mass, lumped) : null;
+    });
+    for (const n of nodes) {
+      if (!n.mass) continue;
+      const d = sys.dofMap.nodeDof.get(n.id)!;
+      addEntry(M, d[0], d[0], n.mass);
+      addEntry(M, d[1], d[1], n.mass);
+    }
+    return M;
+  };
+
+  const modalAnalysis = (): ModalResult => {
+    const sys = refinedSystem();
+    if (!sys) {
+      return { ok: false, message: "剛性行列が特異です。構造が不安定な可能性があります。" };
+    }
+    const M = assembleMass(sys);
+    const { converged, pairs } = lowestEigenpairs(sys.factor, freeOperator(sys, M), input.options?.modalModes ?? MODAL_MODES);
+    if (pairs.length === 0) {
+      return { ok: false, message: "質量がありません。断面の単位長さ質量か節点質量を設定してください。" };
+    }
+    if (!converged) {
+      return { ok: false, message: EIGEN_NOT_CONVERGED };
+    }
+    return {
+      ok: true,
+      modes: pairs.map(({ value, vector }) => {
+        const omega = Math.sqrt(value);
+        const frequency = omega / (2 * Math.PI);
+        return { omega, frequency, period: 1 / frequency, displacements: modeShape(sys, vector) };
+      }),
+    };
+  };
+
+  // ---- 2次解析（P-Δ）----
+  // 部材の軸力による幾何剛性を加えた K + Kg で解き直し、変位が変わらなくなるまで繰り返す。
+  // 重ね合わせが成り立たないので、組合せは係数倍した荷重で直接解く。
+  // 反力は K + Kg の行から求め、つり合いは変形後の節点位置で検算する。
+  type SecondOrderSolution =
+    | { ok: true; iterations: number; fields: CaseFields; equilibrium: EquilibriumResidual }
+    | { ok: false; message: string };
+
+  /** 荷重ケースごとの係数 weights で重ねた部材荷重 */
+  const weightedMemberLoads = (weights: number[]) => {
+    const memberLoads = new Map<string, LocalMemberLoad[]>();
+    caseLoads.forEach((cl, j) => {
+      if (weights[j] === 0) return;
+      for (const [mid, loads] of cl.memberLoads) {
+        memberLoads.set(mid, [...(memberLoads.get(mid) ?? []), ...loads.map(ld => scaleMemberLoad(ld, weights[j]))]);
+      }
+    });
+    return memberLoads;
+  };
+
+  const secondOrderAnalysis = (weights: number[], firstElements: ElementResult[]): SecondOrderSolution => {
+    const weighted = (pick: (j: number) => number[]) => {
+      const out: number[] = Array(N).fill(0);
+      weights.forEach((w, j) => { if (w !== 0) pick(j).forEach((v, i) => { out[i] += w * v; }); });
+      return out;
+    };
+    const memberLoads = weightedMemberLoads(weights);
+    const nodalLoads = weighted(j => caseLoads[j].Fnodal);
+    const springRhs  = weighted(j => springLoads[j]);
+    const prescribed = new Map([...cons.prescribed].map(([dof, values]) =>
+      [dof, values.reduce((sum, v, j) => sum + weights[j] * v, 0)]));
+
+    let elements = firstElements;
+    let prevDisp: number[] | null = null;
+    for (let iter = 1; iter <= SECOND_ORDER_ITERATIONS; iter++) {
+      const K2 = createCoo(N);
+      const F2 = [...nodalLoads];
+      const second = new Map<string, { cond: Condensation; kg: number[][] }>();
+      for (const el of elements) {
+        const m  = memberMap.get(el.memberId)!;
+        const nA = nodeMap.get(m.a)!;
+        const nB = nodeMap.get(m.b)!;
+        const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+        const { EA, EI } = memberStiffness(m, lookup);
+        // Na, Nb は圧縮で正なので、引張正の軸力は符号を反転した平均
+        const kg   = geometricStiffness(L, -(el.Na + el.Nb) / 2);
+        const cond = secondOrderCondensation(m, L, EA, EI, kg);
+        if (!cond) {
+          return { ok: false, message: "部材単体が座屈する軸力に達したため2次解析を続けられません。" };
+        }
+        second.set(m.id, { cond, kg });
+        const dA = dofMap.nodeDof.get(m.a)!;
+        const dB = dofMap.nodeDof.get(m.b)!;
+        assembleMember(K2, cond.kl, transformMatrix(c, s), [
+          dA[0], dA[1], getRotDof(m.id, m.a, dofMap, jointNodeIds),
+          dB[0], dB[1], getRotDof(m.id, m.b, dofMap, jointNodeIds),
+        ]);
+        for (const ld of memberLoads.get(m.id) ?? []) {
+          applyMemberLoad(F2, dofMap, m.id, m.a, m.b, c, s, L, ld, jointNodeIds, cond);
+        }
+      }
+      applySpringSupports(K2, supports, dofMap, []);
+
+      const K2t    = toCsr(rotateStiffness(K2, cons.rotations));
+      const factor2 = skylineCholesky(K2t, order);
+      if (!factor2) {
+        return { ok: false, message: "2次解析で剛性が正定値でなくなりました。荷重が座屈荷重を超えている可能性があります。" };
+      }
+      const F2t = rotateLoad(F2.map((v, i) => v + springRhs[i]), cons.rotations);
+      const Ut2: number[] = Array(N).fill(0);
+      for (const [dof, v] of prescribed) Ut2[dof] = v;
+      const uf = skylineSolve(factor2, order.map(i => F2t[i] - prescribedProduct(K2t, i, Ut2, cons.prescribed)));
+      order.forEach((dof, k) => { Ut2[dof] = uf[k]; });
+      const disp = unrotateDisplacement(Ut2, cons.rotations);
+
+      const maxDisp = Math.max(0, ...disp.map(Math.abs));
+      if (!isFinite(maxDisp) || maxDisp > 1e10) {
+        return { ok: false, message: "2次解析が発散しました。荷重が座屈荷重を超えている可能性があります。" };
+      }
+
+      elements = memberForces(disp, memberLoads, id => second.get(id));
+      const change = prevDisp ? Math.max(0, ...disp.map((v, i) => Math.abs(v - prevDisp![i]))) : Infinity;
+      prevDisp = disp;
+      if (change > SECOND_ORDER_TOL * maxDisp) continue;
+
+      const reactions = supportReactions(weights, F2, disp, Ut2, K2t);
+      const deformed  = new Map(nodes.map(n => {
+        const d = dofMap.nodeDof.get(n.id)!;
+        return [n.id, { x: n.x + disp[d[0]], y: n.y + disp[d[1]] }];
+      }));
+      return {
+        ok: true,
+        iterations: iter,
+        fields: { elements, reactions, displacements: nodeDisplacements(disp) },
+        equilibrium: equilibriumResidual(loadResultant(F2, dofMap, deformed), reactions, deformed, lref),
+      };
+    }
+    return { ok: false, message: `2次解析が ${SECOND_ORDER_ITERATIONS} 回の反復で収束しませんでした。` };
+  };
+
+  // ---- 時刻歴応答解析 ----
+  // 自由座標で Newmark-β 法の漸化式を解く。各ステップで
+  //   K̂ u₁ = p₁ + M(c0 u + c2 v + c3 a) + C(c1 u + c4 v + c5 a)、K̂ = K + c1 C + c0 M
+  // から時刻 t + Δt の変位 u₁ を求め、加速度・速度を更新する。
+  const timeHistoryAnalysis = (th: TimeHistorySettings): TimeHistoryResult => {
+    const dt    = th.dt;
+    const steps = Math.round(th.duration / dt);
+    if (!(dt > 0) || !(steps >= 1)) {
+      return { ok: false, message: "継続時間と時間刻みを正の値にしてください。" };
+    }
+    if (steps > TIME_HISTORY_STEPS) {
+      return { ok: false, message: `時間ステップ数が上限（${TIME_HISTORY_STEPS}）を超えます。時間刻みを大きくしてください。` };
+    }
+    const loads = th.loads.filter(ld => caseIds.includes(ld.caseId));
+    if (loads.length === 0 && !th.ground) {
+      return { ok: false, message: "時刻歴荷重も地動加速度もありません。" };
+    }
+
+    const M      = assembleMass(mainSystem);
+    const Mt     = toCsr(rotateStiffness(M, cons.rotations));
+    const applyM = freeProduct(mainSystem, Mt);
+    const applyK = freeProduct(mainSystem, Kt);
+    const { converged, pairs } = lowestEigenpairs(factor, applyM, 2);
+    if (pairs.length === 0) {
+      return { ok: false, message: "質量がありません。断面の単位長さ質量か節点質量を設定してください。" };
+    }
+    if (!converged) {
+      return { ok: false, message: `減衰の設定に使う${EIGEN_NOT_CONVERGED}` };
+    }
+
+    // Rayleigh 減衰: 円振動数 ω₁, ω₂ で減衰定数が ζ になる係数（モードが1つなら ω₁ で合わせる）
+    const w1 = Math.sqrt(pairs[0].value);
+    const w2 = Math.sqrt((pairs[1] ?? pairs[0]).value);
+    const alpha = 2 * th.damping * w1 * w2 / (w1 + w2);
+    const beta  = 2 * th.damping / (w1 + w2);
+
+    const c0 = 1 / (NEWMARK_BETA * dt * dt);
+    const c1 = NEWMARK_GAMMA / (NEWMARK_BETA * dt);
+    const c2 = 1 / (NEWMARK_BETA * dt);
+    const c3 = 1 / (2 * NEWMARK_BETA) - 1;
+    const c4 = NEWMARK_GAMMA / NEWMARK_BETA - 1;
+    const c5 = dt / 2 * (NEWMARK_GAMMA / NEWMARK_BETA - 2);
+
+    const Keff = createCoo(N);
+    K.vals.forEach((v, e) => addEntry(Keff, K.rows[e], K.cols[e], (1 + c1 * beta) * v));
+    M.vals.forEach((v, e) => addEntry(Keff, M.rows[e], M.cols[e], (c0 + c1 * alpha) * v));
+    const effFactor = skylineCholesky(toCsr(rotateStiffness(Keff, cons.rotations)), order);
+    if (!effFactor) {
+      return { ok: false, message: "有効剛性行列が特異です。構造が不安定な可能性があります。" };
+    }
+
+    // 荷重ケースの荷重ベクトルと、地動加速度による慣性力 −M r（r は全節点の並進に地動の向きの単位ベクトル）
+    const caseVectors = loads.map(ld => {
+      const Ft = rotateLoad(caseLoads[caseIds.indexOf(ld.caseId)].F, cons.rotations);
+      return { fn: ld.fn, free: Float64Array.from(order, dof => Ft[dof]) };
+    });
+    const r: number[] = Array(N).fill(0);
+    if (th.ground) {
+      const [gx, gy] = loadVector(th.ground.angleDeg, 1);
+      for (const d of dofMap.nodeDof.values()) { r[d[0]] = gx; r[d[1]] = gy; }
+    }
+    const rt = rotateLoad(r, cons.rotations);
+    const Mr = Array.from({ length: N }, (_, i) => csrRowDot(Mt, i, rt));
+    const groundAcc = (t: number) => th.ground ? evaluateTimeFunction(th.ground.fn, t) : 0;
+
+    const force = (t: number) => {
+      const p = new Float64Array(order.length);
+      for (const cv of caseVectors) {
+        const f = evaluateTimeFunction(cv.fn, t);
+        if (f !== 0) cv.free.forEach((v, k) => { p[k] += f * v; });
+      }
+      const ag = groundAcc(t);
+      if (ag !== 0) order.forEach((dof, k) => { p[k] -= ag * Mr[dof]; });
+      return p;
+    };
+
+    // 1コマ分の結果。反力は拘束座標の行の K̃·Ũ − (F̃ − M̃(ã + r̃ a_g) − C̃ṽ)（慣性力・減衰力を含めて支点に伝わる力）
+    const toFull = (x: Float64Array) => {
+      const y: number[] = Array(N).fill(0);
+      order.forEach((dof, k) => { y[dof] = x[k]; });
+      return y;
+    };
+    const noSettlement = caseIds.map(() => 0);
+    const frame = (t: number, u: Float64Array, v: Float64Array, a: Float64Array): TimeHistoryFrame => {
+      const weights = caseIds.map(() => 0);
+      for (const ld of loads) weights[caseIds.indexOf(ld.caseId)] += evaluateTimeFunction(ld.fn, t);
+      const applied: number[] = Array(N).fill(0);
+      weights.forEach((w, j) => { if (w !== 0) caseLoads[j].F.forEach((f, i) => { applied[i] += w * f; }); });
+
+      const Ut = toFull(u), Vt = toFull(v), At = toFull(a);
+      const ag = groundAcc(t);
+      const Ft = rotateLoad(applied, cons.rotations).map((f, i) =>
+        f - csrRowDot(Mt, i, At) - ag * Mr[i] - alpha * csrRowDot(Mt, i, Vt) - beta * csrRowDot(Kt, i, Vt));
+      const disp = unrotateDisplacement(Ut, cons.rotations);
+      return {
+        time:          t,
+        elements:      memberForces(disp, weightedMemberLoads(weights)),
+        reactions:     supportReactions(noSettlement, unrotateDisplacement(Ft, cons.rotations), disp, Ut, Kt),
+        displacements: nodeDisplacements(disp),
+      };
+    };
+
+    // 初期条件: 静止状態（u = v = 0）から始め、初期加速度は M a = p(0) から求める。
+    // 回転に質量のない集中質量行列などで M が特異なら、対角成分で割る（質量のない自由度は 0）
+    const nf = order.length;
+    const p0 = force(0);
+    const massFactor = skylineCholesky(Mt, order);
+    const massDiag   = cooDiagonal(rotateStiffness(M, cons.rotations));
+    let u: Float64Array = new Float64Array(nf);
+    let v: Float64Array = new Float64Array(nf);
+    let a: Float64Array = massFactor
+      ? skylineSolve(massFactor, p0)
+      : Float64Array.from(order, (dof, k) => massDiag[dof] > 0 ? p0[k] / massDiag[dof] : 0);
+
+    const every  = Math.ceil(steps / TIME_HISTORY_FRAMES);
+    const frames = [frame(0, u, v, a)];
+    for (let n = 1; n <= steps; n++) {
+      if (n % 100 === 0) report("dynamic", n / steps);
+      const t  = n * dt;
+      const xm = new Float64Array(nf);
+      const xk = new Float64Array(nf);
+      for (let k = 0; k < nf; k++) {
+        const xc = c1 * u[k] + c4 * v[k] + c5 * a[k];
+        xm[k] = c0 * u[k] + c2 * v[k] + c3 * a[k] + alpha * xc;
+        xk[k] = beta * xc;
+      }
+      const Mx = applyM(xm);
+      const Kx = applyK(xk);
+      const u1 = skylineSolve(effFactor, force(t).map((p, k) => p + Mx[k] + Kx[k]));
+      const a1 = u1.map((x, k) => c0 * (x - u[k]) - c2 * v[k] - c3 * a[k]);
+      v = v.map((x, k) => x + dt * ((1 - NEWMARK_GAMMA) * a[k] + NEWMARK_GAMMA * a1[k]));
+      u = u1;
+      a = a1;
+      if (!u.every(isFinite)) {
+        return { ok: false, message: "時刻歴応答解析が発散しました。" };
+      }
+      if (n % every === 0 || n === steps) frames.push(frame(t, u, v, a));
+    }
+    return { ok: true, dt, steps, rayleigh: { alpha, beta }, frames };
+  };
+
+  // ---- 載荷経路（影響線）----
+  // 経路は元の部材の列。展開後のサブ部材に分け、経路の向き（from → to）と始点からの距離 s0 を持たせる。
+  // 元の部材上の比 r0〜r1 は経路の向きによらず元の部材の a 端から測る（円弧は弦長の比）
+  type PathSegment = {
+    id: string; memberId: string; from: string; to: string;
+    L: number; c: number; s: number; s0: number; r0: number; r1: number;
+  };
+
+  /** 元の部材を展開後のサブ部材の列（a 端から順）にする */
+  const subMembersOf = (memberId: string) => {
+    const orig = input.members.find(m => m.id === memberId)!;
+    const rest = members.filter(sm => (exp.arcGroupMap.get(sm.id) ?? sm.id) === memberId);
+    const chain: (typeof members)[number][] = [];
+    let cur = orig.a;
+    while (rest.length > 0) {
+      const k = rest.findIndex(sm => sm.a === cur || sm.b === cur);
+      if (k === -1) break;
+      const sm = rest.splice(k, 1)[0];
+      chain.push(sm);
+      cur = sm.a === cur ? sm.b : sm.a;
+    }
+    return chain.map(sm => {
+      const nA = nodeMap.get(sm.a)!;
+      const nB = nodeMap.get(sm.b)!;
+      return { sm, ...memberGeom(nA.x, nA.y, nB.x, nB.y) };
+    });
+  };
+
+  const resolvePath = (memberIds: string[]): { ok: true; segments: PathSegment[] } | { ok: false; message: string } => {
+    const ordered = orderLoadPath(input.members, input.nodes, memberIds);
+    if (ordered.ok === false) return ordered;
+    const segments: PathSegment[] = [];
+    let node = ordered.startNodeId;
+    let s0 = 0;
+    for (const memberId of ordered.memberIds) {
+      const orig    = input.members.find(m => m.id === memberId)!;
+      const forward = orig.a === node;
+      const subs    = subMembersOf(memberId).filter(sub => sub.L >= 1e-10);
+      const total   = subs.reduce((sum, sub) => sum + sub.L, 0);
+      let acc = 0;
+      const pieces = subs.map(sub => {
+        const r0 = acc / total;
+        acc += sub.L;
+        return { sub, r0, r1: acc / total };
+      });
+      for (const { sub, r0, r1 } of forward ? pieces : pieces.reverse()) {
+        // 経路の向きに進んだときの始点・終点
+        const from = sub.sm.a === node ? sub.sm.a : sub.sm.b;
+        const to   = from === sub.sm.a ? sub.sm.b : sub.sm.a;
+        segments.push({ id: sub.sm.id, memberId, from, to, L: sub.L, c: sub.c, s: sub.s, s0, r0, r1 });
+        s0  += sub.L;
+        node = to;
+      }
+    }
+    return { ok: true, segments };
+  };
+
+  /** 経路の区間 seg の位置 u（from 端からの比）の点 */
+  const pathPoint = (seg: PathSegment, u: number): LoadPathPoint => {
+    const sub = memberMap.get(seg.id)!;
+    const t   = seg.from === sub.a ? u : 1 - u;
+    const nA  = nodeMap.get(sub.a)!;
+    return {
+      s: seg.s0 + u * seg.L,
+      x: nA.x + seg.c * seg.L * t,
+      y: nA.y + seg.s * seg.L * t,
+      memberId: seg.memberId,
+      ratio: seg.r0 + (seg.r1 - seg.r0) * t,
+      ...(u === 0 ? { nodeId: seg.from } : u === 1 ? { nodeId: seg.to } : {}),
+    };
+  };
+
+  /** 経路の区間 seg の位置 u に集中荷重を置き、荷重ベクトル F に加える。サブ部材座標の荷重を返す */
+  const applyPathLoad = (F: number[], seg: PathSegment, u: number, angleDeg: number, magnitude: number): LocalMemberLoad => {
+    const sub = memberMap.get(seg.id)!;
+    const t   = seg.from === sub.a ? u : 1 - u;
+    const ld  = memberPointLoadToLocal({ ratio: t, kind: "force", angleDeg, clockwise: false, magnitude }, seg.c, seg.s, seg.L);
+    applyMemberLoad(F, dofMap, sub.id, sub.a, sub.b, seg.c, seg.s, seg.L, ld, jointNodeIds, condByMember.get(sub.id)!);
+    return ld;
+  };
+
+  /** 荷重ベクトル F を線形解析の分解で解く（支点の強制変位は考えない） */
+  const solveStatic = (F: number[]) => {
+    const Ft = rotateLoad(F, cons.rotations);
+    const uf = skylineSolve(factor, order.map(i => Ft[i]));
+    const Ut: number[] = Array(N).fill(0);
+    order.forEach((dof, k) => { Ut[dof] = uf[k]; });
+    return { Ut, disp: unrotateDisplacement(Ut, cons.rotations) };
+  };
+
+  const influenceLine = (path: string[], target: InfluenceTarget): InfluenceResult => {
+    const resolved = resolvePath(path);
+    if (resolved.ok === false) return resolved;
+    const { segments } = resolved;
+
+    // 対象の断面: 元の部材上の比 ratio をサブ部材と、その上の位置 t に直す
+    let section: { id: string; t: number } | null = null;
+    if (target.kind === "section") {
+      if (!input.members.some(m => m.id === target.memberId)) {
+        return { ok: false, message: "影響線の対象の部材がありません。" };
+      }
+      const subs  = subMembersOf(target.memberId).filter(sub => sub.L >= 1e-10);
+      const total = subs.reduce((sum, sub) => sum + sub.L, 0);
+      const x     = Math.min(Math.max(target.ratio, 0), 1) * total;
+      let acc = 0;
+      for (const sub of subs) {
+        if (x <= acc + sub.L || sub === subs[subs.length - 1]) {
+          section = { id: sub.sm.id, t: Math.min(Math.max((x - acc) / sub.L, 0), 1) };
+          break;
+        }
+        acc += sub.L;
+      }
+      if (!section) return { ok: false, message: "影響線の対象の部材がありません。" };
+    } else if (!supports.some(sp => sp.id === target.supportId)) {
+      return { ok: false, message: "影響線の対象の支点がありません。" };
+    }
+
+    const noSettlement = caseIds.map(() => 0);
+    const value = (F: number[], loads: Map<string, LocalMemberLoad[]>) => {
+      const { Ut, disp } = solveStatic(F);
+      if (target.kind === "reaction") {
+        const r = supportReactions(noSettlement, F, disp, Ut, Kt).find(rc => rc.supportId === target.supportId)!;
+        return r[target.component];
+      }
+      const m  = memberMap.get(section!.id)!;
+      const nA = nodeMap.get(m.a)!;
+      const nB = nodeMap.get(m.b)!;
+      const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+      const { EA, EI } = memberStiffness(m, lookup);
+      const el = calcElementForces(
+        m.id, m.a, m.b, c, s, L, EA, EI, disp, dofMap, jointNodeIds,
+        loads.get(m.id) ?? [], [section!.t], condByMember.get(m.id)!, m.kind === "truss",
+      );
+      return el.points[0][target.quantity];
+    };
+
+    const points: (LoadPathPoint & { value: number })[] = [];
+    segments.forEach((seg, i) => {
+      const us = Array.from({ length: INFLUENCE_SAMPLES + 1 }, (_, k) => k / INFLUENCE_SAMPLES).slice(i === 0 ? 0 : 1);
+      // 対象の断面の上では、断面の両側に置いた値を並べる（せん断力などの不連続）
+      if (section && seg.id === section.id) {
+        const sub = memberMap.get(seg.id)!;
+        const u   = seg.from === sub.a ? section.t : 1 - section.t;
+        us.push(...[u - INFLUENCE_EPS, u + INFLUENCE_EPS].filter(v => v > 0 && v < 1));
+        us.sort((p, q) => p - q);
+      }
+      for (const u of us) {
+        const F  = Array(N).fill(0);
+        const ld = applyPathLoad(F, seg, u, 0, 1);
+        points.push({ ...pathPoint(seg, u), value: value(F, new Map([[seg.id, [ld]]])) });
+      }
+      report("influence", (i + 1) / segments.length);
+    });
+    return { ok: true, target, points };
+  };
+
+  const movingLoadAnalysis = (path: string[], settings: MovingLoadSettings): MovingLoadResult => {
+    const resolved = resolvePath(path);
+    if (resolved.ok === false) return resolved;
+    const { segments } = resolved;
+    if (!(settings.step > 0)) return { ok: false, message: "移動荷重の刻みは正の値にしてください。" };
+    if (settings.axles.some((ax, k) => k > 0 && ax.spacing < 0)) {
+      return { ok: false, message: "軸の間隔は 0 以上にしてください。" };
+    }
+
+    // 各軸の先頭の軸からの距離
+    const offsets: number[] = [];
+    settings.axles.forEach((ax, k) => offsets.push(k === 0 ? 0 : offsets[k - 1] + ax.spacing));
+    const trainAxles = settings.axles
+      .map((ax, k) => ({ magnitude: ax.magnitude, offset: offsets[k] }))
+      .filter(ax => ax.magnitude !== 0);
+    if (trainAxles.length === 0) return { ok: false, message: "列車の軸荷重がありません。" };
+
+    const total  = segments.reduce((sum, seg) => sum + seg.L, 0);
+    const travel = total + offsets[offsets.length - 1];
+    const count  = Math.ceil(travel / settings.step - 1e-9) + 1;
+    if (count > MOVING_LOAD_POSITIONS) {
+      return { ok: false, message: `列車の位置が ${MOVING_LOAD_POSITIONS} を超えます。刻みを大きくしてください。` };
+    }
+
+    // 経路上のサブ部材は刻み点（軸が載る点）の両側でもサンプルする
+    const stations = new Map(stationsByMember);
+    for (const seg of segments) {
+      const sub  = memberMap.get(seg.id)!;
+      const grid: number[] = [];
+      for (let k = Math.ceil(seg.s0 / settings.step); k * settings.step <= seg.s0 + seg.L; k++) {
+        const u = (k * settings.step - seg.s0) / seg.L;
+        grid.push(seg.from === sub.a ? u : 1 - u);
+      }
+      const base  = stationsByMember.get(seg.id)!;
+      const jumps = [...base.filter((t, i) => isRightOfJump(base, i)), ...grid];
+      const ts    = [...base, ...grid].filter(t => t >= 0 && t <= 1).sort((p, q) => p - q);
+      stations.set(seg.id, ts
+        .filter((t, i) => i === 0 || t - ts[i - 1] > 1e-9)
+        .flatMap(t => jumps.some(j => Math.abs(j - t) <= 1e-9) ? [t, t] : [t]));
+    }
+
+    /** 経路上の距離 sPath の区間と、その上の位置 u */
+    const locate = (sPath: number) => {
+      const seg = segments.find(sg => sPath <= sg.s0 + sg.L + 1e-9) ?? segments[segments.length - 1];
+      return { seg, u: Math.min(Math.max((sPath - seg.s0) / seg.L, 0), 1) };
+    };
+
+    const range = (value: number, position: number): TrainRange => ({
+      max: { value, position }, min: { value, position },
+    });
+    const widen = (r: TrainRange, value: number, position: number) => {
+      if (value > r.max.value) r.max = { value, position };
+      if (value < r.min.value) r.min = { value, position };
+    };
+
+    const noSettlement = caseIds.map(() => 0);
+    const positions: TrainPosition[] = [];
+    let elements:  Extract<MovingLoadResult, { ok: true }>["elements"]  | null = null;
+    let reactions: Extract<MovingLoadResult, { ok: true }>["reactions"] | null = null;
+    const directions = settings.bothDirections ? [false, true] : [false];
+
+    directions.forEach((reversed, d) => {
+      for (let k = 0; k < count; k++) {
+        const lead = Math.min(k * settings.step, travel);
+        const F = Array(N).fill(0);
+        const loads = new Map<string, LocalMemberLoad[]>();
+        const placed: TrainPosition["axles"] = [];
+        for (const ax of trainAxles) {
+          const along = lead - ax.offset;
+          if (along < -1e-9 || along > total + 1e-9) continue;
+          const { seg, u } = locate(reversed ? total - along : along);
+          const ld = applyPathLoad(F, seg, u, 0, ax.magnitude);
+          loads.set(seg.id, [...(loads.get(seg.id) ?? []), ld]);
+          placed.push({ ...pathPoint(seg, u), magnitude: ax.magnitude });
+        }
+        if (placed.length === 0) continue;
+        const position = positions.length;
+        positions.push({ lead, reversed, axles: placed });
+
+        const { Ut, disp } = solveStatic(F);
+        const els = members.flatMap(m => {
+          const nA = nodeMap.get(m.a)!;
+          const nB = nodeMap.get(m.b)!;
+          const { L, c, s } = memberGeom(nA.x, nA.y, nB.x, nB.y);
+          if (L < 1e-10) return [];
+          const { EA, EI } = memberStiffness(m, lookup);
+          return [calcElementForces(
+            m.id, m.a, m.b, c, s, L, EA, EI, disp, dofMap, jointNodeIds,
+            loads.get(m.id) ?? [], stations.get(m.id)!, condByMember.get(m.id)!, m.kind === "truss",
+          )];
+        });
+        const rcs = supportReactions(noSettlement, F, disp, Ut, Kt);
+
+        if (!elements || !reactions) {
+          elements  = els.map(el => ({
+            memberId: el.memberId,
+            points:   el.points.map(p => ({ t: p.t, N: range(p.N, position), Q: range(p.Q, position), M: range(p.M, position) })),
+          }));
+          reactions = rcs.map(r => ({
+            supportId: r.supportId, nodeId: r.nodeId,
+            fx: range(r.fx, position), fy: range(r.fy, position), m: range(r.m, position),
+          }));
+        } else {
+          els.forEach((el, i) => el.points.forEach((p, j) => {
+            const env = elements![i].points[j];
+            widen(env.N, p.N, position);
+            widen(env.Q, p.Q, position);
+            widen(env.M, p.M, position);
+          }));
+          rcs.forEach((r, i) => {
+            widen(reactions![i].fx, r.fx, position);
+            widen(reactions![i].fy, r.fy, position);
+            widen(reactions![i].m,  r.m,  position);
+          });
+        }
+        if (k % 20 === 0) report("moving", (d + k / count) / directions.length);
+      }
+    });
+    if (!elements || !reactions) return { ok: false, message: "列車が載荷経路に載りません。" };
+    return { ok: true, positions, elements, reactions };
+  };
+
+  const tEigen = performance.now();
+  if (input.options?.modal) report("eigen");
+  const modal = input.options?.modal ? modalAnalysis() : undefined;
+  const withBuckling = [...caseResults, ...comboResults].map((r, k, all) => {
+    if (!input.options?.buckling) return r;
+    report("eigen", k / all.length);
+    return { ...r, buckling: bucklingAnalysis(r.elements) };
+  });
+
+  const tNonlinear = performance.now();
+  const weights = [...caseIds.map((_, j) => caseWeights(j)), ...input.combinations.map(cb => caseIds.map(id => cb.factors[id] ?? 0))];
+  const results = withBuckling.map((r, k, all): LoadResult => {
+    if (!input.options?.pDelta) return r;
+    report("nonlinear", k / all.length);
+    const so = secondOrderAnalysis(weights[k], r.elements);
+    if (so.ok === false) return { ...r, secondOrder: { ok: false, message: so.message } };
+    return {
+      ...r,
+      ...so.fields,
+      equilibrium: so.equilibrium,
+      secondOrder: {
+        ok: true,
+        iterations:    so.iterations,
+        amplification: momentAmplification(r.elements, so.fields.elements, exp.arcGroupMap, lref),
+        firstOrder:    { elements: r.elements, reactions: r.reactions, displacements: r.displacements, equilibrium: r.equilibrium },
+      },
+    };
+  });
+
+  const tDynamic = performance.now();
+  if (input.options?.timeHistory) report("dynamic");
+  const timeHistory = input.options?.timeHistory && input.timeHistory
+    ? timeHistoryAnalysis(input.timeHistory)
+    : input.options?.timeHistory ? { ok: false as const, message: "時刻歴応答解析の条件がありません。" } : undefined;
+
+  const tInfluence = performance.now();
+  if (input.options?.influence) report("influence");
+  const influence = input.options?.influence
+    ? input.influence
+      ? influenceLine(input.loadPath ?? [], input.influence)
+      : { ok: false as const, message: "影響線の対象（支点反力または断面）を選んでください。" }
+    : undefined;
+
+  const tMoving = performance.now();
+  if (input.options?.movingLoad) report("moving");
+  const movingLoad = input.options?.movingLoad
+    ? input.movingLoad
+      ? movingLoadAnalysis(input.loadPath ?? [], input.movingLoad)
+      : { ok: false as const, message: "移動荷重の列車がありません。" }
+    : undefined;
+
+  const tEnd = performance.now();
+  const solver: SolverStats = {
+    dof:      N,
+    freeDof:  order.length,
+    nonZeros: Kt.vals.length,
+    ...skylineSize(factor),
+    timing: {
+      assembly:      tOrdering - t0,
+      ordering:      tFactor - tOrdering,
+      factorization: tSolve - tFactor,
+      solve:         tRecovery - tSolve,
+      recovery:      tEigen - tRecovery,
+      eigen:         tNonlinear - tEigen,
+      nonlinear:     tDynamic - tNonlinear,
+      dynamic:       tInfluence - tDynamic,
+      influence:     tMoving - tInfluence,
+      moving:        tEnd - tMoving,
+      total:         tEnd - t0,
+    },
+  };
+
   return {
     ok: true,
-    elements:        elementResults,
-    reactions,
-    displacements,
+    results,
     expandedNodes:   nodes,
     expandedMembers: members,
     arcGroupMap:     exp.arcGroupMap,
     arcMemberGeom:   exp.arcMemberGeom,
+    arcJumpNodeIds:  exp.arcJumpNodeIds,
+    solver,
+    ...(modal ? { modal } : {}),
+    ...(timeHistory ? { timeHistory } : {}),
+    ...(influence ? { influence } : {}),
+    ...(movingLoad ? { movingLoad } : {}),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+/**
+ * femProtocol.ts — 解析ワーカー（femWorker.ts）とのメッセージ形式
+ *
+ * メインスレッドは FemRequest を送り、ワーカーは同じ id で進捗と結果を返す。
+ * 結果の Map / Set は配列に直して送り、受け取った側で戻す。
+ * 解析の中止はワーカーを terminate して作り直す（計算中はメッセージを受け取れないため）。
+ */
+
+import type { FemInput, FemResult, FemProgress } from "./femTypes";
+
+type FemSuccess = Extract<FemResult, { ok: true }>;
+type FemFailure = Extract<FemResult, { ok: false }>;
+type ArcMemberGeom = FemSuccess["arcMemberGeom"] extends Map<string, infer G> ? G : never;
+
+/** 転送用の FemResult（Map / Set をエントリの配列にしたもの） */
+export type SerializedFemResult =
+  | (Omit<FemSuccess, "arcGroupMap" | "arcMemberGeom" | "arcJumpNodeIds"> & {
+      arcGroupMap:    [string, string][];
+      arcMemberGeom:  [string, ArcMemberGeom][];
+      arcJumpNodeIds: string[];
+    })
+  | FemFailure;
+
+/** メインスレッド → ワーカー */
+export type FemRequest = { type: "solve"; id: number; input: FemInput };
+
+/** ワーカー → メインスレッド */
+export type FemResponse =
+  | { type: "progress"; id: number; progress: FemProgress }
+  | { type: "result";   id: number; result: SerializedFemResult };
+
+export function serializeFemResult(result: FemResult): SerializedFemResult {
+  if (result.ok === false) return result;
+  return {
+    ...result,
+    arcGroupMap:    [...result.arcGroupMap],
+    arcMemberGeom:  [...result.arcMemberGeom],
+    arcJumpNodeIds: [...result.arcJumpNodeIds],
+  };
+}
+
+export function deserializeFemResult(result: SerializedFemResult): FemResult {
+  if (result.ok === false) return result;
+  return {
+    ...result,
+    arcGroupMap:    new Map(result.arcGroupMap),
+    arcMemberGeom:  new Map(result.arcMemberGeom),
+    arcJumpNodeIds: new Set(result.arcJumpNodeIds),
+  };
+}
@@ -33,11 +33,169 @@ export type DisplacementResult = {
 export type ExpandedNode   = { id: string; x: number; y: number };
 export type ExpandedMember = { id: string; a: string; b: string };
 
+/** 荷重ケース／荷重組合せのどちらの結果か */
+export type LoadResultKind = "case" | "combination";
+
+/** 結果の選択キー: `case:<id>` / `combination:<id>` */
+export type LoadResultKey = `${LoadResultKind}:${string}`;
+
+/** 表示する結果の選択: 個別の荷重ケース／組合せ、全組合せの包絡 "envelope"、または移動荷重の包絡 "moving" */
+export type ResultViewKey = LoadResultKey | "envelope" | "moving";
+
+/**
+ * つり合いの残差: 外力と反力の合力 fx, fy と原点まわりのモーメント m（時計回り正）。
+ * relative は力の大きさの合計に対する比（モーメントはモデルの代表長さで割って比べる）
+ */
+export type EquilibriumResidual = { fx: number; fy: number; m: number; relative: number };
+
+/** 座屈モード: 座屈荷重係数 factor（その荷重の何倍で座屈するか）と、最大の並進成分を 1 に正規化したモード形状 */
+export type BucklingMode = { factor: number; displacements: DisplacementResult[] };
+
+/** 線形座屈解析の結果（factor の小さい順）。圧縮による座屈モードがなければ ok: false */
+export type BucklingResult =
+  | { ok: true; modes: BucklingMode[] }
+  | { ok: false; message: string };
+
+/** 部材（円弧は元の部材）ごとの曲げモーメントの増幅率 max|M₂| / max|M₁| */
+export type MomentAmplification = { memberId: string; factor: number };
+
+/** 線形（1次）解析の断面力・反力・変位 */
+export type FirstOrderFields = Pick<LoadResult, "elements" | "reactions" | "displacements" | "equilibrium">;
+
+/**
+ * 2次解析（P-Δ）の結果。成功すれば LoadResult の断面力・反力・変位・つり合いは2次の値で、
+ * 1次の値を firstOrder に残す。失敗すれば LoadResult は1次の値のまま
+ */
+export type SecondOrderResult =
+  | { ok: true; iterations: number; amplification: MomentAmplification[]; firstOrder: FirstOrderFields }
+  | { ok: false; message: string };
+
+/**
+ * 固有振動モード: 円振動数 omega [rad/s]、振動数 frequency [Hz]、周期 period [s]。
+ * モード形状は最大の並進成分を 1 に正規化
+ */
+export type ModalMode = { omega: number; frequency: number; period: number; displacements: DisplacementResult[] };
+
+/** 固有振動解析の結果（振動数の低い順）。質量がなければ ok: false */
+export type ModalResult =
+  | { ok: true; modes: ModalMode[] }
+  | { ok: false; message: string };
+
+/** 時刻歴応答解析の1コマ: 時刻 time [s] の断面力・反力・変位（変位は支点に対する相対変位） */
+export type TimeHistoryFrame = { time: number } & Pick<LoadResult, "elements" | "reactions" | "displacements">;
+
+/**
+ * 時刻歴応答解析の結果。frames は出力の時刻順（0 から継続時間まで、最大 TIME_HISTORY_FRAMES コマ）。
+ * rayleigh は減衰行列 C = alpha·M + beta·K の係数
+ */
+export type TimeHistoryResult =
+  | { ok: true; dt: number; steps: number; rayleigh: { alpha: number; beta: number }; frames: TimeHistoryFrame[] }
+  | { ok: false; message: string };
+
+/**
+ * 載荷経路上の点: 経路の始点からの距離 s、位置 (x, y)、元の部材（円弧は元の部材）とその部材上の比 ratio。
+ * nodeId は節点上の点だけ
+ */
+export type LoadPathPoint = { s: number; x: number; y: number; memberId: string; ratio: number; nodeId?: string };
+
+/** 影響線の対象: 支点反力の成分、または部材上の位置 ratio の断面力 */
+export type InfluenceTarget =
+  | { kind: "reaction"; supportId: string; component: "fx" | "fy" | "m" }
+  | { kind: "section"; memberId: string; ratio: number; quantity: "N" | "Q" | "M" };
+
+/** 影響線: 載荷経路上の各点に鉛直下向きの単位荷重を置いたときの対象の値（経路の始点から順） */
+export type InfluenceResult =
+  | { ok: true; target: InfluenceTarget; points: (LoadPathPoint & { value: number })[] }
+  | { ok: false; message: string };
+
+/** 移動荷重の列車（鉛直下向きの軸荷重の列）。spacing は前の軸からの間隔（先頭の軸は使わない） */
+export type TrainAxle = { magnitude: number; spacing: number };
+
+/**
+ * 移動荷重の条件: 列車の先頭が経路の始点に載ってから最後尾が終点を出るまで step ずつ動かす。
+ * bothDirections なら終点から始点へ向かう走行も調べる
+ */
+export type MovingLoadSettings = { axles: TrainAxle[]; step: number; bothDirections: boolean };
+
+/** 列車の位置: 先頭の軸が経路上を進んだ距離 lead と走行の向き、経路上に載っている軸 */
+export type TrainPosition = {
+  lead:     number;
+  reversed: boolean;
+  axles:    (LoadPathPoint & { magnitude: number })[];
+};
+
+/** 移動荷重の極値: 値と、それを与えた列車の位置（MovingLoadResult.positions の番号） */
+export type TrainExtreme = { value: number; position: number };
+export type TrainRange   = { max: TrainExtreme; min: TrainExtreme };
+
+/**
+ * 移動荷重の包絡: サブ部材のサンプル点ごとの N/Q/M と支点反力の最大・最小。
+ * 経路上のサブ部材は step の刻み点でもサンプルする（軸がちょうど載る点の両側の値）
+ */
+export type MovingLoadResult =
+  | {
+      ok: true;
+      positions: TrainPosition[];
+      elements:  { memberId: string; points: { t: number; N: TrainRange; Q: TrainRange; M: TrainRange }[] }[];
+      reactions: { supportId: string; nodeId: string; fx: TrainRange; fy: TrainRange; m: TrainRange }[];
+    }
+  | { ok: false; message: string };
+
+/** 1つの荷重ケース、または組合せ（ケース結果の線形重ね合わせ）の結果 */
+export type LoadResult = {
+  key:           LoadResultKey;
+  kind:          LoadResultKind;
+  id:            string;
+  name:          string;
+  elements:      ElementResult[];
+  reactions:     ReactionResult[];
+  displacements: DisplacementResult[];
+  equilibrium:   EquilibriumResidual;
+  /** 線形座屈解析（FemInput.options.buckling のときだけ） */
+  buckling?:     BucklingResult;
+  /** 2次解析（FemInput.options.pDelta のときだけ） */
+  secondOrder?:  SecondOrderResult;
+};
+
+/** 解析の段階（進捗表示用） */
+export type FemStage = "validate" | "assemble" | "order" | "factor" | "solve" | "recover" | "eigen" | "nonlinear" | "dynamic" | "influence" | "moving";
+
+/** 解析の進捗。fraction は段階内の進み具合（0〜1） */
+export type FemProgress = { stage: FemStage; fraction: number };
+
+/** 連立方程式の規模（自由度・非ゼロ数・並べ替え後の帯幅とプロファイル）と各段階の所要時間 [ms] */
+export type SolverStats = {
+  dof:       number;
+  freeDof:   number;
+  nonZeros:  number;
+  bandwidth: number;
+  profile:   number;
+  timing: {
+    /** 入力の検証・円弧の展開・剛性と荷重の組み立て・境界条件 */
+    assembly:      number;
+    ordering:      number;
+    factorization: number;
+    solve:         number;
+    /** 断面力・反力・つり合いの計算 */
+    recovery:      number;
+    /** 座屈・固有振動の固有値解析（行わなければ 0） */
+    eigen:         number;
+    /** 2次解析（行わなければ 0） */
+    nonlinear:     number;
+    /** 時刻歴応答解析（行わなければ 0） */
+    dynamic:       number;
+    /** 影響線（行わなければ 0） */
+    influence:     number;
+    /** 移動荷重（行わなければ 0） */
+    moving:        number;
+    total:         number;
+  };
+};
+
 export type FemResult = {
   ok: true;
-  elements:        ElementResult[];
-  reactions:       ReactionResult[];
-  displacements:   DisplacementResult[];
+  /** 荷重ケースの結果（loadCases の順）に続いて組合せの結果（combinations の順） */
+  results:         LoadResult[];
   /** 円弧をサブ直線に展開した後の nodes/members。DiagramLayer の描画用 */
   expandedNodes:   ExpandedNode[];
   expandedMembers: ExpandedMember[];
@@ -52,6 +210,17 @@ export type FemResult = {
    * DiagramLayer が各サブ部材上の点を円弧上の真座標で計算するために使用。
    */
   arcMemberGeom: Map<string, { cx: number; cy: number; r: number; startAngle: number; angleSpan: number }>;
+  /** 円弧の分割ノードのうち部材途中の集中荷重が作用するもの（断面力図が不連続になる） */
+  arcJumpNodeIds: Set<string>;
+  solver: SolverStats;
+  /** 固有振動解析（FemInput.options.modal のときだけ） */
+  modal?: ModalResult;
+  /** 時刻歴応答解析（FemInput.options.timeHistory のときだけ） */
+  timeHistory?: TimeHistoryResult;
+  /** 影響線（FemInput.options.influence のときだけ） */
+  influence?: InfluenceResult;
+  /** 移動荷重の包絡（FemInput.options.movingLoad のときだけ） */
+  movingLoad?: MovingLoadResult;
 } | {
   ok: false;
   reason: "unstable" | "unsupported" | "no_members" | "singular" | "validation";
@@ -61,25 +230,114 @@ export type FemResult = {
 /** FemInput で使用する曲線情報（Bulge のみ対応）*/
 export type FemMemberCurve = { type: "arc"; bulge: number };
 
+/** FemInput で使用する部材端の解放（true の成分の材端力を 0 にする） */
+export type FemEndRelease     = { moment?: boolean; axial?: boolean; shear?: boolean };
+export type FemMemberReleases = { a?: FemEndRelease; b?: FemEndRelease };
+
+/** 追加の解析 */
+export type FemAnalysisOptions = {
+  /** 各結果の軸力で線形座屈解析を行う */
+  buckling?: boolean;
+  /** 部材の軸力による幾何剛性を考慮した2次解析（P-Δ）。組合せは重ね合わせでなく直接解く */
+  pDelta?: boolean;
+  /** 固有振動解析（部材の単位長さ質量と節点質量から質量行列を作る） */
+  modal?: boolean;
+  /** 固有振動解析で求めるモードの数（未設定は 6） */
+  modalModes?: number;
+  /** 集中質量行列を使う（未設定は整合質量行列） */
+  lumpedMass?: boolean;
+  /** 時刻歴応答解析（条件は FemInput.timeHistory） */
+  timeHistory?: boolean;
+  /** 載荷経路 FemInput.loadPath に沿った影響線（対象は FemInput.influence） */
+  influence?: boolean;
+  /** 載荷経路 FemInput.loadPath に沿って列車 FemInput.movingLoad を動かした包絡 */
+  movingLoad?: boolean;
+};
+
+/**
+ * 時間関数 f(t)。
+ *   pulse:    start から duration の間だけ amplitude（矩形パルス）
+ *   harmonic: amplitude·sin(2π·frequency·t + phaseDeg)
+ *   table:    時刻 t と値 v の表（CSV から読み込む）を線形補間。表の範囲外は 0
+ */
+export type TimeFunction =
+  | { kind: "pulse"; amplitude: number; start: number; duration: number }
+  | { kind: "harmonic"; amplitude: number; frequency: number; phaseDeg: number }
+  | { kind: "table"; points: { t: number; v: number }[] };
+
+/** 時刻歴荷重: 荷重ケース caseId の荷重（集中荷重・部材荷重とも）を f(t) 倍して作用させる */
+export type TimeHistoryLoad = { id: string; caseId: string; fn: TimeFunction };
+
+/**
+ * 時刻歴応答解析（Newmark-β 法の平均加速度法）の条件。
+ * damping は Rayleigh 減衰の減衰定数 ζ（1次・2次の固有円振動数で ζ になるよう係数を決める）。
+ * ground は支点に一様に与える地動加速度（向きは荷重と同じく 0° = 下向き）
+ */
+export type TimeHistorySettings = {
+  duration: number;
+  dt:       number;
+  damping:  number;
+  loads:    TimeHistoryLoad[];
+  ground?:  { angleDeg: number; fn: TimeFunction };
+};
+
 export type FemInput = {
-  nodes:      { id: string; x: number; y: number }[];
-  members:    { id: string; a: string; b: string; curve?: FemMemberCurve }[];
-  supports:   { id: string; nodeId: string; type: "pin" | "roller" | "fix"; angleDeg: number }[];
+  nodes:      { id: string; x: number; y: number; mass?: number }[];
+  members:    {
+    id: string; a: string; b: string; curve?: FemMemberCurve; materialId: string; sectionId: string;
+    releases?: FemMemberReleases;
+    /** "truss" は軸方向剛性のみ（未設定は "frame"） */
+    kind?: "frame" | "truss";
+  }[];
+  /** alpha: 線膨張係数（温度荷重用）、unitWeight: 単位体積重量（自重用）。未設定は 0 */
+  materials:  { id: string; E: number; alpha?: number; unitWeight?: number }[];
+  /** depth: 断面のせい（温度差の荷重用。未設定は 0） */
+  sections:   { id: string; A: number; I: number; mass?: number; depth?: number }[];
+  supports:   {
+    id: string; nodeId: string; type: "pin" | "roller" | "fix" | "spring"; angleDeg: number;
+    /** ばね剛性（type = "spring" のとき必須）。kx, ky は angleDeg だけ回転した局所座標 */
+    spring?: { kx: number; ky: number; kr: number };
+    /** 強制変位（全体座標、rot は時計回り正）。caseId の荷重ケースでだけ与える */
+    settlement?: { dx: number; dy: number; rot: number; caseId: string };
+  }[];
   joints:     { id: string; nodeId: string }[];
-  pointLoads: { id: string; nodeId: string; angleDeg: number; magnitude: number }[];
-  distLoads:    { id: string; memberId: string; angleDeg: number; magnitude: number }[];
-  momentLoads:  { id: string; nodeId: string; clockwise: boolean; magnitude: number }[];
+  pointLoads: { id: string; nodeId: string; angleDeg: number; magnitude: number; caseId: string }[];
+  /** basis: 強度の基準（未設定は部材長あたり・angleDeg 方向。types.ts の DistLoadBasis） */
+  distLoads:    {
+    id: string; memberId: string; angleDeg: number; caseId: string;
+    magnitude: number; magnitudeEnd: number; startRatio: number; endRatio: number;
+    basis?: "length" | "horizontal" | "vertical" | "normal" | "tangent";
+  }[];
+  momentLoads:  { id: string; nodeId: string; clockwise: boolean; magnitude: number; caseId: string }[];
+  memberPointLoads: {
+    id: string; memberId: string; ratio: number; caseId: string;
+    kind: "force" | "moment"; angleDeg: number; clockwise: boolean; magnitude: number;
+  }[];
+  /** 温度荷重。gradient は上面（a→b の左手側）と下面の温度差 T上 − T下 */
+  thermalLoads: { id: string; memberId: string; caseId: string; uniform: number; gradient: number }[];
+  loadCases:    { id: string; name: string }[];
+  combinations: { id: string; name: string; factors: Record<string, number> }[];
+  /** 自重を生成する荷重ケース（未設定なら自重は考えない） */
+  selfWeight?:  { caseId: string };
+  options?:     FemAnalysisOptions;
+  /** 時刻歴応答解析の条件（options.timeHistory のときだけ使う） */
+  timeHistory?: TimeHistorySettings;
+  /** 影響線・移動荷重の載荷経路（部材 ID。並びはつながる順に直す） */
+  loadPath?:    string[];
+  /** 影響線の対象（options.influence のときだけ使う） */
+  influence?:   InfluenceTarget;
+  /** 移動荷重の列車と刻み（options.movingLoad のときだけ使う） */
+  movingLoad?:  MovingLoadSettings;
 };
 
+/** 部材ごとに材料・断面から求めた剛性 */
 export type SectionProps = { EA: number; EI: number };
 
-export const DEFAULT_SECTION: SectionProps = {
-  EA: 1e6,
-  EI: 1e4,
-};
-
 export type DiagramMode = "none" | "N" | "Q" | "M";
 
+/** 描画するモード形状（表示中の結果の座屈モード、または固有振動モードの番号） */
+export type ModeView = { kind: "buckling" | "modal"; index: number };
+
 /** 表示のオンオフフラグ */
 export type DisplayFlags = {
   reaction: boolean;
@@ -87,4 +345,6 @@ export type DisplayFlags = {
   Q:        boolean;
   M:        boolean;
   deformed: boolean;  // ← 変形図
+  /** 2次解析の結果に1次の M 図を重ねる */
+  firstOrderM: boolean;
 };
\ No newline at end of file
@@ -0,0 +1,39 @@
+/**
+ * femWorker.ts — 解析ワーカー
+ *
+ * solveFem を UI スレッドの外で実行する。メッセージ形式は femProtocol.ts。
+ */
+
+import { solveFem } from "./fem";
+import {
+  serializeFemResult,
+  type FemRequest, type FemResponse,
+} from "./femProtocol";
+import type { FemResult } from "./femTypes";
+
+// tsconfig の lib は DOM なので、ワーカーのグローバルスコープは必要な分だけ型を付ける
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<FemRequest>) => void) | null;
+  postMessage: (message: FemResponse) => void;
+};
+
+/** 進捗の送信間隔 [ms]（細かく送りすぎるとメインスレッドが詰まる） */
+const PROGRESS_INTERVAL = 50;
+
+scope.onmessage = (e) => {
+  const { id, input } = e.data;
+  let lastSent = 0;
+
+  let result: FemResult;
+  try {
+    result = solveFem(input, (progress) => {
+      const now = performance.now();
+      if (progress.fraction > 0 && now - lastSent < PROGRESS_INTERVAL) return;
+      lastSent = now;
+      scope.postMessage({ type: "progress", id, progress });
+    });
+  } catch {
+    result = { ok: false, reason: "singular", message: "計算中に予期しないエラーが発生しました。" };
+  }
+  scope.postMessage({ type: "result", id, result: serializeFemResult(result) });
+};
@@ -0,0 +1,50 @@
+/**
+ * loadPath.ts — 影響線・移動荷重の載荷経路
+ *
+ * 載荷経路は部材を端から端へ1本につないだ列。選んだ順によらず、つながる順に並べ直す。
+ * 始点は両端のうち左（x が小さい方、同じなら上）の節点とする。
+ */
+
+export type OrderedLoadPath =
+  | { ok: true; memberIds: string[]; startNodeId: string }
+  | { ok: false; message: string };
+
+export function orderLoadPath(
+  members: { id: string; a: string; b: string }[],
+  nodes: { id: string; x: number; y: number }[],
+  memberIds: string[],
+): OrderedLoadPath {
+  const memberById = new Map(members.map(m => [m.id, m]));
+  const path = [...new Set(memberIds)].map(id => memberById.get(id));
+  if (path.length === 0) {
+    return { ok: false, message: "載荷経路が設定されていません。経路にする部材を選んでください。" };
+  }
+  // 経路を選んだ後に部材を削除・分割すると、モデルにない部材が残る
+  if (path.some(m => !m)) {
+    return { ok: false, message: "載荷経路に存在しない部材があります。経路にする部材を選び直してください。" };
+  }
+
+  const degree = new Map<string, number>();
+  for (const m of path) for (const n of [m!.a, m!.b]) degree.set(n, (degree.get(n) ?? 0) + 1);
+  const ends = [...degree].filter(([, d]) => d === 1).map(([id]) => id);
+  if (ends.length !== 2 || [...degree.values()].some(d => d > 2)) {
+    return { ok: false, message: "載荷経路は枝分かれや閉じた輪のない一続きの部材にしてください。" };
+  }
+
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const [p, q] = ends.map(id => nodeById.get(id)!);
+  const start = p.x < q.x || (p.x === q.x && p.y <= q.y) ? p.id : q.id;
+
+  const ordered: string[] = [];
+  const rest = [...path];
+  let cur = start;
+  while (rest.length > 0) {
+    const k = rest.findIndex(m => m!.a === cur || m!.b === cur);
+    if (k === -1) break;
+    const m = rest.splice(k, 1)[0]!;
+    ordered.push(m.id);
+    cur = m.a === cur ? m.b : m.a;
+  }
+  if (rest.length > 0) return { ok: false, message: "載荷経路の部材がつながっていません。" };
+  return { ok: true, memberIds: ordered, startNodeId: start };
+}
@@ -0,0 +1,186 @@
+/**
+ * memberLoads.ts — 部材荷重（部材座標系）の等価節点荷重と区間内の断面力
+ *
+ * ■ 部材座標系
+ *   x: a端からの距離 (0〜L)
+ *   u: 部材軸方向（a→b 正）, v: 軸直交方向（u を時計回りに 90° 回した向き）
+ *
+ * ■ 等価節点荷重
+ *   Hermite 形状関数（たわみ）と線形形状関数（軸）で荷重を積分した整合荷重ベクトル。
+ *   局所 DOF 順 [ua, va, θa, ub, vb, θb]。固定端力はこの符号を反転したもの。
+ *   線形分布荷重 × 3次形状関数は 4次多項式なので、3点 Gauss 積分で厳密に求まる。
+ *   集中荷重は載荷点の形状関数値、集中モーメントは形状関数の微分（たわみ角）を掛ける。
+ *   温度ひずみは一様なので、等価節点荷重は両端の軸力 EAε0 とモーメント EIκ0 だけになる。
+ *
+ * ■ 区間内の断面力
+ *   a端の断面力 (Na, Qa, Ma) から、x までに作用する荷重の合力を差し引いて求める。
+ *     N(x) = Na - Σfu,  Q(x) = Qa - Σfv,  M(x) = Ma + Qa·x - Σm
+ *   fu, fv: 0〜x の荷重の合力、m: その x まわりのモーメント。
+ *   集中荷重の位置では断面力が不連続になるため、サンプル位置を2つ重ねて左右の値を持たせる。
+ *   温度ひずみは区間に力を加えないので、合力は 0（断面力は材端力だけで決まる）。
+ */
+
+/** 線形分布荷重（台形・三角形・部分載荷）。x1〜x2 の区間で強度が線形に変化する */
+export type LocalDistLoad = {
+  kind: "dist";
+  x1: number; x2: number;
+  qu1: number; qv1: number;
+  qu2: number; qv2: number;
+};
+
+/** 集中荷重・集中モーメント。位置 x に pu, pv（力）と mz（モーメント、θ正 = 時計回り）が作用する */
+export type LocalPointLoad = {
+  kind: "point";
+  x: number;
+  pu: number; pv: number; mz: number;
+};
+
+/**
+ * 部材全長に一様な初期ひずみ（温度荷重）。拘束されたときに生じる力で表す。
+ * axial = EA·ε0（ε0: 軸ひずみ、伸び正）、moment = EI·κ0（κ0 = d²v/dx²: 曲率、−v 側の伸び正）
+ */
+export type LocalStrainLoad = {
+  kind: "strain";
+  axial: number; moment: number;
+};
+
+export type LocalMemberLoad = LocalDistLoad | LocalPointLoad | LocalStrainLoad;
+
+/** 荷重を factor 倍したもの（荷重組合せを直接解くとき用） */
+export function scaleMemberLoad(load: LocalMemberLoad, factor: number): LocalMemberLoad {
+  if (load.kind === "strain") return { ...load, axial: load.axial * factor, moment: load.moment * factor };
+  return load.kind === "point"
+    ? { ...load, pu: load.pu * factor, pv: load.pv * factor, mz: load.mz * factor }
+    : { ...load, qu1: load.qu1 * factor, qv1: load.qv1 * factor, qu2: load.qu2 * factor, qv2: load.qv2 * factor };
+}
+
+// ===== 形状関数 =====
+
+/** 局所 DOF 順の形状関数値 [Nu_a, Nv_a, Nθ_a, Nu_b, Nv_b, Nθ_b] */
+function shapeFunctions(x: number, L: number): number[] {
+  const t = x / L, t2 = t * t, t3 = t2 * t;
+  return [
+    1 - t,
+    1 - 3 * t2 + 2 * t3,
+    L * (t - 2 * t2 + t3),
+    t,
+    3 * t2 - 2 * t3,
+    L * (-t2 + t3),
+  ];
+}
+
+const GAUSS3 = [
+  { r: -Math.sqrt(3 / 5), w: 5 / 9 },
+  { r: 0,                 w: 8 / 9 },
+  { r:  Math.sqrt(3 / 5), w: 5 / 9 },
+];
+
+/** 形状関数の x 微分。たわみ成分のみ使う（軸成分は 0 として返す） */
+function shapeFunctionSlopes(x: number, L: number): number[] {
+  const t = x / L, t2 = t * t;
+  return [
+    0,
+    (-6 * t + 6 * t2) / L,
+    1 - 4 * t + 3 * t2,
+    0,
+    (6 * t - 6 * t2) / L,
+    -2 * t + 3 * t2,
+  ];
+}
+
+// ===== 等価節点荷重 =====
+
+/** 部材荷重の等価節点荷重（局所座標、[fua, fva, ma, fub, fvb, mb]） */
+export function equivalentNodalLoads(load: LocalMemberLoad, L: number): number[] {
+  const f = [0, 0, 0, 0, 0, 0];
+  if (load.kind === "strain") return [-load.axial, 0, -load.moment, load.axial, 0, load.moment];
+  if (load.kind === "point") {
+    const N = shapeFunctions(load.x, L);
+    const D = shapeFunctionSlopes(load.x, L);
+    const p = [load.pu, load.pv, load.pv, load.pu, load.pv, load.pv];
+    return f.map((_, i) => N[i] * p[i] + D[i] * load.mz);
+  }
+
+  const { x1, x2 } = load;
+  const len = x2 - x1;
+  if (len <= 0) return f;
+
+  for (const g of GAUSS3) {
+    const x  = x1 + (g.r + 1) / 2 * len;
+    const k  = (x - x1) / len;
+    const qu = load.qu1 + (load.qu2 - load.qu1) * k;
+    const qv = load.qv1 + (load.qv2 - load.qv1) * k;
+    const N  = shapeFunctions(x, L);
+    const w  = g.w * len / 2;
+    f[0] += w * N[0] * qu;
+    f[1] += w * N[1] * qv;
+    f[2] += w * N[2] * qv;
+    f[3] += w * N[3] * qu;
+    f[4] += w * N[4] * qv;
+    f[5] += w * N[5] * qv;
+  }
+  return f;
+}
+
+// ===== 区間内の荷重の合力 =====
+
+/**
+ * 0〜x に作用する荷重の合力 fu, fv と、その x まわりのモーメント m。
+ * 線形分布なので閉じた式で厳密に計算する。
+ * 集中荷重がちょうど x にあるとき、includeAt = true なら右側（載荷後）の値とする。
+ */
+export function loadEffectUpTo(
+  load: LocalMemberLoad, x: number, includeAt = false,
+): { fu: number; fv: number; m: number } {
+  if (load.kind === "strain") return { fu: 0, fv: 0, m: 0 };
+  if (load.kind === "point") {
+    const eps = 1e-9 * Math.max(1, Math.abs(load.x));
+    const passed = includeAt ? x >= load.x - eps : x > load.x + eps;
+    if (!passed) return { fu: 0, fv: 0, m: 0 };
+    // 集中モーメントは M(x) を mz だけ増やす（m は差し引かれる側なので符号反転）
+    return { fu: load.pu, fv: load.pv, m: load.pv * (x - load.x) - load.mz };
+  }
+
+  const { x1, x2 } = load;
+  if (x <= x1 || x2 <= x1) return { fu: 0, fv: 0, m: 0 };
+
+  const l = Math.min(x, x2) - x1;   // 載荷済みの長さ
+  const d = x - x1;                 // 載荷開始点から x までの距離
+  const len = x2 - x1;
+  const ku  = (load.qu2 - load.qu1) / len;
+  const kv  = (load.qv2 - load.qv1) / len;
+
+  // q(s) = q1 + k s  (s = ξ - x1)
+  //   ∫0^l q ds        = q1 l + k l²/2
+  //   ∫0^l q (d - s) ds = q1 (d l - l²/2) + k (d l²/2 - l³/3)
+  const fu = load.qu1 * l + ku * l * l / 2;
+  const fv = load.qv1 * l + kv * l * l / 2;
+  const m  = load.qv1 * (d * l - l * l / 2) + kv * (d * l * l / 2 - l * l * l / 3);
+  return { fu, fv, m };
+}
+
+// ===== 断面力のサンプル位置 =====
+
+/**
+ * 断面力のサンプル位置（t = x/L）。等間隔 baseCount 点に、荷重の境界位置を加える。
+ * 集中荷重の位置は同じ t を2回並べる（1つ目が載荷前、2つ目が載荷後の値）。
+ * 荷重ケースをまたいで結果を重ね合わせるため、全ケースの荷重から同じ位置列を作ること。
+ */
+export function sampleStations(loads: LocalMemberLoad[], L: number, baseCount: number): number[] {
+  const ts: number[] = [];
+  const jumps: number[] = [];
+  for (let i = 0; i < baseCount; i++) ts.push(i / (baseCount - 1));
+  for (const ld of loads) {
+    if (ld.kind === "point") { ts.push(ld.x / L); jumps.push(ld.x / L); }
+    else if (ld.kind === "dist") ts.push(ld.x1 / L, ld.x2 / L);
+  }
+
+  const sorted = ts.filter(t => t >= 0 && t <= 1).sort((a, b) => a - b);
+  const unique = sorted.filter((t, i) => i === 0 || t - sorted[i - 1] > 1e-9);
+  return unique.flatMap(t => jumps.some(j => Math.abs(j - t) <= 1e-9) ? [t, t] : [t]);
+}
+
+/** stations[i] が集中荷重位置の2つ目（載荷後の値をとる側）か */
+export function isRightOfJump(stations: number[], i: number): boolean {
+  return i > 0 && stations[i] === stations[i - 1];
+}
@@ -0,0 +1,320 @@
+/**
+ * project.ts — プロジェクトファイル（JSON）の保存・読込
+ *
+ * ■ ドキュメント形式
+ *   { app: "nqm", schemaVersion, savedAt, model: ModelState }
+ *
+ * ■ バージョン管理
+ *   モデルの形が変わるたびに PROJECT_SCHEMA_VERSION を上げ、
+ *   MIGRATIONS[旧バージョン] に「1つ新しい形へ変換する関数」を登録する。
+ *   読込時は古いバージョンから順に適用して最新形に揃える。
+ */
+
+import type {
+  Node2D, Member, Support, Joint,
+  PointLoad, DistLoad, MomentLoad, MemberPointLoad, ThermalLoad,
+  Material, Section,
+  LoadCase, LoadCombination, SelfWeight, DistLoadBasis,
+} from "../types";
+import { DEFAULT_LOAD_CASE } from "../types";
+
+export const PROJECT_APP_ID         = "nqm";
+export const PROJECT_SCHEMA_VERSION = 13;
+
+/** エディタが保持するモデル全体（保存・読込・履歴の単位） */
+export type ModelState = {
+  nodes:       Node2D[];
+  members:     Member[];
+  supports:    Support[];
+  joints:      Joint[];
+  pointLoads:  PointLoad[];
+  distLoads:   DistLoad[];
+  momentLoads: MomentLoad[];
+  memberPointLoads: MemberPointLoad[];
+  thermalLoads: ThermalLoad[];
+  materials:   Material[];
+  sections:    Section[];
+  loadCases:    LoadCase[];
+  combinations: LoadCombination[];
+  /** 自重の自動生成（null は未設定） */
+  selfWeight:   SelfWeight | null;
+};
+
+export type ProjectDocument = {
+  app:           typeof PROJECT_APP_ID;
+  schemaVersion: number;
+  savedAt:       string;
+  model:         ModelState;
+};
+
+export type ParseProjectResult =
+  | { ok: true; model: ModelState; migratedFrom: number | null }
+  | { ok: false; message: string };
+
+// ===== マイグレーション =====
+// キー: 変換元バージョン。値: 1つ新しいバージョンの model を返す関数。
+// 入力は未検証の JSON なので unknown 相当として扱う。
+
+type Migration = (model: Record<string, unknown>) => Record<string, unknown>;
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 → v2: 荷重ケース・組合せの導入。既存の荷重はすべて既定ケースに入れる
+  1: (model) => {
+    const withCase = (v: unknown) =>
+      Array.isArray(v) ? v.map((e) => isObj(e) ? { ...e, caseId: DEFAULT_LOAD_CASE.id } : e) : v;
+    return {
+      ...model,
+      pointLoads:   withCase(model.pointLoads),
+      distLoads:    withCase(model.distLoads),
+      momentLoads:  withCase(model.momentLoads),
+      loadCases:    [DEFAULT_LOAD_CASE],
+      combinations: [],
+    };
+  },
+  // v2 → v3: 分布荷重に終端強度と載荷範囲を追加（既存は全長等分布）
+  2: (model) => ({
+    ...model,
+    distLoads: Array.isArray(model.distLoads)
+      ? model.distLoads.map((e) => isObj(e)
+        ? { ...e, magnitudeEnd: e.magnitude, startRatio: 0, endRatio: 1 }
+        : e)
+      : model.distLoads,
+  }),
+  // v3 → v4: 部材途中の集中荷重・集中モーメント
+  3: (model) => ({ ...model, memberPointLoads: [] }),
+  // v4 → v5: 部材端の解放 Member.releases（任意項目なので既存データは変換不要）
+  4: (model) => model,
+  // v5 → v6: 部材種別 Member.kind（任意項目、未設定は梁）
+  5: (model) => model,
+  // v6 → v7: ばね支点 type = "spring" と Support.spring（既存の支点は変換不要）
+  6: (model) => model,
+  // v7 → v8: 支点の強制変位 Support.settlement（任意項目）
+  7: (model) => model,
+  // v8 → v9: 節点質量 Node2D.mass・断面の単位長さ質量 Section.mass（任意項目）
+  8: (model) => model,
+  // v9 → v10: 温度荷重 thermalLoads と、材料の線膨張係数・断面のせい（任意項目）
+  9: (model) => ({ ...model, thermalLoads: [] }),
+  // v10 → v11: 自重の自動生成 selfWeight と材料の単位体積重量（任意項目）
+  10: (model) => ({ ...model, selfWeight: null }),
+  // v11 → v12: 分布荷重の強度の基準 DistLoad.basis（任意項目、未設定は部材長あたり）
+  11: (model) => model,
+  // v12 → v13: ローラーの拘束方向を支点アイコンと同じ時計回りに変えた。傾いたローラーは角度の符号を
+  //   反転して保存時と同じ方向を拘束する（0°・90° の倍数は向きが同じなのでそのまま）
+  12: (model) => ({
+    ...model,
+    supports: Array.isArray(model.supports)
+      ? model.supports.map((e) =>
+        isObj(e) && e.type === "roller" && isNum(e.angleDeg) && Math.abs(Math.sin(e.angleDeg * Math.PI / 90)) > 1e-9
+          ? { ...e, angleDeg: -e.angleDeg }
+          : e)
+      : model.supports,
+  }),
+};
+
+// ===== 構造チェック =====
+
+const DIST_LOAD_BASES: DistLoadBasis[] = ["length", "horizontal", "vertical", "normal", "tangent"];
+
+const isObj = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+const isStr = (v: unknown): v is string  => typeof v === "string";
+const isNum = (v: unknown): v is number  => typeof v === "number" && isFinite(v);
+const isBool = (v: unknown): v is boolean => typeof v === "boolean";
+
+function isMemberReleases(v: unknown): boolean {
+  if (v === undefined) return true;
+  if (!isObj(v)) return false;
+  const isEnd = (e: unknown) => e === undefined || (isObj(e) && Object.values(e).every(isBool));
+  return isEnd(v.a) && isEnd(v.b);
+}
+
+function isSupportSpring(v: unknown): boolean {
+  if (v === undefined) return true;
+  return isObj(v) && isNum(v.kx) && isNum(v.ky) && isNum(v.kr);
+}
+
+function isSettlement(v: unknown): boolean {
+  if (v === undefined) return true;
+  return isObj(v) && isNum(v.dx) && isNum(v.dy) && isNum(v.rot) && isStr(v.caseId);
+}
+
+function isMemberCurve(v: unknown): boolean {
+  if (v === undefined) return true;
+  if (!isObj(v)) return false;
+  if (v.type === "arc")    return isNum(v.bulge);
+  if (v.type === "bezier") return isNum(v.cp1x) && isNum(v.cp1y) && isNum(v.cp2x) && isNum(v.cp2y);
+  return false;
+}
+
+/** 配列の全要素が pred を満たすか。満たさなければ最初の不正要素の位置を返す */
+function checkArray(v: unknown, pred: (e: Record<string, unknown>) => boolean): number | true {
+  if (!Array.isArray(v)) return -1;
+  const bad = v.findIndex((e) => !isObj(e) || !pred(e));
+  return bad === -1 ? true : bad;
+}
+
+const FIELD_CHECKS: [keyof ModelState, (e: Record<string, unknown>) => boolean][] = [
+  ["nodes",       (e) => isStr(e.id) && isNum(e.x) && isNum(e.y) && (e.mass === undefined || isNum(e.mass))],
+  ["members",     (e) => isStr(e.id) && isStr(e.a) && isStr(e.b) && isMemberCurve(e.curve) && isMemberReleases(e.releases)
+                      && (e.materialId === undefined || isStr(e.materialId))
+                      && (e.sectionId  === undefined || isStr(e.sectionId))
+                      && (e.kind === undefined || e.kind === "frame" || e.kind === "truss")],
+  ["supports",    (e) => isStr(e.id) && isStr(e.nodeId) && isNum(e.angleDeg)
+                      && (e.type === "pin" || e.type === "roller" || e.type === "fix" || e.type === "spring")
+                      && isSupportSpring(e.spring) && isSettlement(e.settlement)],
+  ["joints",      (e) => isStr(e.id) && isStr(e.nodeId)],
+  ["pointLoads",  (e) => isStr(e.id) && isStr(e.nodeId) && isNum(e.angleDeg) && isNum(e.magnitude) && isNum(e.offsetDist) && isStr(e.caseId)],
+  ["distLoads",   (e) => isStr(e.id) && isStr(e.memberId) && isNum(e.angleDeg) && isStr(e.caseId)
+                      && isNum(e.magnitude) && isNum(e.magnitudeEnd) && isNum(e.startRatio) && isNum(e.endRatio)
+                      && (e.basis === undefined || DIST_LOAD_BASES.includes(e.basis as DistLoadBasis))],
+  ["momentLoads", (e) => isStr(e.id) && isStr(e.nodeId) && isBool(e.clockwise) && isNum(e.magnitude) && isStr(e.caseId)],
+  ["memberPointLoads", (e) => isStr(e.id) && isStr(e.memberId) && isNum(e.ratio) && isStr(e.caseId)
+                      && (e.kind === "force" || e.kind === "moment")
+                      && isNum(e.angleDeg) && isBool(e.clockwise) && isNum(e.magnitude)],
+  ["thermalLoads", (e) => isStr(e.id) && isStr(e.memberId) && isStr(e.caseId) && isNum(e.uniform) && isNum(e.gradient)],
+  ["materials",   (e) => isStr(e.id) && isStr(e.name) && isNum(e.E) && (e.alpha === undefined || isNum(e.alpha))
+                      && (e.unitWeight === undefined || isNum(e.unitWeight))],
+  ["sections",    (e) => isStr(e.id) && isStr(e.name) && isNum(e.A) && isNum(e.I) && (e.mass === undefined || isNum(e.mass))
+                      && (e.depth === undefined || isNum(e.depth))],
+  ["loadCases",   (e) => isStr(e.id) && isStr(e.name)],
+  ["combinations", (e) => isStr(e.id) && isStr(e.name) && isObj(e.factors) && Object.values(e.factors).every(isNum)],
+];
+
+/** 構造チェック + 参照整合性チェック。問題があればメッセージを返す */
+function checkModel(model: Record<string, unknown>): string | null {
+  for (const [key, pred] of FIELD_CHECKS) {
+    const r = checkArray(model[key], pred);
+    if (r === -1)   return `"${key}" が配列ではありません。`;
+    if (r !== true) return `"${key}" の ${r} 番目の要素が不正です。`;
+  }
+  const sw = model.selfWeight;
+  if (sw !== null && !(isObj(sw) && isBool(sw.enabled) && isStr(sw.caseId)))
+    return `"selfWeight" が不正です。`;
+
+  const m = model as unknown as ModelState;
+  const nodeIds     = new Set(m.nodes.map((n) => n.id));
+  const memberIds   = new Set(m.members.map((v) => v.id));
+  const materialIds = new Set(m.materials.map((v) => v.id));
+  const sectionIds  = new Set(m.sections.map((v) => v.id));
+
+  if (m.members.some((v) => !nodeIds.has(v.a) || !nodeIds.has(v.b)))
+    return "存在しないノードを参照する部材があります。";
+  if (m.members.some((v) =>
+    (v.materialId !== undefined && !materialIds.has(v.materialId)) ||
+    (v.sectionId  !== undefined && !sectionIds.has(v.sectionId))))
+    return "存在しない材料・断面を参照する部材があります。";
+  if ([...m.supports, ...m.joints, ...m.pointLoads, ...m.momentLoads].some((v) => !nodeIds.has(v.nodeId)))
+    return "存在しないノードを参照する支点・ジョイント・荷重があります。";
+  if ([...m.distLoads, ...m.memberPointLoads, ...m.thermalLoads].some((v) => !memberIds.has(v.memberId)))
+    return "存在しない部材を参照する部材荷重があります。";
+
+  const caseIds = new Set(m.loadCases.map((v) => v.id));
+  if (caseIds.size === 0)
+    return "荷重ケースが1つもありません。";
+  if ([...m.pointLoads, ...m.distLoads, ...m.momentLoads, ...m.memberPointLoads, ...m.thermalLoads].some((v) => !caseIds.has(v.caseId)))
+    return "存在しない荷重ケースに属する荷重があります。";
+  if (m.supports.some((v) => v.settlement && !caseIds.has(v.settlement.caseId)))
+    return "存在しない荷重ケースに属する強制変位があります。";
+  if (m.selfWeight && !caseIds.has(m.selfWeight.caseId))
+    return "自重の荷重ケースが存在しません。";
+  if (m.combinations.some((v) => Object.keys(v.factors).some((id) => !caseIds.has(id))))
+    return "存在しない荷重ケースを参照する組合せがあります。";
+  return null;
+}
+
+// ===== シリアライズ =====
+
+/** 存在しない部材に載る部材荷重を除く（読込時の参照整合性チェックで弾かれないように） */
+function dropOrphanMemberLoads(model: ModelState): ModelState {
+  const memberIds = new Set(model.members.map((m) => m.id));
+  const onMember  = <T extends { memberId: string }>(loads: T[]) => loads.filter((l) => memberIds.has(l.memberId));
+  return {
+    ...model,
+    distLoads:        onMember(model.distLoads),
+    memberPointLoads: onMember(model.memberPointLoads),
+    thermalLoads:     onMember(model.thermalLoads),
+  };
+}
+
+export function createProjectDocument(model: ModelState): ProjectDocument {
+  return {
+    app:           PROJECT_APP_ID,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt:       new Date().toISOString(),
+    model:         dropOrphanMemberLoads(model),
+  };
+}
+
+export function serializeProject(model: ModelState): string {
+  return JSON.stringify(createProjectDocument(model), null, 2);
+}
+
+/** JSON テキストを読み込み、必要ならマイグレーションして最新形の ModelState を返す */
+export function parseProject(text: string): ParseProjectResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, message: "JSON として読み込めません。" };
+  }
+  if (!isObj(raw) || raw.app !== PROJECT_APP_ID || !isObj(raw.model)) {
+    return { ok: false, message: "NQM のプロジェクトファイルではありません。" };
+  }
+  const version = raw.schemaVersion;
+  if (!isNum(version) || !Number.isInteger(version) || version < 1) {
+    return { ok: false, message: "schemaVersion が不正です。" };
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    return { ok: false, message: `新しいバージョン (v${version}) のファイルです。アプリを更新してください。` };
+  }
+
+  let model = raw.model as Record<string, unknown>;
+  for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) return { ok: false, message: `v${v} からの変換に対応していません。` };
+    model = migrate(model);
+  }
+
+  const problem = checkModel(model);
+  if (problem) return { ok: false, message: problem };
+
+  return {
+    ok: true,
+    model: model as unknown as ModelState,
+    migratedFrom: version < PROJECT_SCHEMA_VERSION ? version : null,
+  };
+}
+
+// ===== ファイル入出力（ブラウザ） =====
+
+/** モデルを JSON ファイルとしてダウンロードさせる */
+export function downloadProject(model: ModelState, filename = "nqm-project.json") {
+  const blob = new Blob([serializeProject(model)], { type: "application/json" });
+  const url  = URL.createObjectURL(blob);
+  const a    = document.createElement("a");
+  a.href     = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** ファイル選択ダイアログを開き、選ばれたファイルのテキストを返す（キャンセル時 null） */
+export function pickProjectFile(): Promise<string | null> {
+  return pickTextFile(".json,application/json");
+}
+
+/** accept に合うファイルを選ばせてテキストを返す（キャンセル時 null） */
+export function pickTextFile(accept: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input  = document.createElement("input");
+    input.type   = "file";
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) { resolve(null); return; }
+      file.text().then(resolve, () => resolve(null));
+    };
+    input.addEventListener("cancel", () => resolve(null));
+    input.click();
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * releases.ts — 部材端の解放（材端ピン・軸方向・せん断）と静的縮合
+ *
+ * ■ 解放する局所 DOF
+ *   局所 DOF 順 [ua, va, θa, ub, vb, θb] のうち、解放した成分の材端力を 0 にする。
+ *     axial → u, shear → v, moment → θ
+ *
+ * ■ 静的縮合
+ *   r: 解放 DOF, k: 残す DOF として
+ *     K* = Kkk - Kkr Krr⁻¹ Krk           （縮合後の剛性、r の行・列は 0）
+ *     P* = Pk  - Kkr Krr⁻¹ Pr            （縮合後の等価節点荷重）
+ *   解放 DOF の変位は材端力 0 の条件から復元する。
+ *     qr = Krr⁻¹ (Pr - Krk qk)
+ *   節点ジョイント（全部材端の解放）と違い、部材ごと・端ごとに指定できる。
+ */
+
+import type { FemMemberReleases } from "./femTypes";
+
+/** 解放した局所 DOF の番号（昇順） */
+export function releasedDofs(rel: FemMemberReleases | undefined): number[] {
+  if (!rel) return [];
+  const dofs: number[] = [];
+  if (rel.a?.axial)  dofs.push(0);
+  if (rel.a?.shear)  dofs.push(1);
+  if (rel.a?.moment) dofs.push(2);
+  if (rel.b?.axial)  dofs.push(3);
+  if (rel.b?.shear)  dofs.push(4);
+  if (rel.b?.moment) dofs.push(5);
+  return dofs;
+}
+
+/** 小さな正方行列の逆行列（Gauss-Jordan、部分ピボット）。特異なら null */
+function invertSmall(m: number[][]): number[][] | null {
+  const n = m.length;
+  const a = m.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  const scale = Math.max(...m.flat().map(Math.abs), 1e-300);
+  for (let col = 0; col < n; col++) {
+    let piv = col;
+    for (let r = col + 1; r < n; r++)
+      if (Math.abs(a[r][col]) > Math.abs(a[piv][col])) piv = r;
+    if (Math.abs(a[piv][col]) < 1e-10 * scale) return null;
+    [a[col], a[piv]] = [a[piv], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      if (f === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= f * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(n));
+}
+
+export type Condensation = {
+  /** 縮合後の局所剛性（6×6、解放 DOF の行・列は 0） */
+  kl: number[][];
+  /** 等価節点荷重を縮合する（解放 DOF 成分は 0） */
+  condenseLoad: (p: number[]) => number[];
+  /** 残した DOF の変位と等価節点荷重から、解放 DOF を含む全局所変位を復元する */
+  recover: (q: number[], p: number[]) => number[];
+};
+
+/**
+ * 局所剛性 kl を解放 DOF について静的縮合する。
+ * 解放の組合せで部材が不安定になる（Krr が特異）場合は null。
+ */
+export function condense(kl: number[][], released: number[]): Condensation | null {
+  if (released.length === 0) {
+    return { kl, condenseLoad: p => p, recover: q => q };
+  }
+  const r = released;
+  const k = [0, 1, 2, 3, 4, 5].filter(i => !r.includes(i));
+  const KrrInv = invertSmall(r.map(i => r.map(j => kl[i][j])));
+  if (!KrrInv) return null;
+
+  // Kkr Krr⁻¹（6 行で持ち、k 以外の行は使わない）
+  const G = kl.map(row => r.map((_, jj) => r.reduce((s, _x, ii) => s + row[r[ii]] * KrrInv[ii][jj], 0)));
+
+  const kc = kl.map(row => row.map(() => 0));
+  for (const i of k)
+    for (const j of k)
+      kc[i][j] = kl[i][j] - r.reduce((s, rr, ii) => s + G[i][ii] * kl[rr][j], 0);
+
+  const condenseLoad = (p: number[]) =>
+    p.map((v, i) => r.includes(i) ? 0 : v - r.reduce((s, rr, ii) => s + G[i][ii] * p[rr], 0));
+
+  const recover = (q: number[], p: number[]) => {
+    const out = [...q];
+    // rhs = Pr - Krk qk
+    const rhs = r.map(i => p[i] - k.reduce((s, j) => s + kl[i][j] * q[j], 0));
+    r.forEach((i, ii) => { out[i] = rhs.reduce((s, v, jj) => s + KrrInv[ii][jj] * v, 0); });
+    return out;
+  };
+
+  return { kl: kc, condenseLoad, recover };
+}
+
+/**
+ * 解放の組合せで部材単体が機構にならないか。
+ * 軸方向を両端で解放、せん断を両端で解放、せん断解放 + 両端モーメント解放は不可。
+ */
+export function isStableRelease(rel: FemMemberReleases | undefined): boolean {
+  if (!rel) return true;
+  const { a = {}, b = {} } = rel;
+  if (a.axial && b.axial) return false;
+  if (a.shear && b.shear) return false;
+  if ((a.shear || b.shear) && a.moment && b.moment) return false;
+  return true;
+}
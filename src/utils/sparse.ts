@@ -0,0 +1,262 @@
+/**
+ * sparse.ts — 対称疎行列の組み立てとスカイライン Cholesky 分解
+ *
+ * ■ 組み立て
+ *   要素ごとの寄与を COO 形式（行・列・値の三つ組）に追記し、CSR 形式に変換するときに重複を合算する。
+ *
+ * ■ 解法
+ *   解く自由度を逆 Cuthill–McKee 順に並べ替えて帯幅（プロファイル）を縮め、
+ *   各行の最初の非ゼロ列から対角までを連続に持つスカイライン形式で K = L Lᵀ に分解する。
+ *   分解は1回だけ行い、右辺ごとに前進・後退代入で解く。
+ */
+
+/** COO 形式（組み立て用）。同じ位置への追記は CSR 変換時に合算する */
+export type CooMatrix = { n: number; rows: number[]; cols: number[]; vals: number[] };
+
+/** CSR 形式。各行の列番号は昇順 */
+export type CsrMatrix = { n: number; rowPtr: Int32Array; colIdx: Int32Array; vals: Float64Array };
+
+/**
+ * スカイライン形式の Cholesky 因子 L（下三角）。
+ * order[k] は k 番目に並べた元の行番号。行 k は列 first[k]〜k を L[start[k]] から連続に持つ。
+ */
+export type SkylineFactor = {
+  order: number[];
+  first: Int32Array;
+  start: Int32Array;
+  L:     Float64Array;
+};
+
+// ===== 組み立て =====
+
+export function createCoo(n: number): CooMatrix {
+  return { n, rows: [], cols: [], vals: [] };
+}
+
+export function addEntry(A: CooMatrix, i: number, j: number, v: number) {
+  if (v === 0) return;
+  A.rows.push(i);
+  A.cols.push(j);
+  A.vals.push(v);
+}
+
+/** 対角成分（重複は合算） */
+export function cooDiagonal(A: CooMatrix): Float64Array {
+  const d = new Float64Array(A.n);
+  for (let e = 0; e < A.vals.length; e++) {
+    if (A.rows[e] === A.cols[e]) d[A.rows[e]] += A.vals[e];
+  }
+  return d;
+}
+
+export function toCsr(A: CooMatrix): CsrMatrix {
+  const { n } = A;
+  const nnz = A.vals.length;
+
+  // 行ごとに振り分け
+  const count = new Int32Array(n + 1);
+  for (let e = 0; e < nnz; e++) count[A.rows[e] + 1]++;
+  for (let i = 0; i < n; i++) count[i + 1] += count[i];
+  const cursor = count.slice(0, n);
+  const cols = new Int32Array(nnz);
+  const vals = new Float64Array(nnz);
+  for (let e = 0; e < nnz; e++) {
+    const k = cursor[A.rows[e]]++;
+    cols[k] = A.cols[e];
+    vals[k] = A.vals[e];
+  }
+
+  // 行内を列順に並べ、同じ列を合算
+  const rowPtr = new Int32Array(n + 1);
+  const outCols: number[] = [];
+  const outVals: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const idx = Array.from({ length: count[i + 1] - count[i] }, (_, k) => count[i] + k)
+      .sort((p, q) => cols[p] - cols[q]);
+    for (const k of idx) {
+      const last = outCols.length - 1;
+      if (outCols.length > rowPtr[i] && outCols[last] === cols[k]) outVals[last] += vals[k];
+      else { outCols.push(cols[k]); outVals.push(vals[k]); }
+    }
+    rowPtr[i + 1] = outCols.length;
+  }
+  return { n, rowPtr, colIdx: Int32Array.from(outCols), vals: Float64Array.from(outVals) };
+}
+
+/** 行 i と x の内積 */
+export function csrRowDot(A: CsrMatrix, i: number, x: ArrayLike<number>): number {
+  let sum = 0;
+  for (let k = A.rowPtr[i]; k < A.rowPtr[i + 1]; k++) sum += A.vals[k] * x[A.colIdx[k]];
+  return sum;
+}
+
+// ===== 並べ替え =====
+
+/**
+ * 逆 Cuthill–McKee 順序。dofs（A の行番号の部分集合）だけを節点とするグラフで、
+ * 周辺に近い節点から幅優先に次数の小さい順で番号を付け、最後に逆順にする。
+ * 連結でない場合は成分ごとに繰り返す。
+ */
+export function reverseCuthillMcKee(A: CsrMatrix, dofs: number[]): number[] {
+  const n = dofs.length;
+  const local = new Int32Array(A.n).fill(-1);
+  dofs.forEach((d, k) => { local[d] = k; });
+
+  const adj: number[][] = dofs.map((d) => {
+    const list: number[] = [];
+    for (let k = A.rowPtr[d]; k < A.rowPtr[d + 1]; k++) {
+      const j = local[A.colIdx[k]];
+      if (j !== -1 && A.colIdx[k] !== d) list.push(j);
+    }
+    return list;
+  });
+  const degree = adj.map(a => a.length);
+  for (const a of adj) a.sort((p, q) => degree[p] - degree[q]);
+
+  const visited = new Uint8Array(n);
+  const order: number[] = [];
+
+  /** start から幅優先にたどった層（visited は変更しない） */
+  const levels = (start: number): number[][] => {
+    const seen = new Set([start]);
+    const result = [[start]];
+    for (;;) {
+      const next: number[] = [];
+      for (const v of result[result.length - 1]) {
+        for (const w of adj[v]) {
+          if (visited[w] || seen.has(w)) continue;
+          seen.add(w);
+          next.push(w);
+        }
+      }
+      if (next.length === 0) return result;
+      result.push(next);
+    }
+  };
+
+  /** 擬似周辺節点: 最後の層で次数最小の節点に移り、層の数が増えなくなるまで繰り返す */
+  const peripheral = (seed: number): number => {
+    let start = seed;
+    let lv = levels(start);
+    for (let iter = 0; iter < 8; iter++) {
+      const last = lv[lv.length - 1];
+      const cand = last.reduce((best, v) => degree[v] < degree[best] ? v : best, last[0]);
+      const next = levels(cand);
+      if (next.length <= lv.length) break;
+      start = cand;
+      lv = next;
+    }
+    return start;
+  };
+
+  const seeds = Array.from({ length: n }, (_, k) => k).sort((p, q) => degree[p] - degree[q]);
+  for (const seed of seeds) {
+    if (visited[seed]) continue;
+    const start = peripheral(seed);
+    visited[start] = 1;
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      order.push(v);
+      for (const w of adj[v]) {
+        if (visited[w]) continue;
+        visited[w] = 1;
+        queue.push(w);
+      }
+    }
+  }
+  return order.reverse().map(k => dofs[k]);
+}
+
+// ===== スカイライン Cholesky =====
+
+/** 対角の元の値に対してこれ以下のピボットは正定値でない（不安定構造）とみなす */
+const PIVOT_TOL = 1e-12;
+
+/** 進捗を知らせる行の間隔 */
+const PROGRESS_ROWS = 256;
+
+/**
+ * A の order の行・列だけを取り出した部分行列を、order の順に並べて Cholesky 分解する。
+ * 正定値でなければ（不安定構造）null。onProgress には分解した行の割合を時々渡す。
+ */
+export function skylineCholesky(
+  A: CsrMatrix, order: number[],
+  onProgress?: (fraction: number) => void,
+): SkylineFactor | null {
+  const n = order.length;
+  const pos = new Int32Array(A.n).fill(-1);
+  order.forEach((d, k) => { pos[d] = k; });
+
+  // 各行の最初の非ゼロ列（対称なので行内の列だけ見ればよい）
+  const first = new Int32Array(n);
+  for (let i = 0; i < n; i++) {
+    const row = order[i];
+    let f = i;
+    for (let k = A.rowPtr[row]; k < A.rowPtr[row + 1]; k++) {
+      const p = pos[A.colIdx[k]];
+      if (p !== -1 && p < f) f = p;
+    }
+    first[i] = f;
+  }
+  const start = new Int32Array(n + 1);
+  for (let i = 0; i < n; i++) start[i + 1] = start[i] + (i - first[i] + 1);
+
+  const L = new Float64Array(start[n]);
+  const diag0 = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const row = order[i];
+    for (let k = A.rowPtr[row]; k < A.rowPtr[row + 1]; k++) {
+      const p = pos[A.colIdx[k]];
+      if (p === -1 || p > i) continue;
+      L[start[i] + p - first[i]] += A.vals[k];
+      if (p === i) diag0[i] = A.vals[k];
+    }
+  }
+
+  for (let i = 0; i < n; i++) {
+    if (onProgress && i % PROGRESS_ROWS === 0) onProgress(i / n);
+    const fi = first[i], si = start[i];
+    for (let j = fi; j <= i; j++) {
+      const fj = first[j], sj = start[j];
+      let sum = L[si + j - fi];
+      for (let k = Math.max(fi, fj); k < j; k++) sum -= L[si + k - fi] * L[sj + k - fj];
+      if (j < i) {
+        L[si + j - fi] = sum / L[sj + j - fj];
+      } else {
+        if (!(sum > PIVOT_TOL * Math.abs(diag0[i]))) return null;
+        L[si + i - fi] = Math.sqrt(sum);
+      }
+    }
+  }
+  return { order, first, start: start.subarray(0, n), L };
+}
+
+/** L Lᵀ x = b を解く（b, x は order の順） */
+export function skylineSolve(F: SkylineFactor, b: ArrayLike<number>): Float64Array {
+  const { first, start, L } = F;
+  const n = F.order.length;
+  const x = Float64Array.from(b);
+
+  // 前進代入 L y = b
+  for (let i = 0; i < n; i++) {
+    const fi = first[i], si = start[i];
+    let sum = x[i];
+    for (let k = fi; k < i; k++) sum -= L[si + k - fi] * x[k];
+    x[i] = sum / L[si + i - fi];
+  }
+  // 後退代入 Lᵀ x = y（列ごとに下から）
+  for (let i = n - 1; i >= 0; i--) {
+    const fi = first[i], si = start[i];
+    x[i] /= L[si + i - fi];
+    for (let k = fi; k < i; k++) x[k] -= L[si + k - fi] * x[i];
+  }
+  return x;
+}
+
+/** 帯幅（行の最初の非ゼロ列から対角までの最大幅）とプロファイル（L の格納要素数） */
+export function skylineSize(F: SkylineFactor): { bandwidth: number; profile: number } {
+  let bandwidth = 0;
+  F.first.forEach((f, i) => { bandwidth = Math.max(bandwidth, i - f); });
+  return { bandwidth, profile: F.L.length };
+}
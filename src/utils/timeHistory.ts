@@ -0,0 +1,88 @@
+/**
+ * timeHistory.ts — 時刻歴応答解析の時間関数と、結果からの履歴の取り出し
+ *
+ * ■ 時間関数
+ *   荷重ケース・地動加速度に掛ける f(t)。表形式は CSV（1列目 時刻、2列目 値）から読み込む。
+ *
+ * ■ 履歴
+ *   結果の各コマから、選んだ節点の変位・部材の材端力を時刻順に取り出す（折れ線グラフ用）。
+ *   円弧部材は展開後のサブ部材のうち、a端は最初、b端は最後のものの値を使う。
+ */
+
+import type { TimeFunction, TimeHistoryFrame } from "./femTypes";
+
+/** 時刻 t における f(t) */
+export function evaluateTimeFunction(fn: TimeFunction, t: number): number {
+  switch (fn.kind) {
+    case "pulse":
+      return t >= fn.start && t < fn.start + fn.duration ? fn.amplitude : 0;
+    case "harmonic":
+      return fn.amplitude * Math.sin(2 * Math.PI * fn.frequency * t + fn.phaseDeg * Math.PI / 180);
+    case "table": {
+      const pts = fn.points;
+      if (pts.length === 0 || t < pts[0].t || t > pts[pts.length - 1].t) return 0;
+      const hi = pts.findIndex(p => p.t >= t);
+      if (hi <= 0) return pts[0].v;
+      const lo = pts[hi - 1];
+      const p  = pts[hi];
+      return p.t === lo.t ? p.v : lo.v + (p.v - lo.v) * (t - lo.t) / (p.t - lo.t);
+    }
+  }
+}
+
+export type ParseTimeSeriesResult =
+  | { ok: true; points: { t: number; v: number }[] }
+  | { ok: false; message: string };
+
+/**
+ * CSV（区切りはカンマ・タブ・空白）を時刻と値の表として読む。
+ * 数値でない行（見出し・空行）は飛ばし、時刻は昇順でなければならない
+ */
+export function parseTimeSeriesCsv(text: string): ParseTimeSeriesResult {
+  const points: { t: number; v: number }[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const cells = line.trim().split(/[,\t ]+/);
+    if (cells.length < 2) continue;
+    const t = Number(cells[0]);
+    const v = Number(cells[1]);
+    if (cells[0] === "" || !isFinite(t) || !isFinite(v)) continue;
+    if (points.length > 0 && t < points[points.length - 1].t) {
+      return { ok: false, message: `時刻が昇順になっていません（${points.length + 1} 点目）。` };
+    }
+    points.push({ t, v });
+  }
+  if (points.length < 2) return { ok: false, message: "時刻と値の組が2つ以上必要です。" };
+  return { ok: true, points };
+}
+
+/** 履歴グラフの点列 */
+export type HistorySeries = { time: number[]; value: number[] };
+
+export type NodeHistoryQuantity   = "ux" | "uy" | "rot";
+export type MemberHistoryQuantity = "Na" | "Qa" | "Ma" | "Nb" | "Qb" | "Mb";
+
+export function nodeHistory(frames: TimeHistoryFrame[], nodeId: string, quantity: NodeHistoryQuantity): HistorySeries | null {
+  if (!frames[0]?.displacements.some(d => d.nodeId === nodeId)) return null;
+  return {
+    time:  frames.map(f => f.time),
+    value: frames.map(f => f.displacements.find(d => d.nodeId === nodeId)?.[quantity] ?? 0),
+  };
+}
+
+/** arcGroupMap はサブ部材ID → 元の円弧部材ID（FemResult.arcGroupMap） */
+export function memberHistory(
+  frames: TimeHistoryFrame[],
+  memberId: string,
+  quantity: MemberHistoryQuantity,
+  arcGroupMap: Map<string, string>,
+): HistorySeries | null {
+  const ids = frames[0]?.elements
+    .map(el => el.memberId)
+    .filter(id => (arcGroupMap.get(id) ?? id) === memberId) ?? [];
+  if (ids.length === 0) return null;
+  const endId = quantity.endsWith("a") ? ids[0] : ids[ids.length - 1];
+  return {
+    time:  frames.map(f => f.time),
+    value: frames.map(f => f.elements.find(el => el.memberId === endId)?.[quantity] ?? 0),
+  };
+}
@@ -6,6 +6,7 @@
  */
 
 import type { FemInput } from "./femTypes";
+import { isStableRelease } from "./releases";
 
 export type ValidationLevel = "error" | "warning";
 export type ValidationIssue = {
@@ -25,7 +26,7 @@ export type ValidationResult = {
 export function validateModel(input: FemInput): ValidationResult {
   const issues: ValidationIssue[] = [];
 
-  const { nodes, members, supports, pointLoads, distLoads, momentLoads} = input;
+  const { nodes, members, supports, pointLoads, distLoads, momentLoads, memberPointLoads, thermalLoads } = input;
 
   // ── 1. 部材がない ──────────────────────────────────
   if (members.length === 0) {
@@ -94,11 +95,14 @@ export function validateModel(input: FemInput): ValidationResult {
     }
 
     // ── 6. 拘束自由度が不足していないか（簡易チェック）──
-    // pin=2拘束, roller=1拘束, fix=3拘束 の合計が最低3以上必要
+    // pin=2拘束, roller=1拘束, fix=3拘束, spring=剛性が正の成分数 の合計が最低3以上必要
     const totalConstraints = supports.reduce((sum, s) => {
       if (s.type === "pin")    return sum + 2;
       if (s.type === "roller") return sum + 1;
       if (s.type === "fix")    return sum + 3;
+      if (s.type === "spring" && s.spring) {
+        return sum + [s.spring.kx, s.spring.ky, s.spring.kr].filter(k => k > 0).length;
+      }
       return sum;
     }, 0);
     if (totalConstraints < 3) {
@@ -108,10 +112,24 @@ export function validateModel(input: FemInput): ValidationResult {
         message: "支点の拘束が不足しています。最低でも3つの拘束自由度（pin+roller など）が必要です。",
       });
     }
+
+    // ── 6b. ばね剛性 ──────────────────────────────────
+    const badSprings = supports.filter(s => s.type === "spring" &&
+      !(s.spring && [s.spring.kx, s.spring.ky, s.spring.kr].every(k => isFinite(k) && k >= 0)));
+    if (badSprings.length > 0) {
+      issues.push({
+        level: "error",
+        code: "INVALID_SPRING",
+        message: `ばね剛性が不正なばね支点が ${badSprings.length} 個あります（kx・ky・kθ は 0 以上）。`,
+        ids: badSprings.map(s => s.id),
+      });
+    }
   }
 
   // ── 7. 荷重がない ──────────────────────────────────
-  const hasLoad = pointLoads.length > 0 || distLoads.length > 0 || momentLoads.length > 0;
+  const hasLoad = pointLoads.length > 0 || distLoads.length > 0 || momentLoads.length > 0 || memberPointLoads.length > 0
+    || thermalLoads.length > 0 || supports.some(s => s.settlement)
+    || (input.selfWeight !== undefined && input.materials.some(mt => mt.unitWeight));
   if (!hasLoad) {
     issues.push({
       level: "warning",
@@ -123,7 +141,9 @@ export function validateModel(input: FemInput): ValidationResult {
   // ── 8. 荷重magnitude = 0 ────────────────────────────
   const zeroLoads = [
     ...pointLoads.filter(l => l.magnitude === 0),
-    ...distLoads.filter(l => l.magnitude === 0),
+    ...distLoads.filter(l => l.magnitude === 0 && l.magnitudeEnd === 0),
+    ...memberPointLoads.filter(l => l.magnitude === 0),
+    ...thermalLoads.filter(l => l.uniform === 0 && l.gradient === 0),
   ];
   if (zeroLoads.length > 0) {
     issues.push({
@@ -134,6 +154,81 @@ export function validateModel(input: FemInput): ValidationResult {
     });
   }
 
+  // ── 8b. 分布荷重の載荷範囲 ──────────────────────────
+  const badRanges = distLoads.filter(l => !(0 <= l.startRatio && l.startRatio < l.endRatio && l.endRatio <= 1));
+  if (badRanges.length > 0) {
+    issues.push({
+      level: "error",
+      code: "INVALID_DIST_RANGE",
+      message: `載荷範囲が不正な分布荷重が ${badRanges.length} 個あります（0 ≤ 始点 < 終点 ≤ 1）。`,
+      ids: badRanges.map(l => l.id),
+    });
+  }
+
+  // ── 8c. 部材途中の集中荷重の位置 ──────────────────────
+  const memberIdSet = new Set(members.map(m => m.id));
+  const badPositions = memberPointLoads.filter(l => !(0 <= l.ratio && l.ratio <= 1) || !memberIdSet.has(l.memberId));
+  if (badPositions.length > 0) {
+    issues.push({
+      level: "error",
+      code: "INVALID_MEMBER_LOAD_POSITION",
+      message: `位置が不正な部材集中荷重が ${badPositions.length} 個あります（存在する部材上、0 ≤ 位置 ≤ 1）。`,
+      ids: badPositions.map(l => l.id),
+    });
+  }
+
+  // ── 8d. 温度荷重の部材と材料・断面 ──────────────────
+  const memberById = new Map(members.map(m => [m.id, m]));
+  const badThermal = thermalLoads.filter(l => !memberById.has(l.memberId));
+  if (badThermal.length > 0) {
+    issues.push({
+      level: "error",
+      code: "INVALID_THERMAL_MEMBER",
+      message: `存在しない部材に載る温度荷重が ${badThermal.length} 個あります。`,
+      ids: badThermal.map(l => l.id),
+    });
+  }
+  const alphaOf = new Map(input.materials.map(mt => [mt.id, mt.alpha ?? 0]));
+  const depthOf = new Map(input.sections.map(sc => [sc.id, sc.depth ?? 0]));
+  const noAlpha = thermalLoads.filter(l => {
+    const m = memberById.get(l.memberId);
+    return m && (l.uniform !== 0 || l.gradient !== 0) && !alphaOf.get(m.materialId);
+  });
+  if (noAlpha.length > 0) {
+    issues.push({
+      level: "warning",
+      code: "THERMAL_WITHOUT_ALPHA",
+      message: `線膨張係数 α が 0 の材料の部材に温度荷重が ${noAlpha.length} 個あります（断面力への寄与なし）。`,
+      ids: noAlpha.map(l => l.id),
+    });
+  }
+  const noDepth = thermalLoads.filter(l => {
+    const m = memberById.get(l.memberId);
+    return m && l.gradient !== 0 && m.kind !== "truss" && !(depthOf.get(m.sectionId)! > 0);
+  });
+  if (noDepth.length > 0) {
+    issues.push({
+      level: "warning",
+      code: "THERMAL_WITHOUT_DEPTH",
+      message: `せい h が未設定の断面の部材に上下の温度差が ${noDepth.length} 個あります（温度差は無視します）。`,
+      ids: noDepth.map(l => l.id),
+    });
+  }
+
+  // ── 8e. 自重 ──────────────────────────────────────
+  if (input.selfWeight) {
+    const unitWeightOf = new Map(input.materials.map(mt => [mt.id, mt.unitWeight ?? 0]));
+    const weightless = members.filter(m => !unitWeightOf.get(m.materialId));
+    if (weightless.length > 0) {
+      issues.push({
+        level: "warning",
+        code: "SELF_WEIGHT_ZERO",
+        message: `単位体積重量 γ が 0 の材料の部材が ${weightless.length} 本あります（自重は生成されません）。`,
+        ids: weightless.map(m => m.id),
+      });
+    }
+  }
+
   // ── 9. 同一座標の重複ノード ──────────────────────────
   const coordSet = new Set<string>();
   const dupNodes: string[] = [];
@@ -169,6 +264,167 @@ export function validateModel(input: FemInput): ValidationResult {
     });
   }
 
+  // ── 11. 材料・断面の参照と値 ────────────────────────
+  const materialMap = new Map(input.materials.map(mt => [mt.id, mt]));
+  const sectionMap  = new Map(input.sections.map(sc => [sc.id, sc]));
+  const unresolved = members.filter(m => !materialMap.has(m.materialId) || !sectionMap.has(m.sectionId));
+  if (unresolved.length > 0) {
+    issues.push({
+      level: "error",
+      code: "UNKNOWN_SECTION",
+      message: `材料または断面が見つからない部材が ${unresolved.length} 本あります。`,
+      ids: unresolved.map(m => m.id),
+    });
+  }
+  const badStiffness = members.filter(m => {
+    const mt = materialMap.get(m.materialId);
+    const sc = sectionMap.get(m.sectionId);
+    if (!mt || !sc) return false;
+    return !(mt.E > 0) || !(sc.A > 0) || !(sc.I > 0);
+  });
+  if (badStiffness.length > 0) {
+    issues.push({
+      level: "error",
+      code: "INVALID_STIFFNESS",
+      message: `E・A・I のいずれかが正でない部材が ${badStiffness.length} 本あります。`,
+      ids: badStiffness.map(m => m.id),
+    });
+  }
+
+  // ── 11b. 部材端の解放（トラス材は両端ピン固定なので対象外）──
+  const unstableReleases = members.filter(m => m.kind !== "truss" && !isStableRelease(m.releases));
+  if (unstableReleases.length > 0) {
+    issues.push({
+      level: "error",
+      code: "UNSTABLE_RELEASE",
+      message: `端部の解放で不安定になる部材が ${unstableReleases.length} 本あります（軸方向・せん断の両端解放などは不可）。`,
+      ids: unstableReleases.map(m => m.id),
+    });
+  }
+
+  // ── 11c. トラス材 ──────────────────────────────────
+  const curvedTruss = members.filter(m => m.kind === "truss" && m.curve?.type === "arc" && Math.abs(m.curve.bulge) >= 1e-9);
+  if (curvedTruss.length > 0) {
+    issues.push({
+      level: "error",
+      code: "CURVED_TRUSS",
+      message: `円弧のトラス材が ${curvedTruss.length} 本あります。トラス材は直線のみ指定できます。`,
+      ids: curvedTruss.map(m => m.id),
+    });
+  }
+
+  // トラス材だけが接続する節点は回転を拘束する要素がない。
+  // 並進が拘束されていれば回転 0 として解けるので警告、並進も拘束されなければ機構。
+  const trussNodes = trussOnlyNodes(input, nodeMap);
+  const trussMechanisms = trussNodes.filter(t => !t.translationStable).map(t => t.nodeId);
+  if (trussMechanisms.length > 0) {
+    issues.push({
+      level: "error",
+      code: "TRUSS_NODE_MECHANISM",
+      message: `トラス材のみが一直線に接続する節点が ${trussMechanisms.length} 個あります（部材直交方向に拘束がなく不安定です）。`,
+      ids: trussMechanisms,
+    });
+  }
+  const trussFreeRotation = trussNodes.filter(t => t.translationStable).map(t => t.nodeId);
+  if (trussFreeRotation.length > 0) {
+    issues.push({
+      level: "warning",
+      code: "TRUSS_NODE_ROTATION",
+      message: `トラス材のみが接続し回転が拘束されない節点が ${trussFreeRotation.length} 個あります（回転は 0 として扱い、節点回転角は表示されません）。`,
+      ids: trussFreeRotation,
+    });
+  }
+  const trussNodeIds = new Set(trussNodes.map(t => t.nodeId));
+  const trussMoments = momentLoads.filter(l => trussNodeIds.has(l.nodeId));
+  if (trussMoments.length > 0) {
+    issues.push({
+      level: "error",
+      code: "MOMENT_ON_TRUSS_NODE",
+      message: `トラス材のみが接続する節点にモーメント荷重が ${trussMoments.length} 個あります（抵抗する部材がありません）。`,
+      ids: trussMoments.map(l => l.id),
+    });
+  }
+
+  // ── 12. 荷重ケース・組合せの参照 ─────────────────────
+  const caseIds = new Set(input.loadCases.map(lc => lc.id));
+  const orphanLoads = [
+    ...pointLoads, ...distLoads, ...momentLoads, ...memberPointLoads, ...thermalLoads,
+    ...supports.flatMap(s => s.settlement ? [{ id: s.id, caseId: s.settlement.caseId }] : []),
+  ].filter(l => !caseIds.has(l.caseId));
+  if (orphanLoads.length > 0) {
+    issues.push({
+      level: "error",
+      code: "UNKNOWN_LOAD_CASE",
+      message: `荷重ケースが見つからない荷重・強制変位が ${orphanLoads.length} 個あります。`,
+      ids: orphanLoads.map(l => l.id),
+    });
+  }
+  if (input.selfWeight && !caseIds.has(input.selfWeight.caseId)) {
+    issues.push({
+      level: "error",
+      code: "UNKNOWN_SELF_WEIGHT_CASE",
+      message: "自重の荷重ケースが見つかりません。",
+    });
+  }
+  const badCombos = input.combinations.filter(cb =>
+    Object.entries(cb.factors).some(([id, f]) => !caseIds.has(id) || !isFinite(f)));
+  if (badCombos.length > 0) {
+    issues.push({
+      level: "error",
+      code: "INVALID_COMBINATION",
+      message: `存在しない荷重ケースまたは不正な係数を含む組合せがあります: ${badCombos.map(cb => cb.name).join(", ")}`,
+      ids: badCombos.map(cb => cb.id),
+    });
+  }
+
   const ok = issues.filter(i => i.level === "error").length === 0;
   return { ok, issues };
+}
+
+/**
+ * トラス材だけが接続し、固定支点・回転ばねもない節点。
+ * translationStable: 接続するトラス材の方向と支点の拘束方向で並進2方向が拘束されているか。
+ */
+function trussOnlyNodes(
+  input: FemInput,
+  nodeMap: Map<string, { x: number; y: number }>,
+): { nodeId: string; translationStable: boolean }[] {
+  const directions = new Map<string, [number, number][]>();
+  const hasFrame = new Set<string>();
+  for (const m of input.members) {
+    const a = nodeMap.get(m.a), b = nodeMap.get(m.b);
+    if (!a || !b) continue;
+    if (m.kind !== "truss") { hasFrame.add(m.a); hasFrame.add(m.b); continue; }
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len < 1e-6) continue;
+    const d: [number, number] = [(b.x - a.x) / len, (b.y - a.y) / len];
+    for (const nid of [m.a, m.b]) directions.set(nid, [...(directions.get(nid) ?? []), d]);
+  }
+
+  const result: { nodeId: string; translationStable: boolean }[] = [];
+  for (const [nodeId, dirs] of directions) {
+    if (hasFrame.has(nodeId)) continue;
+    const sups = input.supports.filter(s => s.nodeId === nodeId);
+    if (sups.some(s => s.type === "fix" || (s.type === "spring" && (s.spring?.kr ?? 0) > 0))) continue;
+
+    // 拘束方向に平行でない組が1つでもあれば並進2方向が拘束される
+    const all = [...dirs];
+    for (const s of sups) {
+      if (s.type === "pin") all.push([1, 0], [0, 1]);
+      else if (s.type === "roller") {
+        // 拘束方向（fem.ts の rollerConstraintVector と同じ向き）
+        const rad = s.angleDeg * Math.PI / 180;
+        all.push([-Math.sin(rad), Math.cos(rad)]);
+      } else if (s.type === "spring" && s.spring) {
+        // ばねの局所軸 x', y'（fem.ts の springAxes と同じ向き）
+        const rad = s.angleDeg * Math.PI / 180;
+        if (s.spring.kx > 0) all.push([Math.cos(rad), Math.sin(rad)]);
+        if (s.spring.ky > 0) all.push([-Math.sin(rad), Math.cos(rad)]);
+      }
+    }
+    const translationStable = all.some((p, i) =>
+      all.slice(i + 1).some(q => Math.abs(p[0] * q[1] - p[1] * q[0]) > 1e-6));
+    result.push({ nodeId, translationStable });
+  }
+  return result;
 }
\ No newline at end of file